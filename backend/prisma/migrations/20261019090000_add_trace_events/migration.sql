@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "TraceEvent" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "jobId" TEXT NOT NULL,
+    "agent" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "timestamp" DATETIME NOT NULL,
+    "detail" TEXT,
+    "startedAt" DATETIME,
+    "endedAt" DATETIME,
+    "durationMs" INTEGER,
+    "inputCount" INTEGER,
+    "outputCount" INTEGER,
+    "errorStack" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TraceEvent_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TraceEvent_jobId_id_idx" ON "TraceEvent"("jobId", "id");
+
+-- Backfill from the legacy Job.trace JSON column, preserving event order
+INSERT INTO "TraceEvent" ("jobId", "agent", "status", "timestamp", "detail")
+SELECT "Job"."id",
+       json_extract(e.value, '$.agent'),
+       json_extract(e.value, '$.status'),
+       json_extract(e.value, '$.timestamp'),
+       json_extract(e.value, '$.detail')
+FROM "Job", json_each("Job"."trace") AS e
+WHERE "Job"."trace" IS NOT NULL AND json_valid("Job"."trace")
+ORDER BY "Job"."createdAt", "Job"."id", e.key;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Job" ADD COLUMN "failureReason" TEXT;
+ALTER TABLE "Job" ADD COLUMN "finishedAt" DATETIME;
+ALTER TABLE "Job" ADD COLUMN "priority" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Job" ADD COLUMN "startedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "Job_status_priority_idx" ON "Job"("status", "priority");
+
+-- Jobs created before the queue existed were started immediately; anything
+-- still 'pending' never ran and should be picked up by the queue
+UPDATE "Job" SET "status" = 'queued' WHERE "status" = 'pending';
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "cancelRequestedAt" DATETIME;
+ALTER TABLE "Job" ADD COLUMN "options" TEXT;
+ALTER TABLE "Job" ADD COLUMN "rerunOfId" TEXT;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "JobStage" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "jobId" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "output" TEXT NOT NULL,
+    "startedAt" DATETIME NOT NULL,
+    "completedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "durationMs" INTEGER NOT NULL,
+    CONSTRAINT "JobStage_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobStage_jobId_stage_key" ON "JobStage"("jobId", "stage");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "AnalysisCache" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "version" TEXT NOT NULL,
+    "plan" TEXT NOT NULL,
+    "filterCriteria" TEXT NOT NULL,
+    "molecules" TEXT NOT NULL,
+    "fingerprints" TEXT NOT NULL,
+    "reportId" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastHitAt" DATETIME
+);
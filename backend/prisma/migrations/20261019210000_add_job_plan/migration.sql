@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "plan" TEXT;
+ALTER TABLE "Job" ADD COLUMN "planSource" TEXT;
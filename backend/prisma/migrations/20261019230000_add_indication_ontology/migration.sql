@@ -0,0 +1,72 @@
+-- CreateTable
+CREATE TABLE "Indication" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "therapeuticArea" TEXT NOT NULL,
+    "icd10Code" TEXT,
+    "meshId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "IndicationAlias" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "indicationId" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'synonym',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "IndicationAlias_indicationId_fkey" FOREIGN KEY ("indicationId") REFERENCES "Indication" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Indication_name_key" ON "Indication"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IndicationAlias_alias_key" ON "IndicationAlias"("alias");
+
+-- CreateIndex
+CREATE INDEX "IndicationAlias_indicationId_idx" ON "IndicationAlias"("indicationId");
+
+-- Seed the ontology with the terms previously hard-coded in the query parser,
+-- the molecule scope agent and the cache key
+INSERT INTO "Indication" ("id", "name", "therapeuticArea", "icd10Code", "meshId", "updatedAt") VALUES
+    ('ind_copd', 'COPD', 'Respiratory', 'J44', 'D029424', CURRENT_TIMESTAMP),
+    ('ind_t2d', 'Type 2 Diabetes', 'Metabolic', 'E11', 'D003924', CURRENT_TIMESTAMP),
+    ('ind_nsclc', 'NSCLC', 'Oncology', 'C34', 'D002289', CURRENT_TIMESTAMP),
+    ('ind_ra', 'Rheumatoid Arthritis', 'Immunology', 'M06.9', 'D001172', CURRENT_TIMESTAMP),
+    ('ind_cv', 'Cardiovascular', 'Cardiovascular', NULL, 'D002318', CURRENT_TIMESTAMP),
+    ('ind_htn', 'Hypertension', 'Cardiovascular', 'I10', 'D006973', CURRENT_TIMESTAMP);
+
+INSERT INTO "IndicationAlias" ("indicationId", "alias", "type") VALUES
+    ('ind_copd', 'chronic obstructive pulmonary disease', 'synonym'),
+    ('ind_copd', 'chronic obstructive', 'synonym'),
+    ('ind_copd', 'lung disease', 'broad'),
+    ('ind_copd', 'pulmonary', 'broad'),
+    ('ind_copd', 'respiratory', 'broad'),
+    ('ind_t2d', 'diabetes', 'synonym'),
+    ('ind_t2d', 'diabetic', 'synonym'),
+    ('ind_t2d', 'type 2', 'synonym'),
+    ('ind_t2d', 'type2', 'synonym'),
+    ('ind_t2d', 't2d', 'abbreviation'),
+    ('ind_nsclc', 'non-small cell lung cancer', 'synonym'),
+    ('ind_nsclc', 'non-small cell', 'synonym'),
+    ('ind_nsclc', 'lung cancer', 'synonym'),
+    ('ind_nsclc', 'nslc', 'abbreviation'),
+    ('ind_nsclc', 'oncology', 'broad'),
+    ('ind_nsclc', 'cancer', 'broad'),
+    ('ind_nsclc', 'tumor', 'broad'),
+    ('ind_ra', 'rheumatoid', 'synonym'),
+    ('ind_ra', 'arthritis', 'synonym'),
+    ('ind_ra', 'ra', 'abbreviation'),
+    ('ind_ra', 'autoimmune', 'broad'),
+    ('ind_cv', 'cholesterol', 'synonym'),
+    ('ind_cv', 'lipid', 'synonym'),
+    ('ind_cv', 'statin', 'synonym'),
+    ('ind_cv', 'cv', 'abbreviation'),
+    ('ind_cv', 'heart', 'broad'),
+    ('ind_htn', 'high blood pressure', 'synonym'),
+    ('ind_htn', 'blood pressure', 'synonym'),
+    ('ind_htn', 'high bp', 'synonym'),
+    ('ind_htn', 'htn', 'abbreviation'),
+    ('ind_htn', 'bp', 'abbreviation');
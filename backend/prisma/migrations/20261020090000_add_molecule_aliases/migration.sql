@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "MoleculeAlias" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "moleculeName" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'synonym',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MoleculeAlias_moleculeName_fkey" FOREIGN KEY ("moleculeName") REFERENCES "Molecule" ("name") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MoleculeAlias_alias_key" ON "MoleculeAlias"("alias");
+
+-- CreateIndex
+CREATE INDEX "MoleculeAlias_moleculeName_idx" ON "MoleculeAlias"("moleculeName");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "LlmCall" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "jobId" TEXT NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT,
+    "systemInstructions" TEXT,
+    "prompt" TEXT NOT NULL,
+    "responseText" TEXT,
+    "error" TEXT,
+    "latencyMs" INTEGER NOT NULL,
+    "replayedFromId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LlmCall_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "LlmCall_jobId_purpose_idx" ON "LlmCall"("jobId", "purpose");
@@ -0,0 +1,29 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_LlmCall" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "jobId" TEXT,
+    "purpose" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT,
+    "systemInstructions" TEXT,
+    "prompt" TEXT NOT NULL,
+    "responseText" TEXT,
+    "error" TEXT,
+    "latencyMs" INTEGER NOT NULL,
+    "inputTokens" INTEGER,
+    "outputTokens" INTEGER,
+    "retries" INTEGER NOT NULL DEFAULT 0,
+    "costUSD" REAL,
+    "replayedFromId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LlmCall_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_LlmCall" ("createdAt", "error", "id", "jobId", "latencyMs", "model", "prompt", "provider", "purpose", "replayedFromId", "responseText", "systemInstructions") SELECT "createdAt", "error", "id", "jobId", "latencyMs", "model", "prompt", "provider", "purpose", "replayedFromId", "responseText", "systemInstructions" FROM "LlmCall";
+DROP TABLE "LlmCall";
+ALTER TABLE "new_LlmCall" RENAME TO "LlmCall";
+CREATE INDEX "LlmCall_jobId_purpose_idx" ON "LlmCall"("jobId", "purpose");
+CREATE INDEX "LlmCall_createdAt_idx" ON "LlmCall"("createdAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "BlockedQuery" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "queryText" TEXT NOT NULL,
+    "verdict" TEXT NOT NULL,
+    "reasons" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "clientIp" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "BlockedQuery_createdAt_idx" ON "BlockedQuery"("createdAt");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "Country" (
+    "code" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "regulator" TEXT NOT NULL,
+    "patentOffice" TEXT NOT NULL,
+    "genericPathway" TEXT NOT NULL,
+    "aliases" TEXT NOT NULL DEFAULT '[]',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Country_name_key" ON "Country"("name");
+
+-- Seed the markets previously hard-coded as IN / US, plus the expansion markets
+INSERT INTO "Country" ("code", "name", "currency", "regulator", "patentOffice", "genericPathway", "aliases", "updatedAt") VALUES
+    ('IN', 'India', 'INR', 'CDSCO', 'Indian Patent Office', 'CDSCO generic approval (bioequivalence)', '["india","bharat"]', CURRENT_TIMESTAMP),
+    ('US', 'United States', 'USD', 'FDA', 'USPTO', 'ANDA (505(j))', '["usa","united states","united states of america","america","u.s."]', CURRENT_TIMESTAMP),
+    ('BR', 'Brazil', 'BRL', 'ANVISA', 'INPI Brazil', 'ANVISA generic registration (Law 9.787/1999)', '["brazil","brasil"]', CURRENT_TIMESTAMP),
+    ('ZA', 'South Africa', 'ZAR', 'SAHPRA', 'CIPC', 'SAHPRA generic registration', '["south africa","rsa"]', CURRENT_TIMESTAMP),
+    ('EU', 'European Union', 'EUR', 'EMA', 'EPO', 'Generic MAA (Directive 2001/83/EC Art. 10(1))', '["european union","europe","eu"]', CURRENT_TIMESTAMP);
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "DrugApplication" (
+    "applNo" TEXT NOT NULL PRIMARY KEY,
+    "moleculeName" TEXT NOT NULL,
+    "tradeName" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DrugApplication_moleculeName_fkey" FOREIGN KEY ("moleculeName") REFERENCES "Molecule" ("name") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "Exclusivity" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "molecule" TEXT,
+    "country" TEXT NOT NULL DEFAULT 'US',
+    "applType" TEXT NOT NULL,
+    "applNo" TEXT NOT NULL,
+    "productNo" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "expiryDate" DATETIME NOT NULL,
+    "dataSource" TEXT NOT NULL DEFAULT 'FDA Orange Book',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "DrugApplication_moleculeName_idx" ON "DrugApplication"("moleculeName");
+
+-- CreateIndex
+CREATE INDEX "Exclusivity_molecule_idx" ON "Exclusivity"("molecule");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Exclusivity_applNo_productNo_code_expiryDate_key" ON "Exclusivity"("applNo", "productNo", "code", "expiryDate");
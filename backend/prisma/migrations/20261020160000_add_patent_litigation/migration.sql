@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "PatentLitigation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "molecule" TEXT NOT NULL,
+    "country" TEXT NOT NULL DEFAULT 'US',
+    "caseNumber" TEXT NOT NULL,
+    "caseName" TEXT NOT NULL,
+    "court" TEXT NOT NULL,
+    "plaintiffs" TEXT NOT NULL DEFAULT '[]',
+    "defendants" TEXT NOT NULL DEFAULT '[]',
+    "patentNumbers" TEXT NOT NULL DEFAULT '[]',
+    "patentsInvalidated" TEXT NOT NULL DEFAULT '[]',
+    "patentsUpheld" TEXT NOT NULL DEFAULT '[]',
+    "outcome" TEXT NOT NULL,
+    "filedDate" DATETIME NOT NULL,
+    "decisionDate" DATETIME,
+    "notes" TEXT,
+    "dataSource" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "PatentLitigation_molecule_idx" ON "PatentLitigation"("molecule");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PatentLitigation_court_caseNumber_key" ON "PatentLitigation"("court", "caseNumber");
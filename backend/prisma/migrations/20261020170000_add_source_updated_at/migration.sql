@@ -0,0 +1,78 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_DrugPricing" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "molecule" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "totalSpendingUSD" REAL,
+    "totalClaims" INTEGER,
+    "costPerClaimUSD" REAL,
+    "beneficiaries" INTEGER,
+    "brandPriceUSD" REAL,
+    "genericPriceUSD" REAL,
+    "priceErosionPct" REAL,
+    "mrpINR" REAL,
+    "ceilingPriceINR" REAL,
+    "dataSource" TEXT NOT NULL,
+    "dataConfidence" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "dataQuality" TEXT NOT NULL DEFAULT 'CURATED',
+    "confidenceLevel" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "confidenceBands" TEXT,
+    "assumptions" TEXT,
+    "lastVerified" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "new_DrugPricing" ("assumptions", "beneficiaries", "brandPriceUSD", "ceilingPriceINR", "confidenceBands", "confidenceLevel", "costPerClaimUSD", "country", "createdAt", "dataConfidence", "dataQuality", "dataSource", "genericPriceUSD", "id", "lastVerified", "molecule", "mrpINR", "priceErosionPct", "totalClaims", "totalSpendingUSD", "year", "updatedAt") SELECT "assumptions", "beneficiaries", "brandPriceUSD", "ceilingPriceINR", "confidenceBands", "confidenceLevel", "costPerClaimUSD", "country", "createdAt", "dataConfidence", "dataQuality", "dataSource", "genericPriceUSD", "id", "lastVerified", "molecule", "mrpINR", "priceErosionPct", "totalClaims", "totalSpendingUSD", "year", "createdAt" FROM "DrugPricing";
+DROP TABLE "DrugPricing";
+ALTER TABLE "new_DrugPricing" RENAME TO "DrugPricing";
+CREATE UNIQUE INDEX "DrugPricing_molecule_country_year_key" ON "DrugPricing"("molecule", "country", "year");
+CREATE TABLE "new_GenericCompetition" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "molecule" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "genericApprovals" INTEGER NOT NULL,
+    "biosimilarApprovals" INTEGER NOT NULL DEFAULT 0,
+    "activeManufacturers" INTEGER NOT NULL,
+    "topCompetitors" TEXT,
+    "firstGenericDate" DATETIME,
+    "brandMarketSharePct" REAL,
+    "genericPenetrationPct" REAL,
+    "avgGenericPriceVsBrandPct" REAL,
+    "competitionIntensity" TEXT NOT NULL DEFAULT 'LOW',
+    "dataSource" TEXT NOT NULL,
+    "dataQuality" TEXT NOT NULL DEFAULT 'CURATED',
+    "confidenceLevel" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "assumptions" TEXT,
+    "lastVerified" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "new_GenericCompetition" ("activeManufacturers", "assumptions", "avgGenericPriceVsBrandPct", "biosimilarApprovals", "brandMarketSharePct", "competitionIntensity", "confidenceLevel", "country", "createdAt", "dataQuality", "dataSource", "firstGenericDate", "genericApprovals", "genericPenetrationPct", "id", "lastVerified", "molecule", "topCompetitors", "year", "updatedAt") SELECT "activeManufacturers", "assumptions", "avgGenericPriceVsBrandPct", "biosimilarApprovals", "brandMarketSharePct", "competitionIntensity", "confidenceLevel", "country", "createdAt", "dataQuality", "dataSource", "firstGenericDate", "genericApprovals", "genericPenetrationPct", "id", "lastVerified", "molecule", "topCompetitors", "year", "createdAt" FROM "GenericCompetition";
+DROP TABLE "GenericCompetition";
+ALTER TABLE "new_GenericCompetition" RENAME TO "GenericCompetition";
+CREATE UNIQUE INDEX "GenericCompetition_molecule_country_year_key" ON "GenericCompetition"("molecule", "country", "year");
+CREATE TABLE "new_Exclusivity" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "molecule" TEXT,
+    "country" TEXT NOT NULL DEFAULT 'US',
+    "applType" TEXT NOT NULL,
+    "applNo" TEXT NOT NULL,
+    "productNo" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "expiryDate" DATETIME NOT NULL,
+    "dataSource" TEXT NOT NULL DEFAULT 'FDA Orange Book',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "new_Exclusivity" ("applNo", "applType", "code", "country", "createdAt", "dataSource", "expiryDate", "id", "molecule", "productNo", "type", "updatedAt") SELECT "applNo", "applType", "code", "country", "createdAt", "dataSource", "expiryDate", "id", "molecule", "productNo", "type", "createdAt" FROM "Exclusivity";
+DROP TABLE "Exclusivity";
+ALTER TABLE "new_Exclusivity" RENAME TO "Exclusivity";
+CREATE INDEX "Exclusivity_molecule_idx" ON "Exclusivity"("molecule");
+CREATE UNIQUE INDEX "Exclusivity_applNo_productNo_code_expiryDate_key" ON "Exclusivity"("applNo", "productNo", "code", "expiryDate");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
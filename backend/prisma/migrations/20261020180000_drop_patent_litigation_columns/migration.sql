@@ -0,0 +1,36 @@
+/*
+  Warnings:
+
+  - You are about to drop the column `litigationHistory` on the `Patent` table. All the data in the column will be lost.
+  - You are about to drop the column `litigationRisk` on the `Patent` table. All the data in the column will be lost.
+
+*/
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Patent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "molecule" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "patentNumber" TEXT NOT NULL,
+    "patentType" TEXT NOT NULL,
+    "isPrimary" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL,
+    "filingDate" DATETIME,
+    "expiryDate" DATETIME NOT NULL,
+    "title" TEXT,
+    "assignee" TEXT,
+    "devicePatent" BOOLEAN NOT NULL DEFAULT false,
+    "dataQuality" TEXT NOT NULL DEFAULT 'CURATED',
+    "confidenceLevel" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "dataSource" TEXT,
+    "lastVerified" DATETIME,
+    "reviewedBy" TEXT,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "new_Patent" ("assignee", "confidenceLevel", "country", "createdAt", "dataQuality", "dataSource", "devicePatent", "expiryDate", "filingDate", "id", "isPrimary", "lastVerified", "molecule", "notes", "patentNumber", "patentType", "reviewedBy", "status", "title") SELECT "assignee", "confidenceLevel", "country", "createdAt", "dataQuality", "dataSource", "devicePatent", "expiryDate", "filingDate", "id", "isPrimary", "lastVerified", "molecule", "notes", "patentNumber", "patentType", "reviewedBy", "status", "title" FROM "Patent";
+DROP TABLE "Patent";
+ALTER TABLE "new_Patent" RENAME TO "Patent";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -28,7 +28,10 @@ async function main() {
   await prisma.regulatoryStatus.deleteMany();
   await prisma.clinicalTrial.deleteMany();
   await prisma.patent.deleteMany();
+  await prisma.patentLitigation.deleteMany();
   await prisma.diseaseMarket.deleteMany();
+  await prisma.moleculeAlias.deleteMany();
+  await prisma.drugApplication.deleteMany();
   await prisma.molecule.deleteMany();
 
   // ============================================
@@ -120,6 +123,43 @@ async function main() {
 
   console.log(`   ✅ Created ${molecules.count} molecules`);
 
+  // Extra names used in queries (name, generic name and brandName are matched directly)
+  const moleculeAliases = await prisma.moleculeAlias.createMany({
+    data: [
+      { moleculeName: 'Semaglutide', alias: 'rybelsus', type: 'brand' },
+      { moleculeName: 'Semaglutide', alias: 'nn9535', type: 'code' },
+      { moleculeName: 'Sitagliptin', alias: 'mk-0431', type: 'code' },
+      { moleculeName: 'Empagliflozin', alias: 'bi 10773', type: 'code' },
+      { moleculeName: 'Tiotropium', alias: 'tiotropium bromide', type: 'synonym' },
+      { moleculeName: 'Umeclidinium-Vilanterol', alias: 'umeclidinium', type: 'synonym' },
+      { moleculeName: 'Umeclidinium-Vilanterol', alias: 'umeclidinium/vilanterol', type: 'synonym' },
+      { moleculeName: 'Roflumilast', alias: 'daxas', type: 'brand' },
+      { moleculeName: 'Osimertinib', alias: 'azd9291', type: 'code' },
+      { moleculeName: 'Pembrolizumab', alias: 'mk-3475', type: 'code' },
+      { moleculeName: 'Pembrolizumab', alias: 'lambrolizumab', type: 'synonym' },
+    ],
+  });
+
+  console.log(`   ✅ Created ${moleculeAliases.count} molecule aliases`);
+
+  // FDA applications - link Orange Book exclusivities to molecules (npm run import:exclusivities)
+  const applications = await prisma.drugApplication.createMany({
+    data: [
+      { applNo: '209637', moleculeName: 'Semaglutide', tradeName: 'Ozempic' },
+      { applNo: '213051', moleculeName: 'Semaglutide', tradeName: 'Rybelsus' },
+      { applNo: '215256', moleculeName: 'Semaglutide', tradeName: 'Wegovy' },
+      { applNo: '021995', moleculeName: 'Sitagliptin', tradeName: 'Januvia' },
+      { applNo: '204629', moleculeName: 'Empagliflozin', tradeName: 'Jardiance' },
+      { applNo: '021395', moleculeName: 'Tiotropium', tradeName: 'Spiriva HandiHaler' },
+      { applNo: '021936', moleculeName: 'Tiotropium', tradeName: 'Spiriva Respimat' },
+      { applNo: '203975', moleculeName: 'Umeclidinium-Vilanterol', tradeName: 'Anoro Ellipta' },
+      { applNo: '022522', moleculeName: 'Roflumilast', tradeName: 'Daliresp' },
+      { applNo: '208065', moleculeName: 'Osimertinib', tradeName: 'Tagrisso' },
+    ],
+  });
+
+  console.log(`   ✅ Created ${applications.count} FDA applications`);
+
   // ============================================
   // 2. PATENT DATA (Country-specific: IN & US)
   // ============================================
@@ -254,6 +294,33 @@ async function main() {
         title: 'Inhalation powder formulation',
         assignee: 'Boehringer Ingelheim',
       },
+      // Respimat soft-mist inhaler - device only, the molecule itself is free
+      {
+        molecule: 'Tiotropium',
+        country: 'US',
+        patentNumber: 'US7,837,235',
+        patentType: 'DEVICE',
+        isPrimary: false,
+        devicePatent: true,
+        status: 'Active',
+        filingDate: new Date('2006-05-05'),
+        expiryDate: new Date('2028-09-13'),
+        title: 'Inhaler device (Respimat)',
+        assignee: 'Boehringer Ingelheim',
+      },
+      {
+        molecule: 'Tiotropium',
+        country: 'US',
+        patentNumber: 'US8,733,341',
+        patentType: 'DEVICE',
+        isPrimary: false,
+        devicePatent: true,
+        status: 'Active',
+        filingDate: new Date('2007-04-20'),
+        expiryDate: new Date('2031-04-16'),
+        title: 'Atomizer for inhalation (Respimat)',
+        assignee: 'Boehringer Ingelheim',
+      },
       {
         molecule: 'Tiotropium',
         country: 'IN',
@@ -693,19 +760,62 @@ async function main() {
 
   console.log(`   ✅ Created ${regulatory.count} regulatory records`);
 
+  // ============================================
+  // 6. PATENT LITIGATION (scenario cases on the seeded patents)
+  // ============================================
+  // Illustrative - load real case records with `npm run import:litigation`
+  console.log('⚖️  Seeding patent litigation...');
+
+  const litigation = await prisma.patentLitigation.createMany({
+    data: [
+      // Paragraph IV suit over the oral formulation patent - still open
+      {
+        molecule: 'Semaglutide',
+        country: 'US',
+        caseNumber: '1:22-cv-01040',
+        caseName: 'Novo Nordisk v. Mylan',
+        court: 'D. Del.',
+        plaintiffs: JSON.stringify(['Novo Nordisk Inc.', 'Novo Nordisk A/S']),
+        defendants: JSON.stringify(['Mylan Pharmaceuticals Inc.']),
+        patentNumbers: JSON.stringify(['US10,159,713']),
+        outcome: 'PENDING',
+        filedDate: new Date('2022-08-05'),
+        dataSource: 'Seed',
+      },
+      // Salt patent challenge ended in settlement (licensed generic entry)
+      {
+        molecule: 'Sitagliptin',
+        country: 'US',
+        caseNumber: '1:19-md-02902',
+        caseName: 'In re Sitagliptin Phosphate Patent Litigation',
+        court: 'D. Del.',
+        plaintiffs: JSON.stringify(['Merck Sharp & Dohme Corp.']),
+        defendants: JSON.stringify(['Mylan Pharmaceuticals Inc.']),
+        patentNumbers: JSON.stringify(['US7,326,708']),
+        outcome: 'SETTLED',
+        filedDate: new Date('2019-04-01'),
+        decisionDate: new Date('2022-05-01'),
+        dataSource: 'Seed',
+      },
+    ],
+  });
+
+  console.log(`   ✅ Created ${litigation.count} litigation cases`);
+
   // ============================================
   // SUMMARY
   // ============================================
   console.log('\n✅ Seeding complete!');
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
   console.log('📦 8 Molecules (curated real-world drugs)');
-  console.log('📜 22 Patents (US & IN, primary & secondary)');
+  console.log('📜 24 Patents (US & IN, primary, secondary & device)');
   console.log('📊 6 Disease Markets (epidemiology data)');
   console.log('🔬 12 Clinical Trials (Phase III/IV)');
   console.log('📋 16 Regulatory Records');
+  console.log('⚖️  2 Litigation Cases');
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
   console.log('\n🎯 Business Scenarios Available:');
-  console.log('   • GENERIC: Tiotropium (patents expired IN & US)');
+  console.log('   • GENERIC: Tiotropium (molecule free IN & US; US device patents until 2031 - alternative device)');
   console.log('   • GENERIC: Sitagliptin (primary expired, secondary expiring 2026)');
   console.log('   • WAIT:    Roflumilast (IN clear, US secondary until 2026)');
   console.log('   • WAIT:    Empagliflozin (expiring 2027-2028)');
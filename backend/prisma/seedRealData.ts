@@ -46,6 +46,7 @@ async function clearDatabase() {
   await prisma.clinicalTrial.deleteMany();
   await prisma.patent.deleteMany();
   await prisma.diseaseMarket.deleteMany();
+  await prisma.moleculeAlias.deleteMany();
   await prisma.molecule.deleteMany();
   
   console.log('   ✅ Database cleared');
@@ -236,8 +237,6 @@ async function main() {
         applicant: p.assignee || data.molecule.innovator,
         country: p.country,
         devicePatent: p.devicePatent,
-        litigationHistory: p.litigationHistory,
-        litigationRisk: p.litigationRisk as any,
         dataQuality: p.dataQuality as any,
         confidenceLevel: p.confidenceLevel as any,
         dataSource: p.dataSource,
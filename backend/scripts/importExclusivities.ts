@@ -0,0 +1,21 @@
+// backend/scripts/importExclusivities.ts
+
+import { exclusivityService } from '../src/services/exclusivityService';
+
+async function main() {
+  console.log('📜 Importing FDA Orange Book exclusivities...');
+
+  const result = await exclusivityService.importOrangeBook();
+
+  console.log(`   Parsed ${result.parsed} exclusivities (${result.skipped} duplicate or malformed lines skipped)`);
+  if (result.applicationsLinked > 0) {
+    console.log(`   Linked ${result.applicationsLinked} applications from products.txt`);
+  }
+  console.log(`   Stored ${result.stored}, ${result.linked} linked to curated molecules`);
+  console.log('\n✅ Import complete!');
+}
+
+main().catch((e) => {
+  console.error('❌ Import error:', e);
+  process.exit(1);
+});
@@ -0,0 +1,26 @@
+// backend/scripts/importLitigation.ts
+
+import { litigationService } from '../src/services/litigationService';
+
+async function main() {
+  console.log('⚖️  Importing curated patent litigation...');
+
+  const outcome = await litigationService.importCurated();
+
+  if (outcome.status === 'file_not_found') {
+    console.log(`   No curated litigation file at ${outcome.path} - skipping`);
+    return;
+  }
+
+  const { result } = outcome;
+  console.log(`   Parsed ${result.parsed} cases: ${result.created} created, ${result.updated} updated`);
+  for (const invalid of result.invalid) {
+    console.log(`   ⚠️  Case #${invalid.index}${invalid.caseNumber ? ` (${invalid.caseNumber})` : ''} skipped: ${invalid.errors.join('; ')}`);
+  }
+  console.log('\n✅ Import complete!');
+}
+
+main().catch((e) => {
+  console.error('❌ Import error:', e);
+  process.exit(1);
+});
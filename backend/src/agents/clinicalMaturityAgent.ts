@@ -4,7 +4,10 @@ import {
   ClinicalMaturityAgentResult,
   ClinicalMaturityAssessment,
   ClinicalTrialInfo,
+  MoleculeFailure,
 } from '../types/agent';
+import { CountryCode } from '../types/country';
+import { countryService } from '../services/countryService';
 
 const prisma = new PrismaClient();
 
@@ -13,12 +16,14 @@ const prisma = new PrismaClient();
  * 
  * Key Business Logic:
  * - Higher phases = more mature = lower regulatory risk
- * - Local trial data (IN or US) reduces regulatory risk in that country
+ * - Local trial data in a requested market reduces regulatory risk in that country
  * - Approved status = ready for commercialization
  * - Risk flags highlight potential issues (terminated trials, no local data)
+ * - Approval and local-trial points are shared across the requested markets
  */
 export async function runClinicalMaturityAgent(
   moleculeNames: string[],
+  countries: CountryCode[],
   jobId: string
 ): Promise<ClinicalMaturityAgentResult> {
   await jobService.appendTraceEvent(jobId, {
@@ -26,153 +31,162 @@ export async function runClinicalMaturityAgent(
     status: 'running',
     timestamp: new Date().toISOString(),
     detail: `Assessing clinical maturity for ${moleculeNames.length} molecules`,
+    inputCount: moleculeNames.length,
   });
 
   try {
     const molecules: ClinicalMaturityAssessment[] = [];
+    const failedMolecules: MoleculeFailure[] = [];
+    const countryNames = new Map(
+      await Promise.all(countries.map(async code => [code, await countryService.nameOf(code)] as const))
+    );
 
     for (const moleculeName of moleculeNames) {
-      // Fetch molecule info
-      const molecule = await prisma.molecule.findUnique({
-        where: { name: moleculeName },
-      });
-
-      // Fetch clinical trials
-      const trials = await prisma.clinicalTrial.findMany({
-        where: { molecule: moleculeName },
-        orderBy: { phase: 'desc' },
-      });
-
-      // Fetch regulatory status
-      const regulatoryRecords = await prisma.regulatoryStatus.findMany({
-        where: { molecule: moleculeName },
-      });
-
-      // Build regulatory status map
-      const regulatoryStatus: Record<'IN' | 'US', string> = {
-        IN: 'Not Filed',
-        US: 'Not Filed',
-      };
-      for (const reg of regulatoryRecords) {
-        if (reg.country === 'IN' || reg.country === 'US') {
-          regulatoryStatus[reg.country] = reg.status;
+      try {
+        // Fetch molecule info
+        const molecule = await prisma.molecule.findUnique({
+          where: { name: moleculeName },
+        });
+
+        // Fetch clinical trials
+        const trials = await prisma.clinicalTrial.findMany({
+          where: { molecule: moleculeName },
+          orderBy: { phase: 'desc' },
+        });
+
+        // Fetch regulatory status
+        const regulatoryRecords = await prisma.regulatoryStatus.findMany({
+          where: { molecule: moleculeName },
+        });
+
+        // Build regulatory status map
+        const regulatoryStatus: Record<CountryCode, string> = Object.fromEntries(
+          countries.map(country => [country, 'Not Filed'])
+        );
+        for (const reg of regulatoryRecords) {
+          if (countries.includes(reg.country)) {
+            regulatoryStatus[reg.country] = reg.status;
+          }
         }
-      }
 
-      // Determine highest phase completed
-      const phaseOrder = ['Phase IV', 'Phase III', 'Phase II', 'Phase I'];
-      let highestPhaseCompleted = 'None';
-      let hasPhase3Data = false;
+        // Determine highest phase completed
+        const phaseOrder = ['Phase IV', 'Phase III', 'Phase II', 'Phase I'];
+        let highestPhaseCompleted = 'None';
+        let hasPhase3Data = false;
+
+        for (const phase of phaseOrder) {
+          const completedTrial = trials.find(
+            t => t.phase === phase && t.status === 'Completed'
+          );
+          if (completedTrial) {
+            highestPhaseCompleted = phase;
+            break;
+          }
+        }
+
+        // Check for Phase III data
+        hasPhase3Data = trials.some(
+          t => (t.phase === 'Phase III' || t.phase === 'Phase IV') && 
+               (t.status === 'Completed' || t.outcome === 'Positive')
+        );
 
-      for (const phase of phaseOrder) {
-        const completedTrial = trials.find(
-          t => t.phase === phase && t.status === 'Completed'
+        // Check for local trial data
+        const hasLocalTrialData: Record<CountryCode, boolean> = Object.fromEntries(
+          countries.map(country => [country, trials.some(t => t.country === country)])
         );
-        if (completedTrial) {
-          highestPhaseCompleted = phase;
-          break;
+
+        // Identify clinical risk flags
+        const clinicalRiskFlags: string[] = [];
+
+        // Check for terminated trials
+        const terminatedTrials = trials.filter(t => t.status === 'Terminated');
+        if (terminatedTrials.length > 0) {
+          clinicalRiskFlags.push(`${terminatedTrials.length} terminated trial(s)`);
         }
-      }
 
-      // Check for Phase III data
-      hasPhase3Data = trials.some(
-        t => (t.phase === 'Phase III' || t.phase === 'Phase IV') && 
-             (t.status === 'Completed' || t.outcome === 'Positive')
-      );
-
-      // Check for local trial data
-      const hasLocalTrialData: Record<'IN' | 'US', boolean> = {
-        IN: trials.some(t => t.country === 'IN'),
-        US: trials.some(t => t.country === 'US'),
-      };
-
-      // Identify clinical risk flags
-      const clinicalRiskFlags: string[] = [];
-
-      // Check for terminated trials
-      const terminatedTrials = trials.filter(t => t.status === 'Terminated');
-      if (terminatedTrials.length > 0) {
-        clinicalRiskFlags.push(`${terminatedTrials.length} terminated trial(s)`);
-      }
+        // Check for negative outcomes
+        const negativeOutcomes = trials.filter(t => t.outcome === 'Negative');
+        if (negativeOutcomes.length > 0) {
+          clinicalRiskFlags.push(`${negativeOutcomes.length} trial(s) with negative outcome`);
+        }
 
-      // Check for negative outcomes
-      const negativeOutcomes = trials.filter(t => t.outcome === 'Negative');
-      if (negativeOutcomes.length > 0) {
-        clinicalRiskFlags.push(`${negativeOutcomes.length} trial(s) with negative outcome`);
-      }
+        // Check for missing local data
+        for (const country of countries) {
+          if (!hasLocalTrialData[country] && regulatoryStatus[country] !== 'Approved') {
+            clinicalRiskFlags.push(`No clinical trial data in ${countryNames.get(country)}`);
+          }
+        }
 
-      // Check for missing local data
-      if (!hasLocalTrialData.IN && regulatoryStatus.IN !== 'Approved') {
-        clinicalRiskFlags.push('No clinical trial data in India');
-      }
-      if (!hasLocalTrialData.US && regulatoryStatus.US !== 'Approved') {
-        clinicalRiskFlags.push('No clinical trial data in US');
-      }
+        // Check for regulatory gaps
+        for (const country of countries) {
+          if (regulatoryStatus[country] === 'Not Filed') {
+            clinicalRiskFlags.push(`Not yet filed for approval in ${countryNames.get(country)}`);
+          }
+        }
 
-      // Check for regulatory gaps
-      if (regulatoryStatus.IN === 'Not Filed') {
-        clinicalRiskFlags.push('Not yet filed for approval in India');
-      }
-      if (regulatoryStatus.US === 'Not Filed') {
-        clinicalRiskFlags.push('Not yet filed for approval in US');
-      }
+        // No Phase III data is a significant risk
+        if (!hasPhase3Data) {
+          clinicalRiskFlags.push('No Phase III efficacy data available');
+        }
 
-      // No Phase III data is a significant risk
-      if (!hasPhase3Data) {
-        clinicalRiskFlags.push('No Phase III efficacy data available');
+        // Calculate maturity score (0-100)
+        let maturityScore = 0;
+
+        // Phase contribution (up to 40 points)
+        const phaseScores: Record<string, number> = {
+          'Phase IV': 40,
+          'Phase III': 35,
+          'Phase II': 20,
+          'Phase I': 10,
+          'None': 0,
+        };
+        maturityScore += phaseScores[highestPhaseCompleted] || 0;
+
+        // Regulatory approval contribution (up to 30 points, shared across markets)
+        const approvedCount = countries.filter(c => regulatoryStatus[c] === 'Approved').length;
+        maturityScore += countries.length > 0 ? 30 * approvedCount / countries.length : 0;
+
+        // Local trial data contribution (up to 20 points, shared across markets)
+        const localTrialCount = countries.filter(c => hasLocalTrialData[c]).length;
+        maturityScore += countries.length > 0 ? 20 * localTrialCount / countries.length : 0;
+
+        // Positive outcomes bonus (up to 10 points)
+        const positiveOutcomes = trials.filter(t => t.outcome === 'Positive').length;
+        maturityScore += Math.min(10, positiveOutcomes * 3);
+
+        // Risk flag penalty
+        maturityScore -= clinicalRiskFlags.length * 5;
+        maturityScore = Math.max(0, Math.min(100, Math.round(maturityScore)));
+
+        // Build trial info array
+        const trialInfos: ClinicalTrialInfo[] = trials.map(t => ({
+          trialId: t.trialId || undefined,
+          phase: t.phase,
+          status: t.status,
+          country: t.country,
+          sponsor: t.sponsor,
+          outcome: t.outcome || undefined,
+          completionDate: t.completionDate?.toISOString().split('T')[0],
+        }));
+
+        molecules.push({
+          molecule: moleculeName,
+          indication: molecule?.indication || 'Unknown',
+          highestPhaseCompleted,
+          hasPhase3Data,
+          hasLocalTrialData,
+          regulatoryStatus,
+          clinicalRiskFlags,
+          maturityScore,
+          trials: trialInfos,
+        });
+      } catch (error) {
+        // One molecule's bad or missing data must not sink the whole portfolio scan
+        failedMolecules.push({
+          molecule: moleculeName,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
       }
-
-      // Calculate maturity score (0-100)
-      let maturityScore = 0;
-
-      // Phase contribution (up to 40 points)
-      const phaseScores: Record<string, number> = {
-        'Phase IV': 40,
-        'Phase III': 35,
-        'Phase II': 20,
-        'Phase I': 10,
-        'None': 0,
-      };
-      maturityScore += phaseScores[highestPhaseCompleted] || 0;
-
-      // Regulatory approval contribution (up to 30 points)
-      if (regulatoryStatus.US === 'Approved') maturityScore += 15;
-      if (regulatoryStatus.IN === 'Approved') maturityScore += 15;
-
-      // Local trial data contribution (up to 20 points)
-      if (hasLocalTrialData.US) maturityScore += 10;
-      if (hasLocalTrialData.IN) maturityScore += 10;
-
-      // Positive outcomes bonus (up to 10 points)
-      const positiveOutcomes = trials.filter(t => t.outcome === 'Positive').length;
-      maturityScore += Math.min(10, positiveOutcomes * 3);
-
-      // Risk flag penalty
-      maturityScore -= clinicalRiskFlags.length * 5;
-      maturityScore = Math.max(0, Math.min(100, maturityScore));
-
-      // Build trial info array
-      const trialInfos: ClinicalTrialInfo[] = trials.map(t => ({
-        trialId: t.trialId || undefined,
-        phase: t.phase,
-        status: t.status,
-        country: t.country,
-        sponsor: t.sponsor,
-        outcome: t.outcome || undefined,
-        completionDate: t.completionDate?.toISOString().split('T')[0],
-      }));
-
-      molecules.push({
-        molecule: moleculeName,
-        indication: molecule?.indication || 'Unknown',
-        highestPhaseCompleted,
-        hasPhase3Data,
-        hasLocalTrialData,
-        regulatoryStatus,
-        clinicalRiskFlags,
-        maturityScore,
-        trials: trialInfos,
-      });
     }
 
     await jobService.appendTraceEvent(jobId, {
@@ -180,17 +194,23 @@ export async function runClinicalMaturityAgent(
       status: 'completed',
       timestamp: new Date().toISOString(),
       detail: `Assessed ${molecules.length} molecules. Avg maturity: ${
-        Math.round(molecules.reduce((sum, m) => sum + m.maturityScore, 0) / molecules.length)
-      }`,
+        molecules.length > 0
+          ? Math.round(molecules.reduce((sum, m) => sum + m.maturityScore, 0) / molecules.length)
+          : 'n/a'
+      }` +
+        (failedMolecules.length > 0 ? `. Failed: ${failedMolecules.map(f => f.molecule).join(', ')}` : ''),
+      inputCount: moleculeNames.length,
+      outputCount: molecules.length,
     });
 
-    return { molecules };
+    return { molecules, failedMolecules };
   } catch (error) {
     await jobService.appendTraceEvent(jobId, {
       agent: 'ClinicalMaturityAgent',
       status: 'error',
       timestamp: new Date().toISOString(),
       detail: error instanceof Error ? error.message : 'Unknown error',
+      errorStack: error instanceof Error ? error.stack : undefined,
     });
     throw error;
   }
@@ -1,6 +1,5 @@
 import { clinicalDataService } from '../services/clinicalDataService';
 import { jobService } from '../services/jobService';
-import { callGemini, extractJson } from '../services/geminiClient';
 import { ClinicalAgentResult, MoleculeTrialData, AgentTraceEvent } from '../types/agent';
 import { ExecutionPlan } from '../types/query';
 
@@ -60,7 +59,7 @@ export async function runClinicalTrialsAgent(
 
     const byMolecule = Array.from(moleculeMap.values());
 
-    // Optionally use Gemini to add insights
+    // Optionally use the LLM to add insights
     if (byMolecule.length > 0) {
       await jobService.appendTraceEvent(jobId, {
         agent: 'ClinicalTrialsAgent',
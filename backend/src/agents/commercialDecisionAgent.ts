@@ -6,13 +6,37 @@ import {
   CountryRecommendation,
   CommercialStrategy,
   CommercialRisk,
-  MoleculeFTOResult,
-  ClinicalMaturityAssessment,
-  MoleculeMarketAnalysis,
+  PatentFTOAgentResult,
+  ClinicalMaturityAgentResult,
+  EpidemiologyMarketAgentResult,
+  DecisionInput,
+  DegradedInput,
+  LitigationCaseInfo,
 } from '../types/agent';
+import { CountryCode } from '../types/country';
+import { countryService } from '../services/countryService';
 
 const prisma = new PrismaClient();
 
+// Agent results feeding the decisions. A missing result (its stage failed) or a
+// molecule missing from a result degrades that molecule's decision instead of dropping it.
+export interface DecisionInputs {
+  fto?: PatentFTOAgentResult;
+  clinical?: ClinicalMaturityAgentResult;
+  market?: EpidemiologyMarketAgentResult;
+  // Why a whole input is unavailable, e.g. the stage threw
+  unavailable?: Partial<Record<DecisionInput, string>>;
+}
+
+// Developing, validating and filing with a different inhaler / pen / autoinjector
+const ALTERNATIVE_DEVICE_YEARS = 3;
+
+const INPUT_LABELS: Record<DecisionInput, string> = {
+  fto: 'FTO',
+  clinical: 'clinical',
+  market: 'market',
+};
+
 /**
  * Commercial Decision Agent - Final Business Recommendations
  * 
@@ -29,6 +53,8 @@ const prisma = new PrismaClient();
  *   - Approved in target market
  *   - Viable market size (>$500M)
  *   - Can enter immediately or soon
+ *   - Or: molecule free, only device patents left, and they can be designed around
+ *     → develop the generic with an alternative delivery device rather than wait
  * 
  * WAIT:
  *   - Patents expiring in 2-4 years
@@ -39,58 +65,111 @@ const prisma = new PrismaClient();
  *   - Patents block for >5 years
  *   - Poor clinical profile or market too small
  *   - Oncology specialty drugs (complex manufacturing, small patient population)
+ *
+ * Degraded decisions:
+ *   - Missing FTO → patent position unknown, WAIT until FTO is complete
+ *   - Market with no patent data at all → WAIT until patent coverage is added
+ *   - Missing clinical → no LICENSE (maturity cannot be assessed)
+ *   - Missing market → revenue and market size treated as unknown (0)
+ *
+ * Litigation: cases in a market are summarized in its rationale; a pending challenge to a
+ * blocking patent raises commercial risk one level (invalidated patents are already
+ * excluded from the FTO entry date).
+ *
+ * Entry dates: strategy is set on the conservative date (every blocking patent and
+ * exclusivity expired); where FTO gives an earlier at-risk date (US), it is shown
+ * alongside with the patents that would have to be cleared.
  */
 export async function runCommercialDecisionAgent(
-  ftoResults: MoleculeFTOResult[],
-  clinicalResults: ClinicalMaturityAssessment[],
-  marketResults: MoleculeMarketAnalysis[],
+  moleculeNames: string[],
+  countries: CountryCode[],
+  inputs: DecisionInputs,
   jobId: string
 ): Promise<CommercialDecisionAgentResult> {
   await jobService.appendTraceEvent(jobId, {
     agent: 'CommercialDecisionAgent',
     status: 'running',
     timestamp: new Date().toISOString(),
-    detail: `Making commercial decisions for ${ftoResults.length} molecules`,
+    detail: `Making commercial decisions for ${moleculeNames.length} molecules`,
+    inputCount: moleculeNames.length,
   });
 
   try {
     const decisions: MoleculeDecision[] = [];
+    const countryInfo = new Map(
+      await Promise.all(countries.map(async code => [code, await countryService.getCountry(code)] as const))
+    );
+    const nameOf = (code: CountryCode) => countryInfo.get(code)?.name ?? code;
 
-    for (const fto of ftoResults) {
-      const clinical = clinicalResults.find(c => c.molecule === fto.molecule);
-      const market = marketResults.find(m => m.molecule === fto.molecule);
+    for (const moleculeName of moleculeNames) {
+      const fto = inputs.fto?.molecules.find(f => f.molecule === moleculeName);
+      const clinical = inputs.clinical?.molecules.find(c => c.molecule === moleculeName);
+      const market = inputs.market?.molecules.find(m => m.molecule === moleculeName);
 
-      if (!clinical || !market) {
-        continue;
-      }
+      const degraded: DegradedInput[] = [];
+      if (!fto) degraded.push({ input: 'fto', reason: missingInputReason(inputs, 'fto', moleculeName) });
+      if (!clinical) degraded.push({ input: 'clinical', reason: missingInputReason(inputs, 'clinical', moleculeName) });
+      if (!market) degraded.push({ input: 'market', reason: missingInputReason(inputs, 'market', moleculeName) });
+      const reasonFor = (input: DecisionInput) => degraded.find(d => d.input === input)?.reason;
 
       // Get molecule details
       const molecule = await prisma.molecule.findUnique({
-        where: { name: fto.molecule },
+        where: { name: moleculeName },
       });
+      const indication = market?.indication || clinical?.indication || molecule?.indication || 'Unknown';
 
       const recommendations: CountryRecommendation[] = [];
-      const countries: Array<'IN' | 'US'> = ['IN', 'US'];
 
       for (const country of countries) {
-        const countryFTO = fto.byCountry.find(c => c.country === country);
-        const countryRevenue = market.estimatedRevenueUSD[country];
-        const countryMarketData = market.marketData.find(m => m.country === country);
-        const regulatoryStatus = clinical.regulatoryStatus[country];
-        const hasLocalTrials = clinical.hasLocalTrialData[country];
+        const countryFTO = fto?.byCountry.find(c => c.country === country);
+        const countryRevenue = market?.estimatedRevenueUSD[country] ?? 0;
+        const countryMarketData = market?.marketData.find(m => m.country === country);
+        const regulatoryStatus = clinical?.regulatoryStatus[country];
+        const hasLocalTrials = clinical?.hasLocalTrialData[country];
+
+        if (!countryFTO) {
+          if (fto && inputs.fto?.uncoveredCountries?.includes(country)) {
+            // Market without any patent data - nothing to clear entry against
+            recommendations.push({
+              country,
+              strategy: 'WAIT',
+              timeToMarketYears: 0,
+              estimatedRevenueUSD: countryRevenue,
+              commercialRisk: 'HIGH',
+              rationale: `No patent data for ${nameOf(country)} - patent position unknown, decision deferred.`,
+              goNoGo: 'CONDITIONAL',
+              conditions: [`Add ${countryInfo.get(country)?.patentOffice ?? nameOf(country)} patent coverage and re-run FTO`],
+            });
+            continue;
+          }
+          if (fto) continue;
 
-        if (!countryFTO) continue;
+          // No FTO analysis - patent position unknown, so no entry decision can be made yet
+          recommendations.push({
+            country,
+            strategy: 'WAIT',
+            timeToMarketYears: 0,
+            estimatedRevenueUSD: countryRevenue,
+            commercialRisk: 'HIGH',
+            rationale: `FTO analysis unavailable (${reasonFor('fto')}). Patent position unknown - decision deferred.`,
+            goNoGo: 'CONDITIONAL',
+            conditions: ['Complete FTO analysis before committing resources'],
+          });
+          continue;
+        }
 
         let strategy: CommercialStrategy;
         let commercialRisk: CommercialRisk;
         let rationale: string;
         let goNoGo: 'GO' | 'NO-GO' | 'CONDITIONAL';
+        let alternativeDevice = false;
         const conditions: string[] = [];
 
         const yearsToEntry = countryFTO.yearsToGenericEntry;
         const marketSize = countryMarketData?.marketSizeUSD || 0;
         const isApproved = regulatoryStatus === 'Approved';
-        const isOncology = market.indication === 'NSCLC';
+        const isOncology = indication === 'NSCLC';
+        const maturityScore = clinical?.maturityScore ?? 0;
 
         // Decision logic
         if (isOncology && yearsToEntry > 3) {
@@ -104,12 +183,27 @@ export async function runCommercialDecisionAgent(
           // Patents expired = GENERIC opportunity
           strategy = 'GENERIC';
           commercialRisk = isApproved ? 'LOW' : 'MEDIUM';
+          const genericPathway = countryInfo.get(country)?.genericPathway;
           rationale = `All patents expired in ${country}. ${
             isApproved ? 'Product already approved - immediate market entry possible.' :
+            genericPathway ? `File for generic approval via ${genericPathway}.` :
             'File ANDA/generic application for market entry.'
           } Market size: $${(marketSize / 1_000_000_000).toFixed(1)}B.`;
           goNoGo = isApproved ? 'GO' : 'CONDITIONAL';
           if (!isApproved) conditions.push('Requires regulatory filing and approval');
+        } else if (countryFTO.ftoStatus === 'DEVICE_BLOCKED' && countryFTO.deviceDesignAroundFeasible) {
+          // Molecule free, only the innovator's device is protected = GENERIC with another device
+          strategy = 'GENERIC';
+          commercialRisk = 'MEDIUM';
+          alternativeDevice = true;
+          const devicePatents = countryFTO.blockingPatents.filter(p => p.devicePatent).map(p => p.patentNumber);
+          rationale = `Molecule free in ${country}; device patents protect only the innovator's device until ` +
+            `${countryFTO.lastDevicePatentExpiry} (${yearsToEntry.toFixed(1)} years). ` +
+            `Develop the generic with an alternative delivery device instead of waiting. Market: $${(marketSize / 1_000_000_000).toFixed(1)}B.`;
+          goNoGo = 'CONDITIONAL';
+          conditions.push('Develop or in-license a non-infringing delivery device');
+          conditions.push(`Device FTO opinion on ${devicePatents.join(', ')}`);
+          conditions.push('Device performance and bioequivalence data for the alternative device');
         } else if (countryFTO.ftoStatus === 'EXPIRING_SOON' && yearsToEntry <= 2) {
           // Expiring soon = GENERIC (prepare now)
           strategy = 'GENERIC';
@@ -117,7 +211,7 @@ export async function runCommercialDecisionAgent(
           rationale = `Patents expiring in ${yearsToEntry.toFixed(1)} years (${countryFTO.earliestGenericEntry}). ` +
             `Begin ANDA/generic development now for Day-1 launch. Market: $${(marketSize / 1_000_000_000).toFixed(1)}B.`;
           goNoGo = 'CONDITIONAL';
-          conditions.push(`Wait for patent expiry: ${countryFTO.earliestGenericEntry}`);
+          conditions.push(`Wait for ${countryFTO.entryBlockedBy === 'EXCLUSIVITY' ? 'exclusivity' : 'patent'} expiry: ${countryFTO.earliestGenericEntry}`);
           if (!isApproved) conditions.push('File regulatory application 12-18 months before patent expiry');
         } else if (yearsToEntry > 2 && yearsToEntry <= 4) {
           // Medium-term = WAIT
@@ -128,7 +222,7 @@ export async function runCommercialDecisionAgent(
           goNoGo = 'CONDITIONAL';
           conditions.push(`Re-evaluate in ${Math.max(1, yearsToEntry - 2).toFixed(0)} years`);
           conditions.push('Track patent litigation and regulatory changes');
-        } else if (yearsToEntry > 4 && marketSize >= 5_000_000_000 && clinical.maturityScore >= 70) {
+        } else if (yearsToEntry > 4 && marketSize >= 5_000_000_000 && maturityScore >= 70) {
           // Long patents but huge market with good clinical = LICENSE
           strategy = 'LICENSE';
           commercialRisk = 'HIGH';
@@ -142,8 +236,10 @@ export async function runCommercialDecisionAgent(
           strategy = 'DROP';
           commercialRisk = 'HIGH';
           rationale = `Patents block entry until ${countryFTO.earliestGenericEntry} (${yearsToEntry.toFixed(1)} years). ` +
-            (marketSize < 1_000_000_000 ? 'Market size insufficient for investment. ' :
-             clinical.maturityScore < 50 ? 'Clinical profile requires further development. ' :
+            (!market ? 'Market data unavailable. ' :
+             marketSize < 1_000_000_000 ? 'Market size insufficient for investment. ' :
+             !clinical ? 'Clinical data unavailable - licensing case cannot be assessed. ' :
+             maturityScore < 50 ? 'Clinical profile requires further development. ' :
              'Economics do not support licensing or waiting. ') +
             'Recommend focusing resources elsewhere.';
           goNoGo = 'NO-GO';
@@ -155,6 +251,42 @@ export async function runCommercialDecisionAgent(
           timeToMarketYears = isApproved ? 0.5 : 2; // 6 months if approved, 2 years for new filing
         } else if (strategy === 'LICENSE') {
           timeToMarketYears = 1.5; // License negotiation + launch
+        } else if (alternativeDevice) {
+          timeToMarketYears = Math.min(yearsToEntry, ALTERNATIVE_DEVICE_YEARS);
+        }
+
+        // Patents may clear before a regulatory exclusivity does - say which one sets the date
+        if (countryFTO.entryBlockedBy === 'EXCLUSIVITY') {
+          rationale += ` Entry date set by regulatory exclusivity (${
+            (countryFTO.blockingExclusivities || [])
+              .filter(e => e.expiryDate === countryFTO.lastExclusivityExpiry)
+              .map(e => e.code).join(', ')
+          }), not patents` +
+            (countryFTO.lastPatentExpiry ? ` (last blocking patent expires ${countryFTO.lastPatentExpiry}).` : ' (no active patents).');
+        }
+
+        // Strategy follows the conservative date; an earlier at-risk date is an option to weigh, not a plan
+        const atRiskEntry = countryFTO.atRiskEarliestEntry;
+        if (atRiskEntry && atRiskEntry < countryFTO.earliestGenericEntry && !alternativeDevice) {
+          const challengeable = countryFTO.blockingPatents
+            .filter(p => p.challengeability && p.challengeability !== 'HARD_BLOCKING' && p.expiryDate > atRiskEntry);
+          rationale += ` At-risk entry possible from ${atRiskEntry} (${countryFTO.yearsToAtRiskEntry?.toFixed(1)} years) ` +
+            `if ${challengeable.length} non-compound patent(s) are designed around, carved out or challenged.`;
+          conditions.push(`At-risk launch before ${countryFTO.earliestGenericEntry} requires clearing ${challengeable.map(p => p.patentNumber).join(', ')}`);
+        }
+
+        // Litigation history in this market; a pending challenge to a blocking patent adds risk
+        const countryCases = fto?.litigation?.filter(c => c.country === country) ?? [];
+        if (countryCases.length > 0) {
+          rationale += ` Litigation: ${countryCases.map(describeCase).join('; ')}.`;
+        }
+        if (countryFTO.litigationRisk === 'HIGH') {
+          commercialRisk = commercialRisk === 'LOW' ? 'MEDIUM' : 'HIGH';
+          conditions.push('Monitor pending patent challenge - its outcome can move the entry date');
+        }
+
+        if (degraded.length > 0) {
+          rationale += ` [Degraded: no ${degraded.map(d => INPUT_LABELS[d.input]).join(', ')} data]`;
         }
 
         recommendations.push({
@@ -166,9 +298,14 @@ export async function runCommercialDecisionAgent(
           rationale,
           goNoGo,
           conditions: conditions.length > 0 ? conditions : undefined,
+          alternativeDevice: alternativeDevice || undefined,
+          earliestEntry: countryFTO.earliestGenericEntry,
+          atRiskEntry,
         });
       }
 
+      if (recommendations.length === 0) continue;
+
       // Determine overall strategy (prioritize by best opportunity)
       const strategyPriority: Record<CommercialStrategy, number> = {
         'GENERIC': 1,
@@ -186,36 +323,42 @@ export async function runCommercialDecisionAgent(
         recommendations.some(r => r.commercialRisk === 'MEDIUM') ? 'MEDIUM' : 'LOW';
 
       // Build summaries
-      const ftoSummary = fto.byCountry.map(c =>
-        `${c.country}: ${c.ftoStatus === 'CLEAR' ? 'Patents expired' :
-          c.ftoStatus === 'EXPIRING_SOON' ? `Expiring ${c.earliestGenericEntry}` :
-          `Blocked until ${c.earliestGenericEntry}`}`
-      ).join('. ');
+      const ftoSummary = fto
+        ? fto.byCountry.map(c =>
+            `${c.country}: ${c.ftoStatus === 'CLEAR' ? 'Patents expired' :
+              c.ftoStatus === 'EXPIRING_SOON' ? `Expiring ${c.earliestGenericEntry}` :
+              c.ftoStatus === 'DEVICE_BLOCKED' ? `Molecule free, device blocked until ${c.lastDevicePatentExpiry}` :
+              `Blocked until ${c.earliestGenericEntry}`}${c.entryBlockedBy === 'EXCLUSIVITY' ? ' (exclusivity)' : ''}`
+          ).join('. ')
+        : `FTO unavailable: ${reasonFor('fto')}`;
 
-      const clinicalSummary = `${clinical.highestPhaseCompleted} completed. ` +
-        `Approved: IN=${clinical.regulatoryStatus.IN}, US=${clinical.regulatoryStatus.US}. ` +
-        `Maturity: ${clinical.maturityScore}/100.`;
+      const clinicalSummary = clinical
+        ? `${clinical.highestPhaseCompleted} completed. ` +
+          `Approved: ${countries.map(c => `${c}=${clinical.regulatoryStatus[c] ?? 'Not Filed'}`).join(', ')}. ` +
+          `Maturity: ${clinical.maturityScore}/100.`
+        : `Clinical data unavailable: ${reasonFor('clinical')}`;
 
-      const marketSummary = `$${(market.totalAddressableMarketUSD / 1_000_000_000).toFixed(1)}B total addressable market. ` +
-        `IN: $${(market.estimatedRevenueUSD.IN / 1_000_000).toFixed(0)}M potential. ` +
-        `US: $${(market.estimatedRevenueUSD.US / 1_000_000).toFixed(0)}M potential.`;
+      const marketSummary = market
+        ? `$${(market.totalAddressableMarketUSD / 1_000_000_000).toFixed(1)}B total addressable market. ` +
+          countries.map(c => `${c}: $${((market.estimatedRevenueUSD[c] ?? 0) / 1_000_000).toFixed(0)}M potential.`).join(' ')
+        : `Market data unavailable: ${reasonFor('market')}`;
 
       // Extract patent details for transparency
-      const patentDetails = {
-        IN: {
-          blocking: fto.byCountry.find(c => c.country === 'IN')?.blockingPatents || [],
-          expired: fto.byCountry.find(c => c.country === 'IN')?.expiredPatents || [],
-        },
-        US: {
-          blocking: fto.byCountry.find(c => c.country === 'US')?.blockingPatents || [],
-          expired: fto.byCountry.find(c => c.country === 'US')?.expiredPatents || [],
-        },
-      };
+      const patentDetails: MoleculeDecision['patentDetails'] = Object.fromEntries(countries.map(country => [country, {
+        blocking: fto?.byCountry.find(c => c.country === country)?.blockingPatents || [],
+        expired: fto?.byCountry.find(c => c.country === country)?.expiredPatents || [],
+        invalidated: fto?.byCountry.find(c => c.country === country)?.invalidatedPatents || [],
+        exclusivities: fto?.byCountry.find(c => c.country === country)?.blockingExclusivities || [],
+      }]));
+      const earliestEntryByCountry: Record<CountryCode, string> = {};
+      for (const countryFTO of fto?.byCountry ?? []) {
+        earliestEntryByCountry[countryFTO.country] = countryFTO.earliestGenericEntry;
+      }
 
       decisions.push({
-        molecule: fto.molecule,
+        molecule: moleculeName,
         brandName: molecule?.brandName || undefined,
-        indication: market.indication,
+        indication,
         innovator: molecule?.innovatorCompany || 'Unknown',
         modality: molecule?.modality || 'Unknown',
         recommendations,
@@ -226,8 +369,11 @@ export async function runCommercialDecisionAgent(
         clinicalSummary,
         marketSummary,
         patentDetails,
-        earliestEntryIN: fto.byCountry.find(c => c.country === 'IN')?.earliestGenericEntry,
-        earliestEntryUS: fto.byCountry.find(c => c.country === 'US')?.earliestGenericEntry,
+        litigation: fto?.litigation,
+        earliestEntryByCountry,
+        earliestEntryIN: earliestEntryByCountry.IN,
+        earliestEntryUS: earliestEntryByCountry.US,
+        degraded: degraded.length > 0 ? degraded : undefined,
       });
     }
 
@@ -256,12 +402,17 @@ export async function runCommercialDecisionAgent(
       dropRecommendations: decisions.filter(d => d.overallStrategy === 'DROP').length,
     };
 
+    const degradedCount = decisions.filter(d => d.degraded).length;
+
     await jobService.appendTraceEvent(jobId, {
       agent: 'CommercialDecisionAgent',
       status: 'completed',
       timestamp: new Date().toISOString(),
       detail: `Decisions: ${summary.genericOpportunities} GENERIC, ${summary.licenseOpportunities} LICENSE, ` +
-        `${summary.waitOpportunities} WAIT, ${summary.dropRecommendations} DROP`,
+        `${summary.waitOpportunities} WAIT, ${summary.dropRecommendations} DROP` +
+        (degradedCount > 0 ? ` (${degradedCount} degraded - incomplete inputs)` : ''),
+      inputCount: moleculeNames.length,
+      outputCount: decisions.length,
     });
 
     return { decisions, summary };
@@ -271,7 +422,32 @@ export async function runCommercialDecisionAgent(
       status: 'error',
       timestamp: new Date().toISOString(),
       detail: error instanceof Error ? error.message : 'Unknown error',
+      errorStack: error instanceof Error ? error.stack : undefined,
     });
     throw error;
   }
 }
+
+// e.g. "Novo Nordisk v. Mylan (D. Del.) pending since 2022-06-30 on US10,159,713"
+function describeCase(c: LitigationCaseInfo): string {
+  if (c.outcome === 'PENDING') {
+    return `${c.caseName} (${c.court}) pending since ${c.filedDate} on ${c.patentNumbers.join(', ')}`;
+  }
+  const ruling = [
+    c.patentsInvalidated.length > 0 ? `${c.patentsInvalidated.join(', ')} invalidated` : '',
+    c.patentsUpheld.length > 0 ? `${c.patentsUpheld.join(', ')} upheld` : '',
+  ].filter(Boolean).join(', ');
+  // Settlements, dismissals and rulings without per-patent detail fall back to the outcome itself
+  const result = ruling || c.outcome.toLowerCase();
+  return `${c.caseName} (${c.court}) ${result}${c.decisionDate ? ` ${c.decisionDate}` : ''}`;
+}
+
+// Why an input is missing for a molecule: the whole stage failed, the molecule
+// failed inside the stage, or the stage simply had no data for it
+function missingInputReason(inputs: DecisionInputs, input: DecisionInput, molecule: string): string {
+  const unavailable = inputs.unavailable?.[input];
+  if (unavailable) return unavailable;
+
+  const failure = inputs[input]?.failedMolecules?.find(f => f.molecule === molecule);
+  return failure ? failure.error : 'no data for this molecule';
+}
@@ -0,0 +1,169 @@
+import { PrismaClient } from '@prisma/client';
+import { jobService } from '../services/jobService';
+import { describeFilters, expiryWindow, formatUSD } from '../services/planService';
+import { PlanFilters } from '../types/query';
+import {
+  ConstraintFilterResult,
+  EpidemiologyMarketAgentResult,
+  FilteredMolecule,
+  PatentFTOAgentResult,
+} from '../types/agent';
+
+const prisma = new PrismaClient();
+
+export interface ConstraintInputs {
+  fto?: PatentFTOAgentResult;
+  market?: EpidemiologyMarketAgentResult;
+  // ISO codes of the analyzed markets
+  countries: string[];
+}
+
+/**
+ * Constraint Filter Agent - Applies the plan's numeric / temporal constraints
+ *
+ * Runs after the FTO and market stages and keeps only the molecules that meet
+ * every constraint (in at least one analyzed country; the generic approvals cap
+ * in every one). Excluded molecules are returned with the reason for each
+ * constraint they failed.
+ */
+export async function runConstraintFilterAgent(
+  moleculeNames: string[],
+  filters: PlanFilters,
+  inputs: ConstraintInputs,
+  jobId: string
+): Promise<ConstraintFilterResult> {
+  await jobService.appendTraceEvent(jobId, {
+    agent: 'ConstraintFilterAgent',
+    status: 'running',
+    timestamp: new Date().toISOString(),
+    detail: `Applying constraints: ${describeFilters(filters).join(', ')}`,
+    inputCount: moleculeNames.length,
+  });
+
+  try {
+    const unchecked: NonNullable<ConstraintFilterResult['unchecked']> = [];
+    const { from, to } = expiryWindow(filters);
+    const hasExpiry = !!(from || to);
+    const hasMarket = filters.minMarketSizeUSD !== undefined;
+    const hasGenerics = filters.maxGenericApprovals !== undefined;
+
+    // Without the stage output the constraint can't be checked - molecules are kept
+    if (hasExpiry && !inputs.fto) {
+      unchecked.push({ constraint: 'patent expiry', input: 'fto' });
+    }
+    if (hasMarket && !inputs.market) {
+      unchecked.push({ constraint: 'market size', input: 'market' });
+    }
+    if (hasGenerics && !inputs.market) {
+      unchecked.push({ constraint: 'generic approvals', input: 'market' });
+    }
+
+    const statuses = filters.regulatoryStatus
+      ? await prisma.regulatoryStatus.findMany({
+          where: { molecule: { in: moleculeNames }, country: { in: inputs.countries } },
+        })
+      : [];
+
+    const passedMolecules: string[] = [];
+    const filteredOut: FilteredMolecule[] = [];
+    const countryList = inputs.countries.join(', ');
+
+    for (const molecule of moleculeNames) {
+      const reasons: string[] = [];
+
+      // Patent expiry window - any blocking or expired patent in an analyzed country.
+      // A molecule missing from the stage output (e.g. it failed there) is excluded, not passed unchecked
+      const fto = inputs.fto?.molecules.find(m => m.molecule === molecule);
+      if (hasExpiry && inputs.fto && !fto) {
+        reasons.push('no FTO data to check the patent expiry window');
+      } else if (hasExpiry && fto) {
+        const expiries = fto.byCountry
+          .filter(c => inputs.countries.includes(c.country))
+          .flatMap(c => [...c.blockingPatents, ...c.expiredPatents])
+          .map(p => new Date(p.expiryDate));
+        const inWindow = expiries.some(d => (!from || d >= from) && (!to || d <= to));
+        if (!inWindow) {
+          reasons.push(`no patent expiring ${filters.expiryFrom || '…'}-${filters.expiryTo || '…'} in ${countryList}`);
+        }
+      }
+
+      const market = inputs.market?.molecules.find(m => m.molecule === molecule);
+
+      // Minimum market size - latest year per country
+      if (hasMarket && inputs.market && !market) {
+        reasons.push('no market data to check the minimum market size');
+      } else if (hasMarket && market) {
+        const sizes = inputs.countries.map(country => {
+          const records = market.marketData.filter(d => d.country === country);
+          const latest = records.sort((a, b) => b.year - a.year)[0];
+          return { country, size: latest?.marketSizeUSD || 0 };
+        });
+        const largest = sizes.sort((a, b) => b.size - a.size)[0];
+        if (!largest || largest.size < filters.minMarketSizeUSD!) {
+          reasons.push(
+            `market ${formatUSD(largest?.size || 0)} in ${largest?.country || countryList} ` +
+            `(minimum ${formatUSD(filters.minMarketSizeUSD!)})`
+          );
+        }
+      }
+
+      // Maximum generic approvals, per analyzed market - approvals only accumulate, so the highest
+      // count is the current one. A market without competition data can't be shown to be under the cap
+      if (hasGenerics && inputs.market) {
+        for (const country of inputs.countries) {
+          const records = (market?.competitionData || []).filter(c => c.country === country);
+          if (records.length === 0) {
+            reasons.push(`no generic approval data in ${country} (maximum ${filters.maxGenericApprovals})`);
+            continue;
+          }
+          const approvals = Math.max(...records.map(c => c.genericApprovals));
+          if (approvals > filters.maxGenericApprovals!) {
+            reasons.push(`${approvals} generic approvals in ${country} (maximum ${filters.maxGenericApprovals})`);
+          }
+        }
+      }
+
+      // Required regulatory status
+      if (filters.regulatoryStatus) {
+        const wanted = filters.regulatoryStatus.toLowerCase();
+        const records = statuses.filter(s => s.molecule === molecule);
+        if (!records.some(s => s.status.toLowerCase() === wanted)) {
+          const actual = records.map(s => `${s.status} in ${s.country}`).join(', ') || 'no status on record';
+          reasons.push(`regulatory status ${actual} (required ${filters.regulatoryStatus})`);
+        }
+      }
+
+      if (reasons.length > 0) {
+        filteredOut.push({ molecule, reasons });
+      } else {
+        passedMolecules.push(molecule);
+      }
+    }
+
+    await jobService.appendTraceEvent(jobId, {
+      agent: 'ConstraintFilterAgent',
+      status: 'completed',
+      timestamp: new Date().toISOString(),
+      detail: `${passedMolecules.length}/${moleculeNames.length} molecules meet the constraints` +
+        (filteredOut.length > 0 ? ` (excluded: ${filteredOut.map(f => f.molecule).join(', ')})` : '') +
+        (unchecked.length > 0 ? ` - not checked: ${unchecked.map(u => u.constraint).join(', ')}` : ''),
+      inputCount: moleculeNames.length,
+      outputCount: passedMolecules.length,
+    });
+
+    return {
+      passedMolecules,
+      filteredOut,
+      unchecked: unchecked.length > 0 ? unchecked : undefined,
+    };
+  } catch (error) {
+    await jobService.appendTraceEvent(jobId, {
+      agent: 'ConstraintFilterAgent',
+      status: 'error',
+      timestamp: new Date().toISOString(),
+      detail: error instanceof Error ? error.message : 'Unknown error',
+      errorStack: error instanceof Error ? error.stack : undefined,
+    });
+    throw error;
+  }
+}
@@ -6,8 +6,10 @@ import {
   DiseaseMarketData,
   DrugPricingInfo,
   CompetitionInfo,
+  MoleculeFailure,
 } from '../types/agent';
 import { calculateAdjustedMarketShare } from '../services/marketDataService';
+import { CountryCode } from '../types/country';
 
 const prisma = new PrismaClient();
 
@@ -19,6 +21,7 @@ const prisma = new PrismaClient();
  * - Revenue estimate based on REAL competition data (FDA Orange Book, CDSCO)
  * - Uses actual drug pricing from CMS Medicare Part D and NPPA
  * - Market attractiveness considers size, growth potential, AND competition intensity
+ * - Only the requested markets are sized; a market without data stays at 0 / LOW
  * 
  * Data Sources:
  * - CMS Medicare Part D (US drug spending and pricing)
@@ -29,6 +32,7 @@ const prisma = new PrismaClient();
  */
 export async function runEpidemiologyMarketAgent(
   moleculeNames: string[],
+  countries: CountryCode[],
   jobId: string
 ): Promise<EpidemiologyMarketAgentResult> {
   await jobService.appendTraceEvent(jobId, {
@@ -36,222 +40,231 @@ export async function runEpidemiologyMarketAgent(
     status: 'running',
     timestamp: new Date().toISOString(),
     detail: `Analyzing market opportunity for ${moleculeNames.length} molecules with real pricing & competition data`,
+    inputCount: moleculeNames.length,
   });
 
   try {
     const molecules: MoleculeMarketAnalysis[] = [];
+    const failedMolecules: MoleculeFailure[] = [];
 
     for (const moleculeName of moleculeNames) {
-      // Fetch molecule info to get indication
-      const molecule = await prisma.molecule.findUnique({
-        where: { name: moleculeName },
-      });
+      try {
+        // Fetch molecule info to get indication
+        const molecule = await prisma.molecule.findUnique({
+          where: { name: moleculeName },
+        });
 
-      if (!molecule) {
-        continue;
-      }
+        if (!molecule) {
+          continue;
+        }
 
-      const indication = molecule.indication;
+        const indication = molecule.indication;
 
-      // Fetch disease market data for this indication
-      const marketRecords = await prisma.diseaseMarket.findMany({
-        where: { disease: indication },
-      });
+        // Fetch disease market data for this indication
+        const marketRecords = await prisma.diseaseMarket.findMany({
+          where: { disease: indication, country: { in: countries } },
+        });
 
-      // NEW: Fetch market growth data
-      const growthRecords = await prisma.marketGrowth.findMany({
-        where: { disease: indication },
-      }).catch(() => []);  // Gracefully handle if table doesn't exist yet
+        // NEW: Fetch market growth data
+        const growthRecords = await prisma.marketGrowth.findMany({
+          where: { disease: indication, country: { in: countries } },
+        }).catch(() => []);  // Gracefully handle if table doesn't exist yet
 
-      // NEW: Fetch drug-specific pricing data
-      const pricingRecords = await prisma.drugPricing.findMany({
-        where: { molecule: moleculeName },
-      }).catch(() => []);
+        // NEW: Fetch drug-specific pricing data
+        const pricingRecords = await prisma.drugPricing.findMany({
+          where: { molecule: moleculeName, country: { in: countries } },
+        }).catch(() => []);
 
-      // NEW: Fetch generic competition data
-      const competitionRecords = await prisma.genericCompetition.findMany({
-        where: { molecule: moleculeName },
-      }).catch(() => []);
+        // NEW: Fetch generic competition data
+        const competitionRecords = await prisma.genericCompetition.findMany({
+          where: { molecule: moleculeName, country: { in: countries } },
+        }).catch(() => []);
 
-      const marketData: DiseaseMarketData[] = [];
-      const pricingData: DrugPricingInfo[] = [];
-      const competitionData: CompetitionInfo[] = [];
-      const estimatedRevenueUSD: Record<'IN' | 'US', number> = { IN: 0, US: 0 };
-      const adjustedMarketShare: Record<'IN' | 'US', number> = { IN: 0, US: 0 };
-      const revenueExplanation: Record<'IN' | 'US', string> = { IN: '', US: '' };
-      const marketAttractiveness: Record<'IN' | 'US', 'HIGH' | 'MEDIUM' | 'LOW'> = {
-        IN: 'LOW',
-        US: 'LOW',
-      };
-      let totalAddressableMarketUSD = 0;
+        const marketData: DiseaseMarketData[] = [];
+        const pricingData: DrugPricingInfo[] = [];
+        const competitionData: CompetitionInfo[] = [];
+        const estimatedRevenueUSD: Record<CountryCode, number> = Object.fromEntries(countries.map(c => [c, 0]));
+        const adjustedMarketShare: Record<CountryCode, number> = Object.fromEntries(countries.map(c => [c, 0]));
+        const revenueExplanation: Record<CountryCode, string> = Object.fromEntries(countries.map(c => [c, '']));
+        const marketAttractiveness: Record<CountryCode, 'HIGH' | 'MEDIUM' | 'LOW'> = Object.fromEntries(
+          countries.map(c => [c, 'LOW' as const])
+        );
+        let totalAddressableMarketUSD = 0;
 
-      // Process market data for each country
-      for (const record of marketRecords) {
-        const country = record.country as 'IN' | 'US';
+        // Process market data for each country
+        for (const record of marketRecords) {
+          const country = record.country;
         
-        // Get growth data for this country
-        const growthData = growthRecords.find(g => g.country === country);
+          // Get growth data for this country
+          const growthData = growthRecords.find(g => g.country === country);
         
-        // Calculate treated patient population
-        const treatedPatients = record.prevalenceMillions * (record.treatedRatePercent / 100) * 1_000_000;
+          // Calculate treated patient population
+          const treatedPatients = record.prevalenceMillions * (record.treatedRatePercent / 100) * 1_000_000;
         
-        // Calculate market size - this is the DRUG MARKET SIZE (not total disease cost)
-        // Uses pre-calculated realistic drug market values from seed data
-        const calculatedMarketSize = record.marketSizeUSD || 
-          (treatedPatients * record.avgAnnualTherapyCostUSD);
+          // Calculate market size - this is the DRUG MARKET SIZE (not total disease cost)
+          // Uses pre-calculated realistic drug market values from seed data
+          const calculatedMarketSize = record.marketSizeUSD || 
+            (treatedPatients * record.avgAnnualTherapyCostUSD);
 
-        const marketDataEntry: DiseaseMarketData = {
-          disease: record.disease,
-          country,
-          year: record.year,
-          prevalenceMillions: record.prevalenceMillions,
-          incidenceMillions: record.incidenceMillions,
-          treatedRatePercent: record.treatedRatePercent,
-          avgAnnualTherapyCostUSD: record.avgAnnualTherapyCostUSD,
-          marketSizeUSD: calculatedMarketSize,
-          dataSource: record.dataSource || undefined,
-          cagr5YearProjected: growthData?.cagr5YearProjected || undefined,
-          genericErosionRate: growthData?.genericErosionRate || undefined,
-        };
+          const marketDataEntry: DiseaseMarketData = {
+            disease: record.disease,
+            country,
+            year: record.year,
+            prevalenceMillions: record.prevalenceMillions,
+            incidenceMillions: record.incidenceMillions,
+            treatedRatePercent: record.treatedRatePercent,
+            avgAnnualTherapyCostUSD: record.avgAnnualTherapyCostUSD,
+            marketSizeUSD: calculatedMarketSize,
+            dataSource: record.dataSource || undefined,
+            cagr5YearProjected: growthData?.cagr5YearProjected || undefined,
+            genericErosionRate: growthData?.genericErosionRate || undefined,
+          };
 
-        marketData.push(marketDataEntry);
-        totalAddressableMarketUSD += calculatedMarketSize;
+          marketData.push(marketDataEntry);
+          totalAddressableMarketUSD += calculatedMarketSize;
 
-        // Get competition data for this country
-        const countryCompetition = competitionRecords.find(c => c.country === country);
+          // Get competition data for this country
+          const countryCompetition = competitionRecords.find(c => c.country === country);
         
-        // Get pricing data for this country
-        const countryPricing = pricingRecords.find(p => p.country === country);
+          // Get pricing data for this country
+          const countryPricing = pricingRecords.find(p => p.country === country);
         
-        // Format helper for millions/billions
-        const formatMarketSize = (value: number): string => {
-          if (value >= 1_000_000_000) {
-            return `$${(value / 1_000_000_000).toFixed(2)}B`;
-          } else if (value >= 1_000_000) {
-            return `$${(value / 1_000_000).toFixed(0)}M`;
-          }
-          return `$${value.toLocaleString()}`;
-        };
+          // Format helper for millions/billions
+          const formatMarketSize = (value: number): string => {
+            if (value >= 1_000_000_000) {
+              return `$${(value / 1_000_000_000).toFixed(2)}B`;
+            } else if (value >= 1_000_000) {
+              return `$${(value / 1_000_000).toFixed(0)}M`;
+            }
+            return `$${value.toLocaleString()}`;
+          };
 
-        // Calculate market share based on REAL competition data
-        let marketSharePct: number;
-        let explanation: string;
+          // Calculate market share based on REAL competition data
+          let marketSharePct: number;
+          let explanation: string;
         
-        // Base explanation with patient data context
-        const treatedPatientsFormatted = treatedPatients >= 1_000_000 
-          ? `${(treatedPatients / 1_000_000).toFixed(1)}M`
-          : `${(treatedPatients / 1000).toFixed(0)}K`;
+          // Base explanation with patient data context
+          const treatedPatientsFormatted = treatedPatients >= 1_000_000 
+            ? `${(treatedPatients / 1_000_000).toFixed(1)}M`
+            : `${(treatedPatients / 1000).toFixed(0)}K`;
         
-        const baseContext = `Drug market: ${formatMarketSize(calculatedMarketSize)} (${treatedPatientsFormatted} treated patients). `;
+          const baseContext = `Drug market: ${formatMarketSize(calculatedMarketSize)} (${treatedPatientsFormatted} treated patients). `;
 
-        if (countryCompetition) {
-          // Use real competition data to calculate market share
-          const competitionIntensity = countryCompetition.competitionIntensity as 'LOW' | 'MEDIUM' | 'HIGH';
-          const genericApprovals = countryCompetition.genericApprovals;
-          const genericPenetration = countryCompetition.genericPenetrationPct || 0;
+          if (countryCompetition) {
+            // Use real competition data to calculate market share
+            const competitionIntensity = countryCompetition.competitionIntensity as 'LOW' | 'MEDIUM' | 'HIGH';
+            const genericApprovals = countryCompetition.genericApprovals;
+            const genericPenetration = countryCompetition.genericPenetrationPct || 0;
           
-          if (competitionIntensity === 'LOW') {
-            // Low competition - can capture more market
-            marketSharePct = 15;
-            explanation = baseContext + `Low competition (${genericApprovals} generics). Achievable share: ${marketSharePct}%.`;
-          } else if (competitionIntensity === 'MEDIUM') {
-            // Medium competition
-            marketSharePct = 8;
-            explanation = baseContext + `Medium competition (${genericApprovals} generics, ${countryCompetition.activeManufacturers} manufacturers). Share: ${marketSharePct}%.`;
-          } else {
-            // High competition - share depends on number of players
-            if (genericApprovals <= 10) {
-              marketSharePct = 5;
-            } else if (genericApprovals <= 20) {
-              marketSharePct = 3;
+            if (competitionIntensity === 'LOW') {
+              // Low competition - can capture more market
+              marketSharePct = 15;
+              explanation = baseContext + `Low competition (${genericApprovals} generics). Achievable share: ${marketSharePct}%.`;
+            } else if (competitionIntensity === 'MEDIUM') {
+              // Medium competition
+              marketSharePct = 8;
+              explanation = baseContext + `Medium competition (${genericApprovals} generics, ${countryCompetition.activeManufacturers} manufacturers). Share: ${marketSharePct}%.`;
             } else {
-              marketSharePct = 2;
+              // High competition - share depends on number of players
+              if (genericApprovals <= 10) {
+                marketSharePct = 5;
+              } else if (genericApprovals <= 20) {
+                marketSharePct = 3;
+              } else {
+                marketSharePct = 2;
+              }
+              explanation = baseContext + `High competition (${genericApprovals} generics). Realistic share: ${marketSharePct}%.`;
             }
-            explanation = baseContext + `High competition (${genericApprovals} generics). Realistic share: ${marketSharePct}%.`;
-          }
           
-          // If generic market exists, we compete in that segment
-          if (genericPenetration > 0) {
-            const genericMarketSize = calculatedMarketSize * (genericPenetration / 100);
-            estimatedRevenueUSD[country] = Math.round(genericMarketSize * (marketSharePct / 100));
-            explanation += ` Generic segment: ${genericPenetration}% (${formatMarketSize(genericMarketSize)}).`;
+            // If generic market exists, we compete in that segment
+            if (genericPenetration > 0) {
+              const genericMarketSize = calculatedMarketSize * (genericPenetration / 100);
+              estimatedRevenueUSD[country] = Math.round(genericMarketSize * (marketSharePct / 100));
+              explanation += ` Generic segment: ${genericPenetration}% (${formatMarketSize(genericMarketSize)}).`;
+            } else {
+              // Brand market - need licensing
+              estimatedRevenueUSD[country] = Math.round(calculatedMarketSize * (marketSharePct / 100));
+              explanation += ' Brand-only market - licensing required.';
+            }
           } else {
-            // Brand market - need licensing
+            // Fallback to old logic if no competition data
+            marketSharePct = country === 'IN' ? 8 : 6;
+            explanation = baseContext + `Est. ${marketSharePct}% share (limited competition data).`;
             estimatedRevenueUSD[country] = Math.round(calculatedMarketSize * (marketSharePct / 100));
-            explanation += ' Brand-only market - licensing required.';
           }
-        } else {
-          // Fallback to old logic if no competition data
-          marketSharePct = country === 'IN' ? 8 : 6;
-          explanation = baseContext + `Est. ${marketSharePct}% share (limited competition data).`;
-          estimatedRevenueUSD[country] = Math.round(calculatedMarketSize * (marketSharePct / 100));
-        }
 
-        adjustedMarketShare[country] = marketSharePct;
-        revenueExplanation[country] = explanation;
+          adjustedMarketShare[country] = marketSharePct;
+          revenueExplanation[country] = explanation;
 
-        // Determine market attractiveness (considering competition)
-        const attractivenessScore = calculateMarketAttractiveness(
-          calculatedMarketSize,
-          countryCompetition?.competitionIntensity as 'LOW' | 'MEDIUM' | 'HIGH' | undefined,
-          growthData?.cagr5YearProjected ?? undefined
-        );
-        marketAttractiveness[country] = attractivenessScore;
-      }
+          // Determine market attractiveness (considering competition)
+          const attractivenessScore = calculateMarketAttractiveness(
+            calculatedMarketSize,
+            countryCompetition?.competitionIntensity as 'LOW' | 'MEDIUM' | 'HIGH' | undefined,
+            growthData?.cagr5YearProjected ?? undefined
+          );
+          marketAttractiveness[country] = attractivenessScore;
+        }
 
-      // Build pricing data array
-      for (const pricing of pricingRecords) {
-        pricingData.push({
-          country: pricing.country as 'IN' | 'US',
-          year: pricing.year,
-          totalSpendingUSD: pricing.totalSpendingUSD || undefined,
-          totalClaims: pricing.totalClaims || undefined,
-          brandPriceUSD: pricing.brandPriceUSD || undefined,
-          genericPriceUSD: pricing.genericPriceUSD || undefined,
-          priceErosionPct: pricing.priceErosionPct || undefined,
-          dataSource: pricing.dataSource,
-          dataConfidence: pricing.dataConfidence as 'HIGH' | 'MEDIUM' | 'LOW',
-        });
-      }
+        // Build pricing data array
+        for (const pricing of pricingRecords) {
+          pricingData.push({
+            country: pricing.country,
+            year: pricing.year,
+            totalSpendingUSD: pricing.totalSpendingUSD || undefined,
+            totalClaims: pricing.totalClaims || undefined,
+            brandPriceUSD: pricing.brandPriceUSD || undefined,
+            genericPriceUSD: pricing.genericPriceUSD || undefined,
+            priceErosionPct: pricing.priceErosionPct || undefined,
+            dataSource: pricing.dataSource,
+            dataConfidence: pricing.dataConfidence as 'HIGH' | 'MEDIUM' | 'LOW',
+          });
+        }
 
-      // Build competition data array
-      for (const competition of competitionRecords) {
-        let topCompetitors: string[] | undefined;
-        try {
-          if (competition.topCompetitors) {
-            topCompetitors = JSON.parse(competition.topCompetitors);
+        // Build competition data array
+        for (const competition of competitionRecords) {
+          let topCompetitors: string[] | undefined;
+          try {
+            if (competition.topCompetitors) {
+              topCompetitors = JSON.parse(competition.topCompetitors);
+            }
+          } catch {
+            topCompetitors = undefined;
           }
-        } catch {
-          topCompetitors = undefined;
+
+          competitionData.push({
+            country: competition.country,
+            genericApprovals: competition.genericApprovals,
+            biosimilarApprovals: competition.biosimilarApprovals,
+            activeManufacturers: competition.activeManufacturers,
+            topCompetitors,
+            firstGenericDate: competition.firstGenericDate?.toISOString().split('T')[0],
+            brandMarketSharePct: competition.brandMarketSharePct || undefined,
+            genericPenetrationPct: competition.genericPenetrationPct || undefined,
+            competitionIntensity: competition.competitionIntensity as 'LOW' | 'MEDIUM' | 'HIGH',
+            dataSource: competition.dataSource,
+          });
         }
 
-        competitionData.push({
-          country: competition.country as 'IN' | 'US',
-          genericApprovals: competition.genericApprovals,
-          biosimilarApprovals: competition.biosimilarApprovals,
-          activeManufacturers: competition.activeManufacturers,
-          topCompetitors,
-          firstGenericDate: competition.firstGenericDate?.toISOString().split('T')[0],
-          brandMarketSharePct: competition.brandMarketSharePct || undefined,
-          genericPenetrationPct: competition.genericPenetrationPct || undefined,
-          competitionIntensity: competition.competitionIntensity as 'LOW' | 'MEDIUM' | 'HIGH',
-          dataSource: competition.dataSource,
+        molecules.push({
+          molecule: moleculeName,
+          indication,
+          marketData,
+          estimatedRevenueUSD,
+          marketAttractiveness,
+          totalAddressableMarketUSD,
+          // NEW: Enhanced data
+          pricingData: pricingData.length > 0 ? pricingData : undefined,
+          competitionData: competitionData.length > 0 ? competitionData : undefined,
+          adjustedMarketShare,
+          revenueExplanation,
+        });
+      } catch (error) {
+        // One molecule's bad or missing data must not sink the whole portfolio scan
+        failedMolecules.push({
+          molecule: moleculeName,
+          error: error instanceof Error ? error.message : 'Unknown error',
         });
       }
-
-      molecules.push({
-        molecule: moleculeName,
-        indication,
-        marketData,
-        estimatedRevenueUSD,
-        marketAttractiveness,
-        totalAddressableMarketUSD,
-        // NEW: Enhanced data
-        pricingData: pricingData.length > 0 ? pricingData : undefined,
-        competitionData: competitionData.length > 0 ? competitionData : undefined,
-        adjustedMarketShare,
-        revenueExplanation,
-      });
     }
 
     await jobService.appendTraceEvent(jobId, {
@@ -260,16 +273,20 @@ export async function runEpidemiologyMarketAgent(
       timestamp: new Date().toISOString(),
       detail: `Analyzed ${molecules.length} molecules with real competition data. Total addressable market: $${
         (molecules.reduce((sum, m) => sum + m.totalAddressableMarketUSD, 0) / 1_000_000_000).toFixed(1)
-      }B`,
+      }B` +
+        (failedMolecules.length > 0 ? `. Failed: ${failedMolecules.map(f => f.molecule).join(', ')}` : ''),
+      inputCount: moleculeNames.length,
+      outputCount: molecules.length,
     });
 
-    return { molecules };
+    return { molecules, failedMolecules };
   } catch (error) {
     await jobService.appendTraceEvent(jobId, {
       agent: 'EpidemiologyMarketAgent',
       status: 'error',
       timestamp: new Date().toISOString(),
       detail: error instanceof Error ? error.message : 'Unknown error',
+      errorStack: error instanceof Error ? error.stack : undefined,
     });
     throw error;
   }
@@ -1,13 +1,8 @@
-import { jobService } from '../services/jobService';
-import { cacheService } from '../services/cacheService';
-import { callGemini, extractJson } from '../services/geminiClient';
-import { runMoleculeScopeAgent } from './moleculeScopeAgent';
-import { runPatentFTOAgent } from './patentFTOAgent';
-import { runClinicalMaturityAgent } from './clinicalMaturityAgent';
-import { runEpidemiologyMarketAgent } from './epidemiologyMarketAgent';
-import { runCommercialDecisionAgent } from './commercialDecisionAgent';
-import { generateReport } from './reportGenerator';
-import { ExecutionPlan, ExecutionPlanSchema } from '../types/query';
+import { jobService, JobCancelledError } from '../services/jobService';
+import { cacheService, CacheKeyInput, DataFingerprints } from '../services/cacheService';
+import { planService, describePlan } from '../services/planService';
+import { executePipeline, resolveStages, PipelineContext } from './pipeline';
+import { ExecutionPlan, PlanOrigin, RunOptions } from '../types/query';
 import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
@@ -24,12 +19,27 @@ const prisma = new PrismaClient();
  *    - EpidemiologyMarketAgent → Market opportunity
  * 4. CommercialDecisionAgent → LICENSE | GENERIC | WAIT | DROP
  * 5. ReportGenerator → Board-ready output
+ *
+ * Steps 2-5 are declared as a stage graph (see ./pipeline). Only the stages
+ * named in plan.agentsToRun (plus their dependencies) run, e.g. a patent-only
+ * question runs scope → fto → report.
+ *
+ * A structured analysis (POST /api/analyses) passes its resolved plan and skips step 1.
+ * Either way the plan that ran is stored on the Job and embedded in the report.
+ *
+ * Cancellation is checked between stages; a cancelled job stops at the next boundary.
+ * RunOptions (from a rerun) can bypass the cache and override country / add molecules.
+ * A replay (options.replayOf) answers every LLM call from the replayed job's recording.
+ * The analysis cache is persisted and data-aware (see services/cacheService).
  */
-export async function runMasterAgent(queryText: string, jobId: string): Promise<void> {
+export async function runMasterAgent(
+  queryText: string,
+  jobId: string,
+  options: RunOptions = {},
+  providedPlan?: ExecutionPlan
+): Promise<void> {
   try {
-    // Update job status to running
-    await jobService.updateJob(jobId, { status: 'running' });
-
+    // Job is already marked 'running' by the queue when it is claimed
     await jobService.appendTraceEvent(jobId, {
       agent: 'MasterAgent',
       status: 'running',
@@ -37,225 +47,159 @@ export async function runMasterAgent(queryText: string, jobId: string): Promise<
       detail: 'Starting decision-driven analysis pipeline',
     });
 
-    // Check cache first
-    const cacheKey = cacheService.createKey(queryText);
-    const cachedResult = cacheService.get(cacheKey);
-
-    if (cachedResult) {
+    if (options.replayOf) {
       await jobService.appendTraceEvent(jobId, {
-        agent: 'Cache',
-        status: 'completed',
+        agent: 'MasterAgent',
+        status: 'running',
         timestamp: new Date().toISOString(),
-        detail: 'Cache hit - returning cached result',
+        detail: `Replay of job ${options.replayOf} - LLM calls are answered from its recorded responses`,
       });
+    }
 
-      await jobService.updateJob(jobId, {
-        status: 'completed',
-        resultId: cachedResult.reportId,
-        cacheKey,
-      });
+    await throwIfCancelled(jobId, 'query parsing');
+
+    // ============================================
+    // STEP 1: Parse Query with AI (unless a structured plan was submitted)
+    // A resumed job reuses its stored plan so later stages stay consistent
+    // ============================================
+    const storedPlan = await jobService.getStageOutput(jobId, 'plan');
+    let plan: ExecutionPlan;
 
+    if (storedPlan) {
+      plan = JSON.parse(storedPlan.output);
       await jobService.appendTraceEvent(jobId, {
         agent: 'MasterAgent',
-        status: 'completed',
+        status: 'running',
         timestamp: new Date().toISOString(),
-        detail: 'Analysis complete (from cache)',
+        detail: `Resuming with stored plan: ${describePlan(plan)}`,
       });
-
-      return;
+    } else {
+      const planStartedAt = new Date();
+      let planOrigin: PlanOrigin | undefined;
+      if (providedPlan) {
+        plan = await applyProvidedPlan(providedPlan, jobId, options);
+      } else {
+        ({ plan, planOrigin } = await parseExecutionPlan(queryText, jobId, options));
+      }
+      await jobService.saveStageOutput(jobId, 'plan', plan, planStartedAt);
+      await jobService.updateJob(jobId, { plan, planSource: providedPlan ? 'request' : 'query', planOrigin });
     }
 
-    await jobService.appendTraceEvent(jobId, {
-      agent: 'Cache',
-      status: 'completed',
-      timestamp: new Date().toISOString(),
-      detail: 'Cache miss - running full analysis',
-    });
-
     // ============================================
-    // STEP 1: Parse Query with AI
+    // STEPS 2-5: Run the stage graph
+    // scope → (fto | clinical | market) → decision → report,
+    // limited to the stages the plan asks for.
+    // The cache is checked once scope is known (key = plan + filters + molecules)
     // ============================================
-    await jobService.appendTraceEvent(jobId, {
-      agent: 'MasterAgent',
-      status: 'running',
-      timestamp: new Date().toISOString(),
-      detail: 'Parsing query with AI',
-    });
-
-    const planPrompt = `You are a pharmaceutical BD query parser. Parse this query and extract structured parameters.
+    const ctx: PipelineContext = {
+      jobId,
+      queryText,
+      plan,
+      options,
+      stagesRun: [],
+      skippedStages: [],
+      resumedStages: [],
+      failedStages: [],
+    };
 
-Query: "${queryText}"
+    let cacheKey: string | undefined;
+    let cacheKeyInput: CacheKeyInput | undefined;
+    let fingerprints: DataFingerprints | undefined;
+    let cachedReportId: string | undefined;
 
-Extract and return a JSON object with:
-- condition: disease/indication (e.g., "COPD", "Type 2 Diabetes", "NSCLC", "respiratory", "diabetes", "cancer")
-- country: target market (e.g., "India", "USA", "IN", "US")
-- molecule: specific molecule if mentioned (e.g., "Semaglutide", "Tiotropium")
-- objectives: business goals (e.g., ["generic opportunity", "licensing deal", "patent expiry"])
-- agentsToRun: always ["scope", "fto", "clinical", "market", "decision"]
+    await executePipeline(ctx, {
+      beforeWave: async wave => {
+        await throwIfCancelled(jobId, wave.join(' + '));
+      },
+      afterWave: async wave => {
+        if (!wave.includes('scope')) return false;
 
-Return only valid JSON. Example:
-{
-  "condition": "COPD",
-  "country": "India",
-  "objectives": ["generic opportunity", "low competition"],
-  "agentsToRun": ["scope", "fto", "clinical", "market", "decision"]
-}`;
+        cacheKeyInput = {
+          plan,
+          stages: [...resolveStages(plan.agentsToRun, plan.filters)],
+          filterCriteria: ctx.scope!.filterCriteria,
+          molecules: ctx.scope!.selectedMolecules,
+        };
+        cacheKey = await cacheService.createKey(cacheKeyInput);
 
-    let plan: ExecutionPlan = {
-      agentsToRun: ['scope', 'fto', 'clinical', 'market', 'decision'],
-    };
+        if (options.bypassCache) {
+          fingerprints = await cacheService.getFingerprints();
+          await appendCacheEvent(jobId, 'Cache bypassed - running full analysis');
+          return false;
+        }
 
-    try {
-      const planResponse = await callGemini(planPrompt);
-      const jsonStr = extractJson(planResponse);
-      const parsed = JSON.parse(jsonStr);
-      
-      const validated = ExecutionPlanSchema.safeParse(parsed);
-      if (validated.success) {
-        plan = validated.data;
-      }
-    } catch (parseError) {
-      console.error('Failed to parse execution plan, using manual extraction');
-    }
+        const lookup = await cacheService.lookup(cacheKey);
+        fingerprints = lookup.fingerprints;
 
-    // ALWAYS run manual extraction to verify/supplement AI parsing
-    // This ensures we catch conditions even if AI returns slightly different wording
-    const lowerQuery = queryText.toLowerCase();
-    
-    // Country detection
-    if (!plan.country) {
-      if (lowerQuery.includes('india') || lowerQuery.match(/\bin\b/)) plan.country = 'India';
-      if (lowerQuery.includes('usa') || lowerQuery.includes('united states') || lowerQuery.match(/\bus\b/)) plan.country = 'USA';
-    }
-    
-    // Condition detection - ALWAYS check and override if we find a clear match
-    // NSCLC / Oncology - check FIRST since it's commonly misspelled
-    if (lowerQuery.includes('nsclc') || lowerQuery.includes('nslc') || 
-        lowerQuery.includes('lung cancer') || lowerQuery.includes('non-small cell') ||
-        (lowerQuery.includes('oncology') && !lowerQuery.includes('immuno'))) {
-      plan.condition = 'NSCLC';
-      console.log('🎯 Detected NSCLC condition from query');
-    }
-    // COPD / Respiratory
-    else if (lowerQuery.includes('respiratory') || lowerQuery.includes('copd') || 
-        lowerQuery.includes('lung disease') || lowerQuery.includes('pulmonary') ||
-        lowerQuery.includes('chronic obstructive')) {
-      plan.condition = 'COPD';
-    }
-    // Type 2 Diabetes
-    else if (lowerQuery.includes('diabetes') || lowerQuery.includes('t2d') ||
-             lowerQuery.includes('diabetic') || lowerQuery.includes('type 2')) {
-      plan.condition = 'Type 2 Diabetes';
-    }
-    // Rheumatoid Arthritis
-    else if (lowerQuery.includes('arthritis') || lowerQuery.includes('rheumatoid') ||
-             lowerQuery.includes('autoimmune') || lowerQuery.match(/\bra\b/)) {
-      plan.condition = 'Rheumatoid Arthritis';
-    }
-    // Cardiovascular
-    else if (lowerQuery.includes('cardiovascular') || lowerQuery.includes('heart') ||
-             lowerQuery.includes('cholesterol') || lowerQuery.includes('statin') ||
-             lowerQuery.includes('lipid') || lowerQuery.match(/\bcv\b/)) {
-      plan.condition = 'Cardiovascular';
-    }
-    // Hypertension
-    else if (lowerQuery.includes('hypertension') || lowerQuery.includes('blood pressure') ||
-             lowerQuery.includes('high bp') || lowerQuery.match(/\bhtn\b/)) {
-      plan.condition = 'Hypertension';
-    }
-    // Generic cancer/tumor queries -> NSCLC
-    else if (lowerQuery.includes('cancer') || lowerQuery.includes('tumor')) {
-      plan.condition = 'NSCLC';
-    }
-    
-    // Check for specific molecules
-    if (!plan.molecule) {
-      const molecules = ['semaglutide', 'sitagliptin', 'empagliflozin', 'tiotropium', 
-                        'roflumilast', 'osimertinib', 'pembrolizumab', 'umeclidinium',
-                        'indacaterol', 'metformin', 'erlotinib', 'gefitinib',
-                        'adalimumab', 'etanercept', 'tofacitinib', 'baricitinib',
-                        'atorvastatin', 'rosuvastatin', 'ezetimibe', 'clopidogrel',
-                        'lisinopril', 'amlodipine', 'losartan', 'valsartan'];
-      for (const mol of molecules) {
-        if (lowerQuery.includes(mol)) {
-          plan.molecule = mol.charAt(0).toUpperCase() + mol.slice(1);
-          break;
+        if (lookup.entry) {
+          cachedReportId = lookup.entry.reportId;
+          await appendCacheEvent(jobId, `Cache hit - reusing report from job ${lookup.entry.jobId}`);
+          return true;
         }
-      }
-    }
-    
-    // Log what was detected for debugging
-    console.log(`📋 Query parsed: condition=${plan.condition || 'ALL'}, country=${plan.country || 'IN+US'}, molecule=${plan.molecule || 'all'}`);
 
-    await jobService.appendTraceEvent(jobId, {
-      agent: 'MasterAgent',
-      status: 'running',
-      timestamp: new Date().toISOString(),
-      detail: `Plan: ${plan.condition || 'all indications'}, ${plan.country || 'IN+US'}, molecule=${plan.molecule || 'all'}`,
+        await appendCacheEvent(jobId, lookup.staleTables.length > 0
+          ? `Cache entry invalidated (${lookup.staleTables.join(', ')} data changed) - running full analysis`
+          : 'Cache miss - running full analysis');
+        return false;
+      },
     });
 
-    // ============================================
-    // STEP 2: Select Molecules
-    // ============================================
-    const scopeResult = await runMoleculeScopeAgent(plan, jobId);
+    if (cachedReportId) {
+      await jobService.appendTraceEvent(jobId, {
+        agent: 'MasterAgent',
+        status: 'completed',
+        timestamp: new Date().toISOString(),
+        detail: 'Analysis complete (from cache)',
+      });
 
-    if (scopeResult.selectedMolecules.length === 0) {
-      throw new Error('No molecules found matching query criteria');
+      await jobService.updateJob(jobId, {
+        status: 'completed',
+        resultId: cachedReportId,
+        cacheKey,
+      });
+      return;
     }
 
-    // ============================================
-    // STEP 3: Run Analysis Agents in Parallel
-    // ============================================
-    const [ftoResult, clinicalResult, marketResult] = await Promise.all([
-      runPatentFTOAgent(scopeResult.selectedMolecules, jobId),
-      runClinicalMaturityAgent(scopeResult.selectedMolecules, jobId),
-      runEpidemiologyMarketAgent(scopeResult.selectedMolecules, jobId),
-    ]);
-
-    // ============================================
-    // STEP 4: Commercial Decision Making
-    // ============================================
-    const decisionResult = await runCommercialDecisionAgent(
-      ftoResult.molecules,
-      clinicalResult.molecules,
-      marketResult.molecules,
-      jobId
-    );
+    // Cache the result (degraded runs are not cached so the next request retries the failed stages,
+    // and replays are not cached since their LLM output belongs to an earlier run)
+    if (cacheKey && cacheKeyInput && fingerprints && ctx.reportId && ctx.failedStages.length === 0 && !options.replayOf) {
+      await cacheService.store(cacheKey, cacheKeyInput, { reportId: ctx.reportId, jobId }, fingerprints);
+    }
 
-    // ============================================
-    // STEP 5: Generate Board-Ready Report
-    // ============================================
-    const reportId = await generateReport({
-      jobId,
-      queryText,
-      decisions: decisionResult.decisions,
-      decisionSummary: decisionResult.summary,
-      ftoResult,
-      clinicalResult,
-      marketResult,
-      filterCriteria: scopeResult.filterCriteria,
+    const summary = ctx.decision?.summary;
+    await jobService.appendTraceEvent(jobId, {
+      agent: 'MasterAgent',
+      status: 'completed',
+      timestamp: new Date().toISOString(),
+      detail: (summary
+        ? `Analysis complete: ${summary.genericOpportunities} GENERIC, ` +
+          `${summary.licenseOpportunities} LICENSE, ` +
+          `${summary.waitOpportunities} WAIT, ` +
+          `${summary.dropRecommendations} DROP`
+        : `Analysis complete (stages: ${ctx.stagesRun.join(', ')}; skipped: ${ctx.skippedStages.join(', ') || 'none'})`) +
+        (ctx.failedStages.length > 0
+          ? ` - degraded, failed stages: ${ctx.failedStages.map(f => f.stage).join(', ')}`
+          : ''),
     });
 
-    // Cache the result
-    cacheService.set(cacheKey, { reportId });
-
-    // Update job as completed
+    // Update job as completed (last, so live subscribers see the final trace event first)
     await jobService.updateJob(jobId, {
       status: 'completed',
       cacheKey,
     });
 
-    await jobService.appendTraceEvent(jobId, {
-      agent: 'MasterAgent',
-      status: 'completed',
-      timestamp: new Date().toISOString(),
-      detail: `Analysis complete: ${decisionResult.summary.genericOpportunities} GENERIC, ` +
-        `${decisionResult.summary.licenseOpportunities} LICENSE, ` +
-        `${decisionResult.summary.waitOpportunities} WAIT, ` +
-        `${decisionResult.summary.dropRecommendations} DROP`,
-    });
-
   } catch (error) {
+    if (error instanceof JobCancelledError) {
+      await jobService.appendTraceEvent(jobId, {
+        agent: 'MasterAgent',
+        status: 'cancelled',
+        timestamp: new Date().toISOString(),
+        detail: `Cancelled by user before ${error.stage}`,
+      });
+      await jobService.updateJob(jobId, { status: 'cancelled' });
+      return;
+    }
+
     console.error('Master agent error:', error);
     
     await jobService.appendTraceEvent(jobId, {
@@ -263,8 +207,82 @@ Return only valid JSON. Example:
       status: 'error',
       timestamp: new Date().toISOString(),
       detail: error instanceof Error ? error.message : 'Unknown error',
+      errorStack: error instanceof Error ? error.stack : undefined,
     });
 
-    await jobService.updateJob(jobId, { status: 'error' });
+    await jobService.updateJob(jobId, {
+      status: 'error',
+      failureReason: error instanceof Error ? error.message : 'Unknown error',
+    });
   }
 }
+
+async function appendCacheEvent(jobId: string, detail: string): Promise<void> {
+  await jobService.appendTraceEvent(jobId, {
+    agent: 'Cache',
+    status: 'completed',
+    timestamp: new Date().toISOString(),
+    detail,
+  });
+}
+
+async function throwIfCancelled(jobId: string, nextStage: string): Promise<void> {
+  if (await jobService.isCancelRequested(jobId)) {
+    throw new JobCancelledError(nextStage);
+  }
+}
+
+/**
+ * Use a submitted (already resolved) plan as-is, apart from rerun overrides
+ */
+async function applyProvidedPlan(
+  providedPlan: ExecutionPlan,
+  jobId: string,
+  options: RunOptions
+): Promise<ExecutionPlan> {
+  const plan: ExecutionPlan = { ...providedPlan };
+
+  // Rerun override takes precedence over the submitted countries
+  if (options.country) {
+    plan.countries = [options.country];
+    delete plan.country;
+  }
+
+  await jobService.appendTraceEvent(jobId, {
+    agent: 'MasterAgent',
+    status: 'running',
+    timestamp: new Date().toISOString(),
+    detail: `Using submitted plan (no query parsing): ${describePlan(plan)}`,
+  });
+
+  return plan;
+}
+
+/**
+ * Parse the query into an ExecutionPlan (see planService.parseQuery), tracing
+ * the resulting plan, whether the LLM produced it, and anything the parser had to guess.
+ */
+async function parseExecutionPlan(
+  queryText: string,
+  jobId: string,
+  options: RunOptions
+): Promise<{ plan: ExecutionPlan; planOrigin: PlanOrigin }> {
+  await jobService.appendTraceEvent(jobId, {
+    agent: 'MasterAgent',
+    status: 'running',
+    timestamp: new Date().toISOString(),
+    detail: 'Parsing query with AI',
+  });
+
+  const { plan, planOrigin, ambiguities } = await planService.parseQuery(queryText, options, jobId);
+
+  await jobService.appendTraceEvent(jobId, {
+    agent: 'MasterAgent',
+    status: 'running',
+    timestamp: new Date().toISOString(),
+    detail: `Plan${planOrigin === 'fallback' ? ' (keyword fallback)' : ''}: ${describePlan(plan)}` +
+      (ambiguities.length > 0 ? ` (assumed: ${ambiguities.map(a => a.message).join('; ')})` : ''),
+  });
+
+  return { plan, planOrigin };
+}
@@ -1,7 +1,15 @@
 import { PrismaClient } from '@prisma/client';
 import { jobService } from '../services/jobService';
-import { callGemini, extractJson } from '../services/geminiClient';
+import {
+  planConditions,
+  planCountries,
+  planMolecules,
+} from '../services/planService';
+import { indicationService } from '../services/indicationService';
+import { moleculeService } from '../services/moleculeService';
+import { countryService } from '../services/countryService';
 import { ExecutionPlan } from '../types/query';
+import { FilteredMolecule } from '../types/agent';
 
 const prisma = new PrismaClient();
 
@@ -13,6 +21,14 @@ export interface MoleculeScopeResult {
     modality?: string;
   };
   totalAvailable: number;
+  // Molecules matching the condition but excluded by the plan's modality
+  excluded?: FilteredMolecule[];
+}
+
+interface ScopeSelection {
+  scope: MoleculeScopeResult;
+  // Trace detail describing how the molecules were chosen
+  detail: string;
 }
 
 /**
@@ -33,151 +49,147 @@ export async function runMoleculeScopeAgent(
   });
 
   try {
-    // Get all available molecules
-    const allMolecules = await prisma.molecule.findMany();
-    const totalAvailable = allMolecules.length;
-
-    // Build filter criteria from execution plan
-    const filterCriteria: {
-      indication?: string;
-      country?: string;
-      modality?: string;
-    } = {};
-
-    let selectedMolecules: string[] = [];
-
-    // If specific molecule requested, return just that
-    if (plan.molecule) {
-      const exactMatch = allMolecules.find(
-        m => m.name.toLowerCase() === plan.molecule!.toLowerCase() ||
-             m.brandName?.toLowerCase().includes(plan.molecule!.toLowerCase()) ||
-             m.genericName?.toLowerCase() === plan.molecule!.toLowerCase()
-      );
-      if (exactMatch) {
-        selectedMolecules = [exactMatch.name];
-        await jobService.appendTraceEvent(jobId, {
-          agent: 'MoleculeScopeAgent',
-          status: 'completed',
-          timestamp: new Date().toISOString(),
-          detail: `Found specific molecule: ${exactMatch.name}`,
-        });
-        return { selectedMolecules, filterCriteria, totalAvailable };
-      }
-    }
+    const { scope, detail } = await selectScope(plan);
+
+    await jobService.appendTraceEvent(jobId, {
+      agent: 'MoleculeScopeAgent',
+      status: 'completed',
+      timestamp: new Date().toISOString(),
+      detail,
+      inputCount: scope.totalAvailable,
+      outputCount: scope.selectedMolecules.length,
+    });
+
+    return scope;
+  } catch (error) {
+    await jobService.appendTraceEvent(jobId, {
+      agent: 'MoleculeScopeAgent',
+      status: 'error',
+      timestamp: new Date().toISOString(),
+      detail: error instanceof Error ? error.message : 'Unknown error',
+      errorStack: error instanceof Error ? error.stack : undefined,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Molecules a plan would select, without a job or trace events (query preview)
+ */
+export async function previewMoleculeScope(plan: ExecutionPlan): Promise<MoleculeScopeResult> {
+  const { scope } = await selectScope(plan);
+  return scope;
+}
+
+async function selectScope(plan: ExecutionPlan): Promise<ScopeSelection> {
+  // Get all available molecules
+  const allMolecules = await prisma.molecule.findMany();
+  const totalAvailable = allMolecules.length;
+
+  // Build filter criteria from execution plan
+  const filterCriteria: {
+    indication?: string;
+    country?: string;
+    modality?: string;
+  } = {};
+
+  let selectedMolecules: string[] = [];
+
+  // Country preference is stored in filter criteria (used by other agents).
+  // A list covering several markets means no single-country filter.
+  const { codes: countryCodes } = await countryService.resolveCodes(planCountries(plan));
+  if (countryCodes.length === 1) {
+    filterCriteria.country = countryCodes[0];
+  }
 
-    // Filter by indication/condition
-    if (plan.condition) {
-      // Map common condition names to our indication values (comprehensive mapping)
-      const conditionMap: Record<string, string[]> = {
-        // COPD / Respiratory
-        'respiratory': ['COPD'],
-        'copd': ['COPD'],
-        'lung disease': ['COPD'],
-        'chronic obstructive pulmonary disease': ['COPD'],
-        'pulmonary': ['COPD'],
-        
-        // Diabetes
-        'diabetes': ['Type 2 Diabetes'],
-        'type 2 diabetes': ['Type 2 Diabetes'],
-        't2d': ['Type 2 Diabetes'],
-        'type 2': ['Type 2 Diabetes'],
-        'type2': ['Type 2 Diabetes'],
-        'diabetic': ['Type 2 Diabetes'],
-        
-        // Oncology / Cancer
-        'cancer': ['NSCLC'],
-        'oncology': ['NSCLC'],
-        'nsclc': ['NSCLC'],
-        'nslc': ['NSCLC'],  // Common typo
-        'lung cancer': ['NSCLC'],
-        'non-small cell lung cancer': ['NSCLC'],
-        
-        // Rheumatoid Arthritis
-        'arthritis': ['Rheumatoid Arthritis'],
-        'rheumatoid arthritis': ['Rheumatoid Arthritis'],
-        'ra': ['Rheumatoid Arthritis'],
-        'rheumatoid': ['Rheumatoid Arthritis'],
-        'autoimmune': ['Rheumatoid Arthritis'],
-        
-        // Cardiovascular
-        'cardiovascular': ['Cardiovascular'],
-        'heart': ['Cardiovascular'],
-        'cholesterol': ['Cardiovascular'],
-        'lipid': ['Cardiovascular'],
-        'statin': ['Cardiovascular'],
-        'cv': ['Cardiovascular'],
-        
-        // Hypertension
-        'hypertension': ['Hypertension'],
-        'blood pressure': ['Hypertension'],
-        'high blood pressure': ['Hypertension'],
-        'htn': ['Hypertension'],
-        'bp': ['Hypertension'],
+  // If specific molecules requested, return just those
+  const requested = planMolecules(plan);
+  if (requested.length > 0) {
+    const resolved = await Promise.all(requested.map(name => moleculeService.resolveMolecule(name)));
+    const matches = [...new Set(
+      resolved
+        .map(match => match?.molecule)
+        .filter((name): name is string => !!name)
+    )];
+    if (matches.length > 0) {
+      selectedMolecules = matches;
+      const unmatched = requested.length - matches.length;
+      return {
+        scope: { selectedMolecules, filterCriteria, totalAvailable },
+        detail: `Found specific molecule${matches.length > 1 ? 's' : ''}: ${matches.join(', ')}` +
+          (unmatched > 0 ? ` (${unmatched} requested name(s) not in the curated list)` : ''),
       };
+    }
+  }
+
+  // Filter by indication/condition - several conditions select the union of their molecules
+  const conditions = planConditions(plan);
+  const unmatchedConditions: string[] = [];
+  if (conditions.length > 0) {
+    const matchingIndications: string[] = [];
 
-      const normalizedCondition = plan.condition.toLowerCase().trim();
-      const matchingIndications = conditionMap[normalizedCondition] || [plan.condition];
-      
-      // Store the matched indication for filtering in other agents
-      filterCriteria.indication = matchingIndications[0];
+    for (const condition of conditions) {
+      // Resolve the condition through the indication ontology (synonyms, abbreviations, areas);
+      // unknown terms are matched as-is
+      const resolved = await indicationService.resolveCondition(condition);
+      const indications = resolved?.indications || [condition];
 
       const filteredByCondition = allMolecules.filter(m =>
-        matchingIndications.some(ind => 
+        indications.some(ind => 
           m.indication.toLowerCase() === ind.toLowerCase() ||
           m.indication.toLowerCase().includes(ind.toLowerCase())
         )
       );
 
       if (filteredByCondition.length > 0) {
-        selectedMolecules = filteredByCondition.map(m => m.name);
+        matchingIndications.push(...indications.filter(ind => !matchingIndications.includes(ind)));
+        for (const m of filteredByCondition) {
+          if (!selectedMolecules.includes(m.name)) selectedMolecules.push(m.name);
+        }
       } else {
         // No matches found for the specific condition - log warning but keep empty
         // This ensures we don't return unrelated data when condition doesn't match
-        console.warn(`No molecules found for condition: ${plan.condition}`);
-        selectedMolecules = [];
+        console.warn(`No molecules found for condition: ${condition}`);
+        unmatchedConditions.push(condition);
       }
     }
 
-    // Only return all molecules if NO condition was specified in the query
-    // If a condition was specified but no matches found, we should return empty
-    // to avoid showing irrelevant data
-    if (selectedMolecules.length === 0 && !plan.condition) {
-      selectedMolecules = allMolecules.map(m => m.name);
-    }
+    // Store the matched indication(s) for filtering and reporting in other agents
+    filterCriteria.indication = matchingIndications.length > 0
+      ? matchingIndications.join(', ')
+      : conditions.join(', ');
+  }
 
-    // Store country preference in filter criteria (used by other agents)
-    if (plan.country) {
-      // Normalize country names
-      const countryMap: Record<string, string> = {
-        'india': 'IN',
-        'in': 'IN',
-        'usa': 'US',
-        'us': 'US',
-        'united states': 'US',
-        'america': 'US',
-      };
-      filterCriteria.country = countryMap[plan.country.toLowerCase()] || plan.country;
-    }
+  // Only return all molecules if NO condition was specified in the query
+  // If a condition was specified but no matches found, we should return empty
+  // to avoid showing irrelevant data
+  if (selectedMolecules.length === 0 && conditions.length === 0) {
+    selectedMolecules = allMolecules.map(m => m.name);
+  }
 
-    await jobService.appendTraceEvent(jobId, {
-      agent: 'MoleculeScopeAgent',
-      status: 'completed',
-      timestamp: new Date().toISOString(),
-      detail: `Selected ${selectedMolecules.length}/${totalAvailable} molecules: ${selectedMolecules.join(', ')}`,
+  // Narrow by modality (e.g. "small-molecule", "mAb") when the plan asks for one
+  const excluded: FilteredMolecule[] = [];
+  if (plan.modality) {
+    const modality = plan.modality.toLowerCase().trim();
+    filterCriteria.modality = plan.modality;
+    selectedMolecules = selectedMolecules.filter(name => {
+      const molecule = allMolecules.find(m => m.name === name);
+      const matches = !!molecule && molecule.modality.toLowerCase().includes(modality);
+      if (molecule && !matches) {
+        excluded.push({ molecule: name, reasons: [`modality ${molecule.modality} (required ${plan.modality})`] });
+      }
+      return matches;
     });
+  }
 
-    return {
+  return {
+    scope: {
       selectedMolecules,
       filterCriteria,
       totalAvailable,
-    };
-  } catch (error) {
-    await jobService.appendTraceEvent(jobId, {
-      agent: 'MoleculeScopeAgent',
-      status: 'error',
-      timestamp: new Date().toISOString(),
-      detail: error instanceof Error ? error.message : 'Unknown error',
-    });
-    throw error;
-  }
+      excluded: excluded.length > 0 ? excluded : undefined,
+    },
+    detail: `Selected ${selectedMolecules.length}/${totalAvailable} molecules: ${selectedMolecules.join(', ')}` +
+      (unmatchedConditions.length > 0 ? ` (no molecules for: ${unmatchedConditions.join(', ')})` : ''),
+  };
 }
@@ -1,162 +1,348 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Exclusivity } from '@prisma/client';
 import { jobService } from '../services/jobService';
+import { exclusivityService } from '../services/exclusivityService';
+import { patentListingService, PatentListing, normalizePatentNumber } from '../services/patentListingService';
+import { litigationService, toLitigationCaseInfo } from '../services/litigationService';
 import {
   PatentFTOAgentResult,
   MoleculeFTOResult,
   CountryFTOAnalysis,
   PatentInfo,
+  PatentChallengeability,
+  ExclusivityInfo,
+  LitigationCaseInfo,
   FTOStatus,
+  MoleculeFailure,
 } from '../types/agent';
+import { CountryCode } from '../types/country';
+import { BLOCKING_EXCLUSIVITY_TYPES, ExclusivityType } from '../types/exclusivity';
 
 const prisma = new PrismaClient();
 
+const EXCLUSIVITY_LABELS: Record<ExclusivityType, string> = {
+  NCE: 'new chemical entity',
+  ODE: 'orphan drug',
+  NCI: 'new clinical investigation',
+  PED: 'pediatric',
+  GAIN: 'GAIN',
+  GENERIC_180: '180-day generic',
+  OTHER: 'other',
+};
+
+// Markets where blocking patents are classified and an at-risk entry date is given:
+// section viii carve-outs and Paragraph IV challenges are US (Hatch-Waxman) routes
+const AT_RISK_COUNTRIES: CountryCode[] = ['US'];
+
+// Higher is worse - overallFTO is the worst country
+const FTO_SEVERITY: Record<FTOStatus, number> = {
+  BLOCKED: 3,
+  DEVICE_BLOCKED: 2,
+  EXPIRING_SOON: 1,
+  CLEAR: 0,
+};
+
+const CHALLENGE_LABELS: Record<Exclude<PatentChallengeability, 'HARD_BLOCKING'>, string> = {
+  DESIGN_AROUND: 'design-around',
+  CARVE_OUT: 'section viii carve-out',
+  PIV_CHALLENGE: 'Paragraph IV challenge',
+};
+
 /**
  * Patent FTO Agent - Country-Specific Freedom to Operate Analysis
  * 
  * Key Business Logic:
- * - FTO is calculated PER COUNTRY (IN vs US have different patent landscapes)
+ * - FTO is calculated PER COUNTRY (each requested market has its own patent landscape)
  * - Primary patents (compound/NCE) are the main barrier
  * - Secondary patents (formulation/process) can extend exclusivity
- * - Generic entry = expiry of LATEST blocking patent in that country
+ * - Regulatory exclusivities (NCE, orphan, 3-year, pediatric, GAIN) block generic
+ *   approval independently of patents (US: FDA Orange Book)
+ * - Generic entry = the later of the LATEST blocking patent and the LATEST blocking
+ *   exclusivity in that country; entryBlockedBy says which one it was
+ * - A market with no patent data at all gets no FTO entry (reported as uncovered),
+ *   rather than a CLEAR that only reflects missing data
+ * - US blocking patents are classified (patentType, isPrimary, Orange Book flags and
+ *   Patent_Use_Code): only hard-blocking ones and exclusivities count towards the
+ *   at-risk entry date; earliestGenericEntry stays the conservative date
+ * - Device patents (inhalers, pens, autoinjectors) are tracked apart from molecule barriers:
+ *   when only they remain, the country is DEVICE_BLOCKED - molecule free, with its own
+ *   device expiry date and whether another device could design around them
+ * - Patent litigation (PatentLitigation): a patent whose latest ruling held it invalid
+ *   stops blocking; a pending challenge against a blocking patent raises litigationRisk
  */
 export async function runPatentFTOAgent(
   moleculeNames: string[],
+  requestedCountries: CountryCode[],
   jobId: string
 ): Promise<PatentFTOAgentResult> {
   await jobService.appendTraceEvent(jobId, {
     agent: 'PatentFTOAgent',
     status: 'running',
     timestamp: new Date().toISOString(),
-    detail: `Analyzing FTO for ${moleculeNames.length} molecules across IN/US`,
+    detail: `Analyzing FTO for ${moleculeNames.length} molecules across ${requestedCountries.join('/')}`,
+    inputCount: moleculeNames.length,
   });
 
   try {
     const molecules: MoleculeFTOResult[] = [];
+    const failedMolecules: MoleculeFailure[] = [];
     const now = new Date();
-    const countries: Array<'IN' | 'US'> = ['IN', 'US'];
 
-    for (const moleculeName of moleculeNames) {
-      // Fetch all patents for this molecule
-      const patents = await prisma.patent.findMany({
-        where: { molecule: moleculeName },
-        orderBy: { expiryDate: 'asc' },
-      });
+    const countries: CountryCode[] = [];
+    const uncoveredCountries: CountryCode[] = [];
+    for (const country of requestedCountries) {
+      const patentCount = await prisma.patent.count({ where: { country } });
+      (patentCount > 0 ? countries : uncoveredCountries).push(country);
+    }
+
+    // Without patent data in any requested market there is no position to report
+    const analyzable = countries.length > 0 ? moleculeNames : [];
+
+    for (const moleculeName of analyzable) {
+      try {
+        // Fetch all patents for this molecule
+        const patents = await prisma.patent.findMany({
+          where: { molecule: moleculeName },
+          orderBy: { expiryDate: 'asc' },
+        });
+
+        const exclusivities = await exclusivityService.forMolecule(moleculeName);
+        const litigation = (await litigationService.forMolecule(moleculeName))
+          .map(toLitigationCaseInfo)
+          .filter(c => countries.includes(c.country));
 
-      const byCountry: CountryFTOAnalysis[] = [];
-      let overallFTO: FTOStatus = 'CLEAR';
-      let primaryPatentExpired = true;
-      let hasSecondaryBlocking = false;
+        const byCountry: CountryFTOAnalysis[] = [];
+        let overallFTO: FTOStatus = 'CLEAR';
+        let primaryPatentExpired = true;
+        let hasSecondaryBlocking = false;
 
-      for (const country of countries) {
-        const countryPatents = patents.filter(p => p.country === country);
+        for (const country of countries) {
+          const countryPatents = patents.filter(p => p.country === country);
+          const assessAtRisk = AT_RISK_COUNTRIES.includes(country);
+          const blockingExclusivities = groupExclusivities(exclusivities.filter(e =>
+            e.country === country &&
+            e.expiryDate > now &&
+            BLOCKING_EXCLUSIVITY_TYPES.includes(e.type as ExclusivityType)
+          ));
         
-        if (countryPatents.length === 0) {
-          // No patents in this country = CLEAR
-          byCountry.push({
-            country,
-            ftoStatus: 'CLEAR',
-            earliestGenericEntry: now.toISOString().split('T')[0],
-            yearsToGenericEntry: 0,
-            blockingPatents: [],
-            expiredPatents: [],
-            riskExplanation: `No patents found in ${country}. Generic entry possible immediately.`,
-          });
-          continue;
-        }
+          if (countryPatents.length === 0 && blockingExclusivities.length === 0) {
+            // No patents in this country = CLEAR
+            byCountry.push({
+              country,
+              ftoStatus: 'CLEAR',
+              earliestGenericEntry: now.toISOString().split('T')[0],
+              yearsToGenericEntry: 0,
+              blockingPatents: [],
+              expiredPatents: [],
+              blockingExclusivities: [],
+              ...(assessAtRisk ? { atRiskEarliestEntry: now.toISOString().split('T')[0], yearsToAtRiskEntry: 0 } : {}),
+              riskExplanation: `No patents found in ${country}. Generic entry possible immediately.`,
+            });
+            continue;
+          }
 
-        const blockingPatents: PatentInfo[] = [];
-        const expiredPatents: PatentInfo[] = [];
-        let latestBlockingExpiry: Date | null = null;
-        let hasPrimaryExpired = false;
-        let hasPrimaryActive = false;
-
-        for (const patent of countryPatents) {
-          const expiryDate = new Date(patent.expiryDate);
-          const isExpired = expiryDate <= now;
-
-          const patentInfo: PatentInfo = {
-            patentNumber: patent.patentNumber,
-            patentType: patent.patentType as 'COMPOUND' | 'FORMULATION' | 'PROCESS' | 'SECONDARY',
-            isPrimary: patent.isPrimary,
-            expiryDate: expiryDate.toISOString().split('T')[0],
-            status: isExpired ? 'Expired' : 'Active',
-            title: patent.title || undefined,
-          };
-
-          if (isExpired) {
-            expiredPatents.push(patentInfo);
-            if (patent.isPrimary) hasPrimaryExpired = true;
-          } else {
-            blockingPatents.push(patentInfo);
-            if (patent.isPrimary) hasPrimaryActive = true;
+          const countryCases = litigation.filter(c => c.country === country);
+          const blockingPatents: PatentInfo[] = [];
+          const expiredPatents: PatentInfo[] = [];
+          const invalidatedPatents: PatentInfo[] = [];
+          let latestBlockingExpiry: Date | null = null;
+          let latestHardBlockingExpiry: Date | null = null;
+          let latestMoleculeExpiry: Date | null = null;
+          let latestDeviceExpiry: Date | null = null;
+          let hasPrimaryActive = false;
+
+          for (const patent of countryPatents) {
+            const expiryDate = new Date(patent.expiryDate);
+            const isExpired = expiryDate <= now;
+            const listing = assessAtRisk ? patentListingService.listingFor(patent.patentNumber) : null;
+            const useCodes = listing?.useCodes ?? (assessAtRisk && patent.notes && /^U-\d+$/.test(patent.notes) ? [patent.notes] : []);
+            const isDevice = patent.devicePatent || patent.patentType === 'DEVICE';
+
+            const patentInfo: PatentInfo = {
+              patentNumber: patent.patentNumber,
+              patentType: patent.patentType as PatentInfo['patentType'],
+              isPrimary: patent.isPrimary,
+              devicePatent: isDevice || undefined,
+              expiryDate: expiryDate.toISOString().split('T')[0],
+              status: isExpired ? 'Expired' : 'Active',
+              title: patent.title || undefined,
+              useCodes: useCodes.length > 0 ? useCodes : undefined,
+              litigationStatus: litigationStatusOf(patent.patentNumber, countryCases),
+            };
+
+            if (!isExpired && patentInfo.litigationStatus === 'INVALIDATED') {
+              // Held invalid - no longer a barrier, whatever its nominal expiry
+              invalidatedPatents.push({ ...patentInfo, status: 'Invalidated' });
+            } else if (isExpired) {
+              expiredPatents.push(patentInfo);
+            } else {
+              blockingPatents.push(patentInfo);
+              if (patent.isPrimary) hasPrimaryActive = true;
             
-            // Track latest blocking patent
-            if (!latestBlockingExpiry || expiryDate > latestBlockingExpiry) {
-              latestBlockingExpiry = expiryDate;
-            }
+              // Track latest blocking patent
+              if (!latestBlockingExpiry || expiryDate > latestBlockingExpiry) {
+                latestBlockingExpiry = expiryDate;
+              }
 
-            // Track secondary blocking
-            if (!patent.isPrimary) {
-              hasSecondaryBlocking = true;
+              // Track secondary blocking
+              if (!patent.isPrimary) {
+                hasSecondaryBlocking = true;
+              }
+
+              // Device vs molecule barriers
+              if (isDevice) {
+                if (!latestDeviceExpiry || expiryDate > latestDeviceExpiry) latestDeviceExpiry = expiryDate;
+              } else if (!latestMoleculeExpiry || expiryDate > latestMoleculeExpiry) {
+                latestMoleculeExpiry = expiryDate;
+              }
+
+              if (assessAtRisk) {
+                patentInfo.challengeability = classifyPatent({ ...patent, devicePatent: isDevice }, listing, useCodes);
+                if (patentInfo.challengeability === 'HARD_BLOCKING' &&
+                    (!latestHardBlockingExpiry || expiryDate > latestHardBlockingExpiry)) {
+                  latestHardBlockingExpiry = expiryDate;
+                }
+              }
             }
           }
-        }
 
-        // Determine FTO status for this country
-        let ftoStatus: FTOStatus;
-        let yearsToGenericEntry: number;
-        let earliestGenericEntry: string;
-        let riskExplanation: string;
-
-        if (blockingPatents.length === 0) {
-          ftoStatus = 'CLEAR';
-          yearsToGenericEntry = 0;
-          earliestGenericEntry = now.toISOString().split('T')[0];
-          riskExplanation = `All patents expired in ${country}. Generic entry possible immediately.`;
-        } else {
-          yearsToGenericEntry = Math.round(
-            ((latestBlockingExpiry!.getTime() - now.getTime()) / (1000 * 60 * 60 * 24 * 365)) * 10
-          ) / 10;
-          earliestGenericEntry = latestBlockingExpiry!.toISOString().split('T')[0];
-
-          if (yearsToGenericEntry <= 2) {
-            ftoStatus = 'EXPIRING_SOON';
-            riskExplanation = `Patents expiring within ${yearsToGenericEntry.toFixed(1)} years in ${country}. ` +
-              `${blockingPatents.length} active patent(s) blocking. ` +
-              (hasPrimaryActive ? 'Primary compound patent still active.' : 'Only secondary patents remaining.');
+          // Entry waits for whichever barrier falls last
+          const latestExclusivityExpiry = blockingExclusivities.length > 0
+            ? new Date(blockingExclusivities[blockingExclusivities.length - 1].expiryDate)
+            : null;
+          const entryBlockedBy: CountryFTOAnalysis['entryBlockedBy'] =
+            latestExclusivityExpiry && (!latestBlockingExpiry || latestExclusivityExpiry > latestBlockingExpiry) ? 'EXCLUSIVITY' :
+            latestBlockingExpiry ? 'PATENT' :
+            undefined;
+          const entryDate = entryBlockedBy === 'EXCLUSIVITY' ? latestExclusivityExpiry : latestBlockingExpiry;
+
+          // Molecule free, device blocked: nothing but device patents stands in the way
+          const deviceOnly = latestDeviceExpiry !== null && !latestMoleculeExpiry && !latestExclusivityExpiry;
+          const blockingDevicePatents = blockingPatents.filter(p => p.devicePatent);
+          const deviceDesignAroundFeasible = blockingDevicePatents.length > 0
+            ? blockingDevicePatents.every(isStandaloneDevicePatent)
+            : undefined;
+
+          // Determine FTO status for this country
+          let ftoStatus: FTOStatus;
+          let yearsToGenericEntry: number;
+          let earliestGenericEntry: string;
+          let riskExplanation: string;
+
+          if (!entryDate) {
+            ftoStatus = 'CLEAR';
+            yearsToGenericEntry = 0;
+            earliestGenericEntry = now.toISOString().split('T')[0];
+            riskExplanation = `All patents ${invalidatedPatents.length > 0 ? 'expired or invalidated' : 'expired'} in ${country}. ` +
+              'Generic entry possible immediately.';
           } else {
-            ftoStatus = 'BLOCKED';
-            riskExplanation = `Patents block entry until ${earliestGenericEntry} in ${country} (${yearsToGenericEntry.toFixed(1)} years). ` +
-              `${blockingPatents.length} active patent(s). ` +
-              (hasPrimaryActive ? 'Primary compound patent active.' : 'Secondary patents extend exclusivity.');
+            yearsToGenericEntry = yearsUntil(entryDate, now);
+            earliestGenericEntry = entryDate.toISOString().split('T')[0];
+
+            if (entryBlockedBy === 'EXCLUSIVITY') {
+              ftoStatus = yearsToGenericEntry <= 2 ? 'EXPIRING_SOON' : 'BLOCKED';
+              riskExplanation = `Regulatory exclusivity (${describeExclusivities(blockingExclusivities, entryDate)}) ` +
+                `blocks entry until ${earliestGenericEntry} in ${country} (${yearsToGenericEntry.toFixed(1)} years). ` +
+                (latestBlockingExpiry
+                  ? `Last blocking patent expires earlier, on ${latestBlockingExpiry.toISOString().split('T')[0]}.`
+                  : 'No active patents.');
+            } else if (deviceOnly && yearsToGenericEntry > 2) {
+              ftoStatus = 'DEVICE_BLOCKED';
+              riskExplanation = `Molecule free in ${country}: no compound, formulation or exclusivity barrier remains. ` +
+                `${blockingDevicePatents.length} device patent(s) block a same-device generic until ${earliestGenericEntry} ` +
+                `(${yearsToGenericEntry.toFixed(1)} years). ` +
+                (deviceDesignAroundFeasible
+                  ? 'They claim the device alone - an alternative delivery device can design around them.'
+                  : 'They claim the drug-device combination - designing around them is unlikely.');
+            } else if (yearsToGenericEntry <= 2) {
+              ftoStatus = 'EXPIRING_SOON';
+              riskExplanation = `Patents expiring within ${yearsToGenericEntry.toFixed(1)} years in ${country}. ` +
+                `${blockingPatents.length} active patent(s) blocking. ` +
+                (hasPrimaryActive ? 'Primary compound patent still active.' : 'Only secondary patents remaining.');
+            } else {
+              ftoStatus = 'BLOCKED';
+              riskExplanation = `Patents block entry until ${earliestGenericEntry} in ${country} (${yearsToGenericEntry.toFixed(1)} years). ` +
+                `${blockingPatents.length} active patent(s). ` +
+                (hasPrimaryActive ? 'Primary compound patent active.' : 'Secondary patents extend exclusivity.');
+            }
+            if (entryBlockedBy === 'PATENT' && latestExclusivityExpiry) {
+              riskExplanation += ` Regulatory exclusivity (${describeExclusivities(blockingExclusivities, latestExclusivityExpiry)}) ` +
+                `ends earlier, on ${latestExclusivityExpiry.toISOString().split('T')[0]}.`;
+            }
+
+            // Update overall FTO (worst case)
+            if (FTO_SEVERITY[ftoStatus] > FTO_SEVERITY[overallFTO]) overallFTO = ftoStatus;
+          }
+
+          // At-risk entry: blocking patents that can be designed around, carved out or challenged don't hold it back
+          let atRiskEarliestEntry: string | undefined;
+          let yearsToAtRiskEntry: number | undefined;
+          if (assessAtRisk) {
+            const atRiskDate = [latestHardBlockingExpiry, latestExclusivityExpiry]
+              .reduce<Date>((latest, date) => date && date > latest ? date : latest, now);
+            atRiskEarliestEntry = atRiskDate.toISOString().split('T')[0];
+            yearsToAtRiskEntry = yearsUntil(atRiskDate, now);
+            if (entryDate && atRiskDate < entryDate) {
+              riskExplanation += ` At-risk entry from ${atRiskEarliestEntry} (${yearsToAtRiskEntry.toFixed(1)} years) ` +
+                `if ${describeChallengeable(blockingPatents, atRiskDate)} cleared first.`;
+            }
+          }
+
+          // Litigation: what has been struck down, and what is still being fought over
+          const challengedPatents = blockingPatents.filter(p => p.litigationStatus === 'CHALLENGED');
+          const litigationRisk: CountryFTOAnalysis['litigationRisk'] = countryCases.length === 0 ? undefined :
+            challengedPatents.length > 0 ? 'HIGH' :
+            blockingPatents.some(p => p.litigationStatus === 'UPHELD') ? 'MEDIUM' :
+            'LOW';
+          if (invalidatedPatents.length > 0) {
+            riskExplanation += ` Held invalid, no longer blocking: ${invalidatedPatents.map(p => p.patentNumber).join(', ')}.`;
+          }
+          if (challengedPatents.length > 0) {
+            riskExplanation += ` Under pending challenge: ${challengedPatents.map(p => p.patentNumber).join(', ')} ` +
+              `(${describeCases(countryCases.filter(c => c.outcome === 'PENDING' &&
+                c.patentNumbers.some(n => challengedPatents.some(p => normalizePatentNumber(p.patentNumber) === normalizePatentNumber(n)))))}) ` +
+              '- entry date may change.';
           }
 
-          // Update overall FTO (worst case)
-          if (ftoStatus === 'BLOCKED') overallFTO = 'BLOCKED';
-          else if (ftoStatus === 'EXPIRING_SOON' && overallFTO !== 'BLOCKED') overallFTO = 'EXPIRING_SOON';
+          // Track primary patent status
+          if (hasPrimaryActive) primaryPatentExpired = false;
+
+          byCountry.push({
+            country,
+            ftoStatus,
+            earliestGenericEntry,
+            yearsToGenericEntry,
+            blockingPatents,
+            expiredPatents,
+            invalidatedPatents: invalidatedPatents.length > 0 ? invalidatedPatents : undefined,
+            blockingExclusivities,
+            lastPatentExpiry: latestBlockingExpiry?.toISOString().split('T')[0],
+            lastExclusivityExpiry: latestExclusivityExpiry?.toISOString().split('T')[0],
+            entryBlockedBy,
+            lastDevicePatentExpiry: latestDeviceExpiry?.toISOString().split('T')[0],
+            yearsToDeviceExpiry: latestDeviceExpiry ? yearsUntil(latestDeviceExpiry, now) : undefined,
+            deviceDesignAroundFeasible,
+            atRiskEarliestEntry,
+            yearsToAtRiskEntry,
+            litigationRisk,
+            riskExplanation,
+          });
         }
 
-        // Track primary patent status
-        if (hasPrimaryActive) primaryPatentExpired = false;
-
-        byCountry.push({
-          country,
-          ftoStatus,
-          earliestGenericEntry,
-          yearsToGenericEntry,
-          blockingPatents,
-          expiredPatents,
-          riskExplanation,
+        molecules.push({
+          molecule: moleculeName,
+          byCountry,
+          overallFTO,
+          primaryPatentExpired,
+          hasSecondaryBlocking,
+          litigation: litigation.length > 0 ? litigation : undefined,
+        });
+      } catch (error) {
+        // One molecule's bad or missing data must not sink the whole portfolio scan
+        failedMolecules.push({
+          molecule: moleculeName,
+          error: error instanceof Error ? error.message : 'Unknown error',
         });
       }
-
-      molecules.push({
-        molecule: moleculeName,
-        byCountry,
-        overallFTO,
-        primaryPatentExpired,
-        hasSecondaryBlocking,
-      });
     }
 
     await jobService.appendTraceEvent(jobId, {
@@ -165,17 +351,123 @@ export async function runPatentFTOAgent(
       timestamp: new Date().toISOString(),
       detail: `Analyzed ${molecules.length} molecules: ${molecules.filter(m => m.overallFTO === 'CLEAR').length} CLEAR, ` +
         `${molecules.filter(m => m.overallFTO === 'EXPIRING_SOON').length} EXPIRING_SOON, ` +
-        `${molecules.filter(m => m.overallFTO === 'BLOCKED').length} BLOCKED`,
+        `${molecules.filter(m => m.overallFTO === 'DEVICE_BLOCKED').length} DEVICE_BLOCKED, ` +
+        `${molecules.filter(m => m.overallFTO === 'BLOCKED').length} BLOCKED` +
+        (uncoveredCountries.length > 0 ? `. No patent data for ${uncoveredCountries.join(', ')}` : '') +
+        (failedMolecules.length > 0 ? `. Failed: ${failedMolecules.map(f => f.molecule).join(', ')}` : ''),
+      inputCount: moleculeNames.length,
+      outputCount: molecules.length,
     });
 
-    return { molecules };
+    return {
+      molecules,
+      failedMolecules,
+      uncoveredCountries: uncoveredCountries.length > 0 ? uncoveredCountries : undefined,
+    };
   } catch (error) {
     await jobService.appendTraceEvent(jobId, {
       agent: 'PatentFTOAgent',
       status: 'error',
       timestamp: new Date().toISOString(),
       detail: error instanceof Error ? error.message : 'Unknown error',
+      errorStack: error instanceof Error ? error.stack : undefined,
     });
     throw error;
   }
 }
+
+// A secondary patent on the device alone - an alternative delivery device avoids it.
+// Primary or drug-device combination claims cover whatever device the molecule ships in
+function isStandaloneDevicePatent(patent: { patentType: string; isPrimary: boolean }): boolean {
+  return !patent.isPrimary && patent.patentType === 'DEVICE';
+}
+
+// Compound / primary patents hold entry until expiry. Standalone device, formulation and process
+// claims (or an Orange Book listing with product claims only) can be designed around; a listing with
+// only use codes is a method-of-use patent that can be carved out of the label. Anything else -
+// e.g. drug-device combination, salt or polymorph claims - is left to a Paragraph IV challenge
+function classifyPatent(
+  patent: { patentType: string; isPrimary: boolean; devicePatent: boolean },
+  listing: PatentListing | null,
+  useCodes: string[]
+): PatentChallengeability {
+  if (patent.isPrimary || patent.patentType === 'COMPOUND') return 'HARD_BLOCKING';
+  if (patent.devicePatent) return isStandaloneDevicePatent(patent) ? 'DESIGN_AROUND' : 'PIV_CHALLENGE';
+  if (patent.patentType === 'FORMULATION' || patent.patentType === 'PROCESS') return 'DESIGN_AROUND';
+  if (listing?.drugProduct && !listing.drugSubstance) return 'DESIGN_AROUND';
+  if (useCodes.length > 0 && !listing?.drugSubstance && !listing?.drugProduct) return 'CARVE_OUT';
+  return 'PIV_CHALLENGE';
+}
+
+// The patents standing between the at-risk and the conservative date, e.g.
+// "US10,159,713 (design-around) and US7,326,708 (Paragraph IV challenge) are"
+function describeChallengeable(blockingPatents: PatentInfo[], atRiskDate: Date): string {
+  const date = atRiskDate.toISOString().split('T')[0];
+  const patents = blockingPatents
+    .filter(p => p.challengeability && p.challengeability !== 'HARD_BLOCKING' && p.expiryDate > date)
+    .map(p => `${p.patentNumber} (${CHALLENGE_LABELS[p.challengeability as Exclude<PatentChallengeability, 'HARD_BLOCKING'>]})`);
+  return patents.length === 1
+    ? `${patents[0]} is`
+    : `${patents.slice(0, -1).join(', ')} and ${patents[patents.length - 1]} are`;
+}
+
+// The latest ruling on a patent decides (an appeal can reverse the first instance);
+// with no ruling, a pending case means it is under challenge
+function litigationStatusOf(patentNumber: string, cases: LitigationCaseInfo[]): PatentInfo['litigationStatus'] {
+  const key = normalizePatentNumber(patentNumber);
+  const involving = cases.filter(c => c.patentNumbers.some(p => normalizePatentNumber(p) === key));
+  if (involving.length === 0) return undefined;
+
+  const rulings = involving
+    .filter(c => c.decisionDate)
+    .flatMap(c => [
+      ...c.patentsInvalidated.filter(p => normalizePatentNumber(p) === key).map(() => ({ date: c.decisionDate!, status: 'INVALIDATED' as const })),
+      ...c.patentsUpheld.filter(p => normalizePatentNumber(p) === key).map(() => ({ date: c.decisionDate!, status: 'UPHELD' as const })),
+    ])
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const latest = rulings[rulings.length - 1]?.status;
+
+  if (latest === 'INVALIDATED') return 'INVALIDATED';
+  if (involving.some(c => c.outcome === 'PENDING')) return 'CHALLENGED';
+  return latest;
+}
+
+// e.g. "Novo Nordisk v. Mylan, D. Del., filed 2022-06-30"
+function describeCases(cases: LitigationCaseInfo[]): string {
+  return cases.map(c => `${c.caseName}, ${c.court}, filed ${c.filedDate}`).join('; ');
+}
+
+function yearsUntil(date: Date, now: Date): number {
+  return Math.round(((date.getTime() - now.getTime()) / (1000 * 60 * 60 * 24 * 365)) * 10) / 10;
+}
+
+// One entry per application / code / date (the Orange Book repeats a code for each product), by expiry
+function groupExclusivities(rows: Exclusivity[]): ExclusivityInfo[] {
+  const groups = new Map<string, ExclusivityInfo>();
+  for (const row of rows) {
+    const expiryDate = row.expiryDate.toISOString().split('T')[0];
+    const key = [row.applNo, row.code, expiryDate].join('~');
+    const group = groups.get(key);
+    if (group) {
+      group.products.push(row.productNo);
+    } else {
+      groups.set(key, {
+        code: row.code,
+        type: row.type as ExclusivityType,
+        applNo: row.applNo,
+        products: [row.productNo],
+        expiryDate,
+      });
+    }
+  }
+  return [...groups.values()].sort((a, b) => a.expiryDate.localeCompare(b.expiryDate));
+}
+
+// The exclusivities ending on a date, e.g. "ODE-337 orphan drug"
+function describeExclusivities(exclusivities: ExclusivityInfo[], expiry: Date): string {
+  const date = expiry.toISOString().split('T')[0];
+  const codes = [...new Set(exclusivities
+    .filter(e => e.expiryDate === date)
+    .map(e => `${e.code} ${EXCLUSIVITY_LABELS[e.type]}`))];
+  return codes.join(', ');
+}
@@ -0,0 +1,418 @@
+import { PrismaClient } from '@prisma/client';
+import { jobService } from '../services/jobService';
+import { runMoleculeScopeAgent, MoleculeScopeResult } from './moleculeScopeAgent';
+import { runPatentFTOAgent } from './patentFTOAgent';
+import { runClinicalMaturityAgent } from './clinicalMaturityAgent';
+import { runEpidemiologyMarketAgent } from './epidemiologyMarketAgent';
+import { runCommercialDecisionAgent } from './commercialDecisionAgent';
+import { runConstraintFilterAgent } from './constraintFilterAgent';
+import { generateReport } from './reportGenerator';
+import { planCountryCodes } from '../services/planService';
+import { ExecutionPlan, PlanFilters, RunOptions } from '../types/query';
+import {
+  PatentFTOAgentResult,
+  ClinicalMaturityAgentResult,
+  EpidemiologyMarketAgentResult,
+  CommercialDecisionAgentResult,
+  ConstraintFilterResult,
+  DecisionInput,
+  StageFailure,
+} from '../types/agent';
+
+const prisma = new PrismaClient();
+
+/**
+ * Pipeline Stage Graph
+ *
+ *   scope ──┬── fto ──────┬──────────────┐
+ *           ├── clinical ─┼──────────────┼── decision ── report
+ *           └── market ───┴── (filter) ──┘
+ *
+ * - `dependsOn` stages are required inputs and are pulled in automatically
+ * - `after` stages only order execution when they are also selected
+ * - scope and report always run; everything else follows ExecutionPlan.agentsToRun
+ * - filter runs only when the plan has constraints (ExecutionPlan.filters), pulling in
+ *   the stages they are checked against; decision and report then see only the
+ *   molecules that passed
+ * - Stages whose dependencies are satisfied run in parallel (one "wave" at a time)
+ * - `optional` stages (fto, clinical, market) may fail without failing the job: the
+ *   failure is recorded in ctx.failedStages and downstream decisions/report sections
+ *   are marked degraded
+ * - Each stage's output is stored in JobStage; when a job runs again (resume after
+ *   an error, or requeue after a restart) stored stages are restored, not re-run
+ */
+
+export type StageName = 'scope' | 'fto' | 'clinical' | 'market' | 'filter' | 'decision' | 'report';
+
+export interface PipelineContext {
+  jobId: string;
+  queryText: string;
+  plan: ExecutionPlan;
+  options: RunOptions;
+  stagesRun: StageName[];
+  skippedStages: StageName[];
+  resumedStages: StageName[];
+  failedStages: StageFailure[];
+  scope?: MoleculeScopeResult;
+  fto?: PatentFTOAgentResult;
+  clinical?: ClinicalMaturityAgentResult;
+  market?: EpidemiologyMarketAgentResult;
+  filter?: ConstraintFilterResult;
+  decision?: CommercialDecisionAgentResult;
+  reportId?: string;
+}
+
+interface StageDefinition<TOutput = unknown> {
+  name: StageName;
+  dependsOn: StageName[];
+  after?: StageName[];
+  optional?: boolean;
+  // Only runs when the plan needs it (never reported as skipped)
+  conditional?: boolean;
+  // Runs the stage and returns its output (persisted as JSON)
+  run(ctx: PipelineContext): Promise<TOutput>;
+  // Puts a stored output - what this stage's run returned - back on the context when resuming
+  restore(ctx: PipelineContext, output: TOutput): void;
+}
+
+// Infers each stage's output type from its run, so restore is checked against it
+function defineStage<TOutput>(stage: StageDefinition<TOutput>): StageDefinition {
+  return stage as StageDefinition;
+}
+
+export const PIPELINE_STAGES: StageDefinition[] = [
+  defineStage({
+    name: 'scope',
+    dependsOn: [],
+    run: async ctx => {
+      ctx.scope = await runMoleculeScopeAgent(ctx.plan, ctx.jobId);
+
+      if (ctx.options.addMolecules && ctx.options.addMolecules.length > 0) {
+        await addRequestedMolecules(ctx.scope.selectedMolecules, ctx.options.addMolecules, ctx.jobId);
+      }
+
+      if (ctx.scope.selectedMolecules.length === 0) {
+        throw new Error('No molecules found matching query criteria');
+      }
+      return ctx.scope;
+    },
+    restore: (ctx, output) => {
+      ctx.scope = output;
+    },
+  }),
+  defineStage({
+    name: 'fto',
+    dependsOn: ['scope'],
+    optional: true,
+    run: async ctx => {
+      ctx.fto = await runPatentFTOAgent(ctx.scope!.selectedMolecules, await planCountryCodes(ctx.plan), ctx.jobId);
+      return ctx.fto;
+    },
+    restore: (ctx, output) => {
+      ctx.fto = output;
+    },
+  }),
+  defineStage({
+    name: 'clinical',
+    dependsOn: ['scope'],
+    optional: true,
+    run: async ctx => {
+      ctx.clinical = await runClinicalMaturityAgent(ctx.scope!.selectedMolecules, await planCountryCodes(ctx.plan), ctx.jobId);
+      return ctx.clinical;
+    },
+    restore: (ctx, output) => {
+      ctx.clinical = output;
+    },
+  }),
+  defineStage({
+    name: 'market',
+    dependsOn: ['scope'],
+    optional: true,
+    run: async ctx => {
+      ctx.market = await runEpidemiologyMarketAgent(ctx.scope!.selectedMolecules, await planCountryCodes(ctx.plan), ctx.jobId);
+      return ctx.market;
+    },
+    restore: (ctx, output) => {
+      ctx.market = output;
+    },
+  }),
+  defineStage({
+    name: 'filter',
+    dependsOn: ['scope'],
+    after: ['fto', 'market'],
+    conditional: true,
+    run: async ctx => {
+      ctx.filter = await runConstraintFilterAgent(
+        ctx.scope!.selectedMolecules,
+        ctx.plan.filters || {},
+        { fto: ctx.fto, market: ctx.market, countries: await planCountryCodes(ctx.plan) },
+        ctx.jobId
+      );
+      return ctx.filter;
+    },
+    restore: (ctx, output) => {
+      ctx.filter = output;
+    },
+  }),
+  defineStage({
+    name: 'decision',
+    dependsOn: ['fto', 'clinical', 'market'],
+    after: ['filter'],
+    run: async ctx => {
+      const unavailable: Partial<Record<DecisionInput, string>> = {};
+      for (const failure of ctx.failedStages) {
+        unavailable[failure.stage as DecisionInput] = `${failure.stage} stage failed: ${failure.error}`;
+      }
+      if (ctx.failedStages.length === 3) {
+        throw new Error('FTO, clinical and market analysis all failed - no inputs for decisions');
+      }
+
+      ctx.decision = await runCommercialDecisionAgent(
+        analyzedMolecules(ctx),
+        await planCountryCodes(ctx.plan),
+        { fto: ctx.fto, clinical: ctx.clinical, market: ctx.market, unavailable },
+        ctx.jobId
+      );
+      return ctx.decision;
+    },
+    restore: (ctx, output) => {
+      ctx.decision = output;
+    },
+  }),
+  defineStage({
+    name: 'report',
+    dependsOn: ['scope'],
+    after: ['fto', 'clinical', 'market', 'filter', 'decision'],
+    run: async ctx => {
+      // A previous attempt may have failed after creating the report (e.g. PDF write)
+      await prisma.report.deleteMany({ where: { jobId: ctx.jobId } });
+
+      const molecules = analyzedMolecules(ctx);
+      ctx.reportId = await generateReport({
+        jobId: ctx.jobId,
+        queryText: ctx.queryText,
+        moleculeNames: molecules,
+        decisions: ctx.decision?.decisions || [],
+        decisionSummary: ctx.decision?.summary,
+        ftoResult: keepMolecules(ctx.fto, molecules),
+        clinicalResult: keepMolecules(ctx.clinical, molecules),
+        marketResult: keepMolecules(ctx.market, molecules),
+        filterCriteria: ctx.scope!.filterCriteria,
+        skippedStages: ctx.skippedStages,
+        failedStages: ctx.failedStages,
+        plan: ctx.plan,
+        countries: await planCountryCodes(ctx.plan),
+        filteredMolecules: [...(ctx.scope!.excluded || []), ...(ctx.filter?.filteredOut || [])],
+        uncheckedConstraints: ctx.filter?.unchecked,
+      });
+      return { reportId: ctx.reportId };
+    },
+    restore: (ctx, output) => {
+      ctx.reportId = output.reportId;
+    },
+  }),
+];
+
+// Everything that can be stored in JobStage: the parsed plan plus every pipeline stage
+export const STAGE_OUTPUT_NAMES: string[] = ['plan', ...PIPELINE_STAGES.map(s => s.name)];
+
+// Legacy agent names from the old pipeline map onto current stages
+const STAGE_ALIASES: Record<string, StageName> = {
+  patent: 'fto',
+};
+
+// Molecules that go on to decisions and the report: the scope minus any excluded by constraints
+function analyzedMolecules(ctx: PipelineContext): string[] {
+  return ctx.filter ? ctx.filter.passedMolecules : ctx.scope!.selectedMolecules;
+}
+
+// A stage result narrowed to the given molecules
+function keepMolecules<T extends { molecules: Array<{ molecule: string }> }>(
+  result: T | undefined,
+  names: string[]
+): T | undefined {
+  return result && { ...result, molecules: result.molecules.filter(m => names.includes(m.molecule)) };
+}
+
+// Stages the plan's constraints are checked against
+function filterStages(filters?: PlanFilters): StageName[] {
+  if (!filters || Object.values(filters).every(v => v === undefined)) return [];
+  const stages: StageName[] = ['filter'];
+  if (filters.expiryFrom || filters.expiryTo) stages.push('fto');
+  if (filters.minMarketSizeUSD !== undefined || filters.maxGenericApprovals !== undefined) stages.push('market');
+  return stages;
+}
+
+/**
+ * Resolve ExecutionPlan.agentsToRun into the set of stages to execute,
+ * including required dependencies. scope and report are always included,
+ * and constraints in ExecutionPlan.filters add filter plus its inputs.
+ */
+export function resolveStages(agentsToRun: string[], filters?: PlanFilters): Set<StageName> {
+  const stageNames = new Set(PIPELINE_STAGES.map(s => s.name));
+  const selected = new Set<StageName>();
+
+  const visit = (name: StageName) => {
+    if (selected.has(name)) return;
+    selected.add(name);
+    const stage = PIPELINE_STAGES.find(s => s.name === name)!;
+    stage.dependsOn.forEach(visit);
+  };
+
+  visit('scope');
+  visit('report');
+
+  // An empty list means the plan didn't narrow anything - run the full pipeline
+  const requested = agentsToRun.length > 0
+    ? agentsToRun
+    : PIPELINE_STAGES.filter(s => !s.conditional).map(s => s.name);
+  for (const agent of requested) {
+    const name = (STAGE_ALIASES[agent] || agent) as StageName;
+    if (stageNames.has(name)) visit(name);
+  }
+  filterStages(filters).forEach(visit);
+
+  return selected;
+}
+
+/**
+ * Group selected stages into waves: every stage in a wave has all of its
+ * (selected) dependencies in earlier waves.
+ */
+export function planWaves(selected: Set<StageName>): StageName[][] {
+  const waves: StageName[][] = [];
+  const done = new Set<StageName>();
+  const remaining = PIPELINE_STAGES.filter(s => selected.has(s.name));
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter(stage =>
+      [...stage.dependsOn, ...(stage.after || [])]
+        .filter(dep => selected.has(dep))
+        .every(dep => done.has(dep))
+    );
+    if (ready.length === 0) {
+      throw new Error(`Pipeline stage graph has a cycle: ${remaining.map(s => s.name).join(', ')}`);
+    }
+
+    waves.push(ready.map(s => s.name));
+    for (const stage of ready) {
+      done.add(stage.name);
+      remaining.splice(remaining.indexOf(stage), 1);
+    }
+  }
+
+  return waves;
+}
+
+export interface PipelineHooks {
+  // Called ahead of each wave that has stages to run (cancellation checks)
+  beforeWave: (stages: StageName[]) => Promise<void>;
+  // Called after each wave; returning true stops the pipeline (e.g. a cache hit after scope)
+  afterWave?: (stages: StageName[]) => Promise<boolean>;
+}
+
+/**
+ * Run the selected stages wave by wave.
+ * Stages with a stored output for this job are restored instead of run.
+ */
+export async function executePipeline(
+  ctx: PipelineContext,
+  hooks: PipelineHooks
+): Promise<void> {
+  const selected = resolveStages(ctx.plan.agentsToRun, ctx.plan.filters);
+  ctx.skippedStages = PIPELINE_STAGES
+    .filter(s => !s.conditional && !selected.has(s.name))
+    .map(s => s.name);
+
+  const stored = new Map(
+    (await jobService.getStageOutputs(ctx.jobId)).map(record => [record.stage, record.output])
+  );
+  const resumable = [...selected].filter(name => stored.has(name));
+
+  if (resumable.length > 0) {
+    await jobService.appendTraceEvent(ctx.jobId, {
+      agent: 'MasterAgent',
+      status: 'running',
+      timestamp: new Date().toISOString(),
+      detail: `Resuming - reusing stored output for ${resumable.join(', ')}`,
+    });
+  }
+
+  for (const wave of planWaves(selected)) {
+    const pending = wave.filter(name => !stored.has(name));
+    for (const name of wave.filter(name => stored.has(name))) {
+      PIPELINE_STAGES.find(s => s.name === name)!.restore(ctx, JSON.parse(stored.get(name)!));
+      ctx.resumedStages.push(name);
+    }
+
+    if (pending.length > 0) {
+      await hooks.beforeWave(pending);
+      await runWave(ctx, pending);
+    }
+
+    if (hooks.afterWave && await hooks.afterWave(wave)) return;
+  }
+}
+
+// Run one wave's stages in parallel. A failing optional stage is recorded, not thrown.
+async function runWave(ctx: PipelineContext, pending: StageName[]): Promise<void> {
+  await Promise.all(
+    pending.map(async name => {
+      const stage = PIPELINE_STAGES.find(s => s.name === name)!;
+      const startedAt = new Date();
+      let output: unknown;
+
+      try {
+        output = await stage.run(ctx);
+      } catch (error) {
+        if (!stage.optional) throw error;
+
+        // Not stored, so a resumed job retries the failed stage
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        ctx.failedStages.push({ stage: name, error: message });
+        await jobService.appendTraceEvent(ctx.jobId, {
+          agent: 'MasterAgent',
+          status: 'running',
+          timestamp: new Date().toISOString(),
+          detail: `${name} stage failed (${message}) - continuing with degraded results`,
+        });
+        return;
+      }
+
+      await jobService.saveStageOutput(ctx.jobId, name, output, startedAt);
+      ctx.stagesRun.push(name);
+    })
+  );
+}
+
+/**
+ * Add molecules requested via rerun overrides to the selected scope.
+ * Names are matched case-insensitively against the Molecule table; unknown names are skipped.
+ */
+async function addRequestedMolecules(
+  selectedMolecules: string[],
+  requested: string[],
+  jobId: string
+): Promise<void> {
+  const allMolecules = await prisma.molecule.findMany({ select: { name: true } });
+  const added: string[] = [];
+  const unknown: string[] = [];
+
+  for (const name of requested) {
+    const match = allMolecules.find(m => m.name.toLowerCase() === name.trim().toLowerCase());
+    if (!match) {
+      unknown.push(name);
+    } else if (!selectedMolecules.includes(match.name)) {
+      selectedMolecules.push(match.name);
+      added.push(match.name);
+    }
+  }
+
+  await jobService.appendTraceEvent(jobId, {
+    agent: 'MasterAgent',
+    status: 'running',
+    timestamp: new Date().toISOString(),
+    detail: `Rerun override: added ${added.length > 0 ? added.join(', ') : 'no new molecules'}` +
+      (unknown.length > 0 ? ` (not found: ${unknown.join(', ')})` : ''),
+  });
+}
@@ -1,15 +1,24 @@
 import { PrismaClient } from '@prisma/client';
-import { callGemini } from '../services/geminiClient';
+import { callLlm } from '../services/llmClient';
+import { userQueryBlock, USER_QUERY_NOTICE } from '../services/llm/userInput';
 import { pdfService } from '../services/pdfService';
 import { jobService } from '../services/jobService';
+import { moleculeService } from '../services/moleculeService';
+import { countryService } from '../services/countryService';
+import { verifySummary } from './summaryVerifier';
 import { 
   MoleculeDecision,
+  FilteredMolecule,
+  ConstraintFilterResult,
   PatentFTOAgentResult,
   ClinicalMaturityAgentResult,
   EpidemiologyMarketAgentResult,
   CommercialStrategy,
+  StageFailure,
 } from '../types/agent';
-import { ReportPayload, EpidemiologyOverview } from '../types/report';
+import { ReportPayload, ReportCountry, EpidemiologyOverview, FTOOverviewEntry, DegradedSection, AreaSection } from '../types/report';
+import { ExecutionPlan } from '../types/query';
+import { CountryCode, DEFAULT_COUNTRIES } from '../types/country';
 import { 
   getEpidemiologyData, 
   getDrugUtilization,
@@ -37,8 +46,10 @@ function generateFallbackSummary(
   strategySummary: { generic: string[]; license: string[]; wait: string[]; drop: string[] },
   topDecisions: MoleculeDecision[],
   filterCriteria: { indication?: string; country?: string },
+  reportCountries: ReportCountry[],
   epidemiologyData?: EpidemiologyOverview
 ): string {
+  const marketLabel = reportCountries.map(c => c.name).join(' and ');
   const marketB = (totalAddressableMarketUSD / 1_000_000_000).toFixed(1);
   const indication = filterCriteria.indication || 'multiple therapeutic areas';
   
@@ -46,26 +57,21 @@ function generateFallbackSummary(
   let summary = `**Executive Summary: ${indication} Market Analysis**\n\n`;
   
   // Add patient epidemiology context if available
-  if (epidemiologyData && epidemiologyData.diseases.length > 0) {
-    const usEpi = epidemiologyData.diseases.find(d => d.country === 'US');
-    const inEpi = epidemiologyData.diseases.find(d => d.country === 'IN');
-    
+  const countryEpi = reportCountries
+    .map(country => ({ country, epi: epidemiologyData?.diseases.find(d => d.country === country.code) }))
+    .filter(e => e.epi);
+  if (countryEpi.length > 0) {
     summary += `**Patient Population & Unmet Need:**\n`;
-    if (usEpi) {
-      summary += `In the United States, ${formatPatientCount(usEpi.prevalenceTotal)} patients live with ${usEpi.disease}, `;
-      summary += `with ${formatPatientCount(usEpi.incidenceAnnual)} new cases annually. `;
-      summary += `Only ${usEpi.diagnosedPercent}% are diagnosed and ${usEpi.treatedPercent}% receive treatment, `;
-      summary += `highlighting significant unmet medical need. `;
-    }
-    if (inEpi) {
-      summary += `India has ${formatPatientCount(inEpi.prevalenceTotal)} patients with ${inEpi.disease}, `;
-      summary += `but only ${inEpi.treatedPercent}% are treated, representing a major market opportunity. `;
+    for (const { country, epi } of countryEpi) {
+      summary += `In ${country.name}, ${formatPatientCount(epi!.prevalenceTotal)} patients live with ${epi!.disease}, `;
+      summary += `with ${formatPatientCount(epi!.incidenceAnnual)} new cases annually. `;
+      summary += `Only ${epi!.diagnosedPercent}% are diagnosed and ${epi!.treatedPercent}% receive treatment. `;
     }
-    summary += '\n\n';
+    summary += `This gap highlights significant unmet medical need.\n\n`;
   }
   
   summary += `This analysis evaluated ${decisionSummary.totalMolecules} molecules for ${indication}, `;
-  summary += `representing a drug market opportunity of $${marketB} billion across India and US markets. `;
+  summary += `representing a drug market opportunity of $${marketB} billion across ${marketLabel} markets. `;
   
   if (decisionSummary.genericOpportunities > 0) {
     const topGenerics = strategySummary.generic.slice(0, 3);
@@ -104,12 +110,178 @@ function generateFallbackSummary(
   return summary;
 }
 
+/**
+ * Fallback summary for runs without the decision stage (e.g. patent-only questions).
+ * Describes whichever stage outputs are present and names the analyses that were skipped.
+ */
+function generatePartialSummary(
+  moleculeNames: string[],
+  ftoOverview: FTOOverviewEntry[],
+  totalAddressableMarketUSD: number,
+  hasMarketData: boolean,
+  filterCriteria: { indication?: string; country?: string },
+  marketLabel: string,
+  skippedStages: string[]
+): string {
+  const indication = filterCriteria.indication || 'multiple therapeutic areas';
+
+  let summary = `**Executive Summary: ${indication} Analysis**\n\n`;
+  summary += `This focused analysis covered ${moleculeNames.length} molecules for ${indication}. `;
+
+  if (ftoOverview.length > 0) {
+    const clear = ftoOverview.filter(f => f.overallFTO === 'CLEAR').map(f => f.molecule);
+    const expiring = ftoOverview.filter(f => f.overallFTO === 'EXPIRING_SOON').map(f => f.molecule);
+    const blocked = ftoOverview.filter(f => f.overallFTO === 'BLOCKED').map(f => f.molecule);
+    const deviceBlocked = ftoOverview.filter(f => f.overallFTO === 'DEVICE_BLOCKED').map(f => f.molecule);
+
+    summary += `\n\n**Patent / FTO Position:** `;
+    if (clear.length > 0) summary += `Clear to operate: ${clear.join(', ')}. `;
+    if (expiring.length > 0) summary += `Patents expiring within 2 years: ${expiring.join(', ')}. `;
+    if (blocked.length > 0) summary += `Blocked by active patents: ${blocked.join(', ')}. `;
+    if (deviceBlocked.length > 0) summary += `Molecule free, blocked only by device patents: ${deviceBlocked.join(', ')}. `;
+  }
+
+  if (hasMarketData) {
+    summary += `\n\n**Market:** Combined drug market opportunity of $${(totalAddressableMarketUSD / 1_000_000_000).toFixed(1)} billion across ${marketLabel}. `;
+  }
+
+  if (skippedStages.length > 0) {
+    summary += `\n\n*Not included in this report: ${skippedStages.join(', ')} analysis. ` +
+      `Run a full analysis for commercial recommendations.*`;
+  }
+
+  return summary;
+}
+
+const SECTION_BY_STAGE: Record<string, string> = {
+  fto: 'Patent Expiries & FTO',
+  clinical: 'Molecule Decisions',
+  market: 'Market Overview',
+};
+
+/**
+ * Sections built from incomplete inputs: stages that failed, molecules that
+ * failed inside a stage, and decisions made without one of their inputs.
+ */
+function buildDegradedSections(
+  failedStages: StageFailure[],
+  decisions: MoleculeDecision[],
+  ftoResult?: PatentFTOAgentResult,
+  marketResult?: EpidemiologyMarketAgentResult,
+  uncheckedConstraints: NonNullable<ConstraintFilterResult['unchecked']> = []
+): DegradedSection[] {
+  const sections: DegradedSection[] = failedStages.map(f => ({
+    section: SECTION_BY_STAGE[f.stage] || f.stage,
+    missingInput: f.stage,
+    detail: `${f.stage} stage failed: ${f.error}`,
+  }));
+
+  for (const unchecked of uncheckedConstraints) {
+    sections.push({
+      section: 'Query Constraints',
+      missingInput: unchecked.input,
+      detail: `${unchecked.constraint} constraint not applied - no ${unchecked.input} data`,
+    });
+  }
+
+  for (const failure of ftoResult?.failedMolecules || []) {
+    sections.push({
+      section: SECTION_BY_STAGE.fto,
+      missingInput: 'fto',
+      detail: `${failure.molecule}: ${failure.error}`,
+    });
+  }
+  for (const failure of marketResult?.failedMolecules || []) {
+    sections.push({
+      section: SECTION_BY_STAGE.market,
+      missingInput: 'market',
+      detail: `${failure.molecule}: ${failure.error}`,
+    });
+  }
+
+  const degradedDecisions = decisions.filter(d => d.degraded);
+  if (degradedDecisions.length > 0) {
+    const inputs = new Set(degradedDecisions.flatMap(d => d.degraded!.map(i => i.input)));
+    sections.push({
+      section: 'Molecule Decisions',
+      missingInput: [...inputs].join(', '),
+      detail: `${degradedDecisions.length} of ${decisions.length} decisions made with incomplete inputs: ` +
+        degradedDecisions.map(d => `${d.molecule} (no ${d.degraded!.map(i => i.input).join('/')})`).join(', '),
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * One section per therapeutic area for comparative analyses. Empty when the
+ * analyzed molecules all belong to a single indication.
+ */
+function buildAreaSections(
+  molecules: Array<{ name: string; indication: string }>,
+  decisions: MoleculeDecision[],
+  ftoOverview: FTOOverviewEntry[],
+  marketByIndication: Array<{ indication: string; marketSizeByCountry?: Record<CountryCode, number> }>,
+  countries: CountryCode[]
+): AreaSection[] {
+  const indications = [...new Set(molecules.map(m => m.indication))];
+  if (indications.length < 2) return [];
+
+  return indications.map(indication => {
+    const names = molecules.filter(m => m.indication === indication).map(m => m.name);
+    // Decisions are already in priority order
+    const areaDecisions = decisions.filter(d => names.includes(d.molecule));
+    const byStrategy = (strategy: CommercialStrategy) =>
+      areaDecisions.filter(d => d.overallStrategy === strategy).map(d => d.molecule);
+    const market = marketByIndication.find(m => m.indication === indication);
+    const ftoClear = ftoOverview
+      .filter(f => names.includes(f.molecule) && f.overallFTO === 'CLEAR')
+      .map(f => f.molecule);
+    const top = areaDecisions.find(d => d.overallStrategy !== 'DROP');
+
+    const section: AreaSection = {
+      indication,
+      molecules: names,
+      strategySummary: {
+        license: byStrategy('LICENSE'),
+        generic: byStrategy('GENERIC'),
+        wait: byStrategy('WAIT'),
+        drop: byStrategy('DROP'),
+      },
+      marketSizeByCountry: market?.marketSizeByCountry ?? {},
+      marketSizeIN: market?.marketSizeByCountry?.IN || 0,
+      marketSizeUS: market?.marketSizeByCountry?.US || 0,
+      ftoClear,
+      topOpportunity: top
+        ? { molecule: top.molecule, strategy: top.overallStrategy, rationale: top.ftoSummary }
+        : undefined,
+      summary: '',
+    };
+
+    const parts = [`${names.length} molecule(s)`];
+    if (market) {
+      const areaMarket = Object.values(section.marketSizeByCountry ?? {}).reduce((sum, size) => sum + size, 0);
+      parts.push(`market $${(areaMarket / 1_000_000_000).toFixed(1)}B (${countries.join('+')})`);
+    }
+    if (areaDecisions.length > 0) {
+      const { license, generic, wait, drop } = section.strategySummary;
+      parts.push(`${generic.length} generic, ${license.length} license, ${wait.length} wait, ${drop.length} drop`);
+    }
+    parts.push(`FTO clear: ${ftoClear.length > 0 ? ftoClear.join(', ') : 'none'}`);
+    if (top) parts.push(`lead: ${top.molecule} (${top.overallStrategy})`);
+    section.summary = parts.join('; ');
+
+    return section;
+  });
+}
+
 /**
  * Generate fallback recommendations when AI is unavailable
  */
 function generateFallbackRecommendations(
   strategySummary: { generic: string[]; license: string[]; wait: string[]; drop: string[] },
-  topDecisions: MoleculeDecision[]
+  topDecisions: MoleculeDecision[],
+  reportCountries: ReportCountry[]
 ): string[] {
   const recommendations: string[] = [];
   
@@ -125,12 +297,15 @@ function generateFallbackRecommendations(
     recommendations.push(`Explore licensing partnership for ${topLicense} with originator company`);
   }
   
-  // Market-specific recommendation
-  const indiaPriority = topDecisions.find(d => 
-    d.recommendations?.some(r => r.country === 'IN' && r.goNoGo === 'GO')
-  );
-  if (indiaPriority) {
-    recommendations.push(`Fast-track India market entry for ${indiaPriority.molecule} - favorable patent landscape`);
+  // Market-specific recommendation - the first analyzed market with a GO
+  for (const country of reportCountries) {
+    const priority = topDecisions.find(d =>
+      d.recommendations?.some(r => r.country === country.code && r.goNoGo === 'GO')
+    );
+    if (priority) {
+      recommendations.push(`Fast-track ${country.name} market entry for ${priority.molecule} - favorable patent landscape`);
+      break;
+    }
   }
   
   // Generic portfolio recommendation
@@ -157,70 +332,111 @@ function generateFallbackRecommendations(
   return recommendations.slice(0, 4);
 }
 
+// Stage outputs are optional: stages not requested by the plan are simply absent,
+// and the matching report sections are left empty (see skippedStages)
 export interface GenerateReportParams {
   jobId: string;
   queryText: string;
+  moleculeNames: string[];
   decisions: MoleculeDecision[];
-  decisionSummary: {
+  decisionSummary?: {
     totalMolecules: number;
     licenseOpportunities: number;
     genericOpportunities: number;
     waitOpportunities: number;
     dropRecommendations: number;
   };
-  ftoResult: PatentFTOAgentResult;
-  clinicalResult: ClinicalMaturityAgentResult;
-  marketResult: EpidemiologyMarketAgentResult;
+  ftoResult?: PatentFTOAgentResult;
+  clinicalResult?: ClinicalMaturityAgentResult;
+  marketResult?: EpidemiologyMarketAgentResult;
   filterCriteria: {
     indication?: string;
     country?: string;
   };
+  // Markets analyzed; defaults to IN + US
+  countries?: CountryCode[];
+  skippedStages?: string[];
+  failedStages?: StageFailure[];
+  plan?: ExecutionPlan;
+  // Molecules in scope excluded by the plan's constraints (modality, filters)
+  filteredMolecules?: FilteredMolecule[];
+  uncheckedConstraints?: ConstraintFilterResult['unchecked'];
 }
 
 export async function generateReport(params: GenerateReportParams): Promise<string> {
   const { 
     jobId, 
     queryText, 
+    moleculeNames,
     decisions,
-    decisionSummary,
     ftoResult,
-    clinicalResult,
     marketResult,
     filterCriteria,
   } = params;
+  const countries = params.countries || DEFAULT_COUNTRIES;
+  const skippedStages = params.skippedStages || [];
+  const failedStages = params.failedStages || [];
+  const hasDecisions = !skippedStages.includes('decision');
+  const decisionSummary = params.decisionSummary || {
+    totalMolecules: moleculeNames.length,
+    licenseOpportunities: 0,
+    genericOpportunities: 0,
+    waitOpportunities: 0,
+    dropRecommendations: 0,
+  };
 
   await jobService.appendTraceEvent(jobId, {
     agent: 'ReportGenerator',
     status: 'running',
     timestamp: new Date().toISOString(),
     detail: 'Generating board-ready report with commercial decisions',
+    inputCount: decisions.length,
   });
 
   try {
+    const reportCountries: ReportCountry[] = await Promise.all(countries.map(async code => {
+      const country = await countryService.getCountry(code);
+      return {
+        code,
+        name: country?.name ?? code,
+        regulator: country?.regulator,
+        genericPathway: country?.genericPathway,
+      };
+    }));
+    const marketLabel = reportCountries.map(c => c.name).join(' and ');
+
+    const scopedMolecules = await prisma.molecule.findMany({
+      where: { name: { in: moleculeNames } },
+      select: { name: true, indication: true },
+    });
+
     // Get the set of indications from the selected molecules (respects query filtering)
+    // Without the market stage, fall back to the molecules' own indications
     const selectedIndications = new Set<string>();
-    for (const m of marketResult.molecules) {
-      selectedIndications.add(m.indication);
+    if (marketResult) {
+      for (const m of marketResult.molecules) {
+        selectedIndications.add(m.indication);
+      }
+    } else {
+      scopedMolecules.forEach(m => selectedIndications.add(m.indication));
     }
 
+    const marketMolecules = marketResult?.molecules || [];
+
     // Calculate total addressable market ONLY for selected indications
-    const totalAddressableMarketUSD = marketResult.molecules.reduce(
+    const totalAddressableMarketUSD = marketMolecules.reduce(
       (sum, m) => sum + m.totalAddressableMarketUSD, 0
     );
 
     // Group market by indication - only include indications from selected molecules
-    const indicationMap = new Map<string, { marketSizeIN: number; marketSizeUS: number }>();
-    for (const m of marketResult.molecules) {
+    const indicationMap = new Map<string, Record<CountryCode, number>>();
+    for (const m of marketMolecules) {
       // Only include indications that are in our selected set
       if (!selectedIndications.has(m.indication)) continue;
       
       for (const data of m.marketData) {
-        const existing = indicationMap.get(m.indication) || { marketSizeIN: 0, marketSizeUS: 0 };
-        if (data.country === 'IN') {
-          existing.marketSizeIN = data.marketSizeUSD;
-        } else if (data.country === 'US') {
-          existing.marketSizeUS = data.marketSizeUSD;
-        }
+        const existing = indicationMap.get(m.indication) || {};
+        existing[data.country] = data.marketSizeUSD;
         indicationMap.set(m.indication, existing);
       }
     }
@@ -229,8 +445,10 @@ export async function generateReport(params: GenerateReportParams): Promise<stri
       totalAddressableMarketUSD,
       byIndication: Array.from(indicationMap.entries()).map(([indication, sizes]) => ({
         indication,
-        marketSizeIN: sizes.marketSizeIN,
-        marketSizeUS: sizes.marketSizeUS,
+        marketSizeByCountry: sizes,
+        // Legacy IN / US columns
+        marketSizeIN: sizes.IN || 0,
+        marketSizeUS: sizes.US || 0,
       })),
       // Include what was filtered for transparency
       filteredIndication: filterCriteria.indication,
@@ -247,15 +465,16 @@ export async function generateReport(params: GenerateReportParams): Promise<stri
     // Build upcoming patent expiries
     const upcomingPatentExpiries: Array<{
       molecule: string;
-      country: 'IN' | 'US';
+      country: CountryCode;
       expiryDate: string;
       yearsToExpiry: number;
     }> = [];
 
-    for (const mol of ftoResult.molecules) {
+    const ftoMolecules = ftoResult?.molecules || [];
+    for (const mol of ftoMolecules) {
       for (const country of mol.byCountry) {
         if (country.ftoStatus === 'EXPIRING_SOON' || 
-            (country.ftoStatus === 'BLOCKED' && country.yearsToGenericEntry <= 5)) {
+            ((country.ftoStatus === 'BLOCKED' || country.ftoStatus === 'DEVICE_BLOCKED') && country.yearsToGenericEntry <= 5)) {
           upcomingPatentExpiries.push({
             molecule: mol.molecule,
             country: country.country,
@@ -269,6 +488,24 @@ export async function generateReport(params: GenerateReportParams): Promise<stri
     // Sort by expiry date
     upcomingPatentExpiries.sort((a, b) => a.yearsToExpiry - b.yearsToExpiry);
 
+    // Per-molecule FTO status, independent of the decision stage
+    const ftoOverview: FTOOverviewEntry[] = ftoMolecules.map(mol => ({
+      molecule: mol.molecule,
+      overallFTO: mol.overallFTO,
+      byCountry: mol.byCountry.map(c => ({
+        country: c.country,
+        ftoStatus: c.ftoStatus,
+        earliestGenericEntry: c.earliestGenericEntry,
+        blockingPatentCount: c.blockingPatents.length,
+        blockingExclusivityCount: c.blockingExclusivities?.length ?? 0,
+        entryBlockedBy: c.entryBlockedBy,
+        atRiskEarliestEntry: c.atRiskEarliestEntry,
+        litigationRisk: c.litigationRisk,
+        lastDevicePatentExpiry: c.lastDevicePatentExpiry,
+        deviceDesignAroundFeasible: c.deviceDesignAroundFeasible,
+      })),
+    }));
+
     // ============================================
     // NEW: Fetch epidemiology data for relevant diseases
     // ============================================
@@ -280,10 +517,11 @@ export async function generateReport(params: GenerateReportParams): Promise<stri
 
     // Get unique indications from the analyzed molecules
     const indications = Array.from(selectedIndications);
+    const inAnalyzedMarkets = (country: CountryCode) => country === 'GLOBAL' || countries.includes(country);
     
     for (const indication of indications) {
-      // Get disease epidemiology data
-      const epiData = getEpidemiologyData(indication);
+      // Get disease epidemiology data - the analyzed markets, plus global figures for context
+      const epiData = getEpidemiologyData(indication).filter(e => inAnalyzedMarkets(e.country));
       epidemiologyOverview.diseases.push(...epiData.map(e => ({
         disease: e.disease,
         country: e.country,
@@ -310,7 +548,7 @@ export async function generateReport(params: GenerateReportParams): Promise<stri
       })));
 
       // Get historical trends
-      const trends = getHistoricalTrends(indication, 'US');
+      const trends = countries.flatMap(country => getHistoricalTrends(indication, country));
       epidemiologyOverview.trends.push(...trends.map(t => ({
         disease: t.disease,
         country: t.country,
@@ -322,8 +560,8 @@ export async function generateReport(params: GenerateReportParams): Promise<stri
     }
 
     // Get drug utilization for analyzed molecules
-    for (const decision of decisions) {
-      const utilData = getDrugUtilization(decision.molecule);
+    for (const moleculeName of moleculeNames) {
+      const utilData = getDrugUtilization(moleculeName).filter(u => countries.includes(u.country));
       epidemiologyOverview.drugUtilization.push(...utilData.map(u => ({
         molecule: u.molecule,
         country: u.country,
@@ -340,13 +578,15 @@ export async function generateReport(params: GenerateReportParams): Promise<stri
       })));
     }
 
-    // Generate executive summary with Gemini
+    // Generate executive summary with the LLM
     const topDecisions = decisions.slice(0, 3);
     
+    const countryName = (code: CountryCode) =>
+      code === 'GLOBAL' ? 'Global' : reportCountries.find(c => c.code === code)?.name ?? code;
+
     // Build epidemiology summary for the prompt
     const epiSummaryLines: string[] = [];
     for (const epi of epidemiologyOverview.diseases) {
-      const countryName = epi.country === 'US' ? 'United States' : epi.country === 'IN' ? 'India' : 'Global';
       const prevalence = epi.prevalenceTotal >= 1_000_000 
         ? `${(epi.prevalenceTotal / 1_000_000).toFixed(1)}M` 
         : `${(epi.prevalenceTotal / 1000).toFixed(0)}K`;
@@ -354,7 +594,7 @@ export async function generateReport(params: GenerateReportParams): Promise<stri
         ? `${(epi.incidenceAnnual / 1_000_000).toFixed(1)}M` 
         : `${(epi.incidenceAnnual / 1000).toFixed(0)}K`;
       epiSummaryLines.push(
-        `- ${epi.disease} (${countryName}): ${prevalence} patients, ${incidence} new cases/year, ${epi.treatedPercent}% treated, ${epi.diagnosedPercent}% diagnosed`
+        `- ${epi.disease} (${countryName(epi.country)}): ${prevalence} patients, ${incidence} new cases/year, ${epi.treatedPercent}% treated, ${epi.diagnosedPercent}% diagnosed`
       );
     }
     
@@ -364,19 +604,25 @@ export async function generateReport(params: GenerateReportParams): Promise<stri
       const patientCount = util.totalPatientsOnDrug >= 1_000_000 
         ? `${(util.totalPatientsOnDrug / 1_000_000).toFixed(1)}M` 
         : `${(util.totalPatientsOnDrug / 1000).toFixed(0)}K`;
-      const countryName = util.country === 'US' ? 'US' : 'India';
       drugUtilLines.push(
-        `- ${util.molecule} (${countryName}): ${patientCount} patients on drug, ${util.marketSharePercent?.toFixed(1) || 'N/A'}% market share`
+        `- ${util.molecule} (${countryName(util.country)}): ${patientCount} patients on drug, ${util.marketSharePercent?.toFixed(1) || 'N/A'}% market share`
       );
     }
     
+    const degradedSections = buildDegradedSections(
+      failedStages, decisions, ftoResult, marketResult, params.uncheckedConstraints
+    );
+    const filteredMolecules = params.filteredMolecules || [];
+    const areaSections = buildAreaSections(scopedMolecules, decisions, ftoOverview, marketOverview.byIndication, countries);
+
     const summaryPrompt = `You are a pharmaceutical BD analyst. Write a concise executive summary (2-3 paragraphs) for a board presentation.
+${USER_QUERY_NOTICE} Base every figure and recommendation on the analysis results below.
 
-Query: "${queryText}"
+${userQueryBlock(queryText)}
 
 Analysis Results:
 - Total molecules analyzed: ${decisionSummary.totalMolecules}
-- Total drug market opportunity: $${(totalAddressableMarketUSD / 1_000_000_000).toFixed(1)}B (combined IN + US)
+- Total drug market opportunity: $${(totalAddressableMarketUSD / 1_000_000_000).toFixed(1)}B (combined ${marketLabel})
 
 PATIENT EPIDEMIOLOGY DATA (from CDC, WHO, IDF, GOLD):
 ${epiSummaryLines.length > 0 ? epiSummaryLines.join('\n') : '- No specific epidemiology data available for this indication'}
@@ -384,28 +630,52 @@ ${epiSummaryLines.length > 0 ? epiSummaryLines.join('\n') : '- No specific epide
 DRUG UTILIZATION (current patient base for key molecules):
 ${drugUtilLines.length > 0 ? drugUtilLines.join('\n') : '- No detailed drug utilization data available'}
 
-Commercial Recommendations:
+${hasDecisions ? `Commercial Recommendations:
 ${topDecisions.map(d => `- ${d.molecule} (${d.indication}): ${d.overallStrategy} - ${d.recommendations[0]?.rationale || 'See details'}`).join('\n')}
 
 Strategy Breakdown:
 - GENERIC opportunities: ${decisionSummary.genericOpportunities} molecules (immediate/near-term)
 - LICENSE opportunities: ${decisionSummary.licenseOpportunities} molecules (requires deal)
 - WAIT: ${decisionSummary.waitOpportunities} molecules (2-4 year horizon)
-- DROP: ${decisionSummary.dropRecommendations} molecules (not recommended)
-
+- DROP: ${decisionSummary.dropRecommendations} molecules (not recommended)` : `Patent / FTO Position:
+${ftoOverview.length > 0 ? ftoOverview.map(f => `- ${f.molecule}: ${f.overallFTO}`).join('\n') : '- Not analyzed'}
+
+NOT ANALYZED (do not make claims about these): ${skippedStages.join(', ')}`}
+${areaSections.length > 0 ? `
+THERAPEUTIC AREA COMPARISON (compare the areas explicitly, one short paragraph each):
+${areaSections.map(a => `- ${a.indication}: ${a.summary}`).join('\n')}
+` : ''}${filteredMolecules.length > 0 ? `
+EXCLUDED BY QUERY CONSTRAINTS (mention briefly, do not recommend these):
+${filteredMolecules.map(f => `- ${f.molecule}: ${f.reasons.join('; ')}`).join('\n')}
+` : ''}${degradedSections.length > 0 ? `
+DATA GAPS (state that these results are incomplete):
+${degradedSections.map(d => `- ${d.section}: ${d.detail}`).join('\n')}
+` : ''}
 Write a professional summary that:
 1. Highlights the patient population size and treatment gaps (using the epidemiology data)
 2. Connects patient unmet need to commercial opportunity
 3. Recommends priority molecules with clear rationale based on market size, patient base, and competition`;
 
-    let summary = generateFallbackSummary(queryText, decisionSummary, totalAddressableMarketUSD, strategySummary, topDecisions, filterCriteria, epidemiologyOverview);
+    let summary = hasDecisions
+      ? generateFallbackSummary(queryText, decisionSummary, totalAddressableMarketUSD, strategySummary, topDecisions, filterCriteria, reportCountries, epidemiologyOverview)
+      : generatePartialSummary(moleculeNames, ftoOverview, totalAddressableMarketUSD, !!marketResult, filterCriteria, marketLabel, skippedStages);
+    if (filteredMolecules.length > 0) {
+      summary += `\n\n**Excluded by query constraints:** ${filteredMolecules.map(f => `${f.molecule} (${f.reasons.join('; ')})`).join(', ')}`;
+    }
+    if (areaSections.length > 0) {
+      summary += `\n\n**By Therapeutic Area:**\n${areaSections.map(a => `- **${a.indication}:** ${a.summary}`).join('\n')}`;
+    }
+    
+    const fallbackSummary = summary;
+    let summaryFromLlm = false;
     
-    let recommendations: string[] = generateFallbackRecommendations(strategySummary, topDecisions);
+    let recommendations: string[] = generateFallbackRecommendations(strategySummary, topDecisions, reportCountries);
 
     try {
-      const summaryResponse = await callGemini(summaryPrompt);
+      const summaryResponse = await callLlm(summaryPrompt, { purpose: 'summary', jobId });
       if (summaryResponse && summaryResponse.trim().length > 100) {
         summary = summaryResponse.trim();
+        summaryFromLlm = true;
       }
       // If AI response is too short, keep the detailed fallback
 
@@ -419,7 +689,7 @@ License opportunities: ${strategySummary.license.join(', ') || 'None'}
 Return only a JSON array of action items. Example:
 ["Initiate ANDA filing for Tiotropium in India by Q2", "Begin license negotiations with Novo Nordisk for Semaglutide", ...]`;
 
-      const recsResponse = await callGemini(recsPrompt);
+      const recsResponse = await callLlm(recsPrompt, { purpose: 'recommendations', jobId });
       const recsJson = recsResponse.match(/\[[\s\S]*\]/);
       if (recsJson) {
         const parsed = JSON.parse(recsJson[0]);
@@ -427,10 +697,16 @@ Return only a JSON array of action items. Example:
           recommendations = parsed.slice(0, 4);
         }
       }
-    } catch (geminiError) {
-      console.error('Gemini summary generation failed, using defaults');
+    } catch (llmError) {
+      console.error('LLM summary generation failed, using defaults');
     }
 
+    // Always disclose data gaps, whichever summary was used
+    const dataGapsNote = degradedSections.length > 0
+      ? `\n\n*Data gaps: ${degradedSections.length} section(s) built from incomplete inputs ` +
+        `(${[...new Set(degradedSections.map(d => d.section))].join(', ')}). See report notes.*`
+      : '';
+
     await jobService.appendTraceEvent(jobId, {
       agent: 'ReportGenerator',
       status: 'running',
@@ -441,22 +717,49 @@ Return only a JSON array of action items. Example:
     // Create report payload with decision-driven structure
     const reportPayload: ReportPayload = {
       queryText,
-      summary,
+      summary: summary + dataGapsNote,
+      countries: reportCountries,
       decisions,
+      moleculeNames,
       marketOverview,
       strategySummary,
       recommendations,
       upcomingPatentExpiries,
       epidemiologyOverview: epidemiologyOverview.diseases.length > 0 ? epidemiologyOverview : undefined,
+      ftoOverview: ftoOverview.length > 0 ? ftoOverview : undefined,
+      skippedStages: skippedStages.length > 0 ? skippedStages : undefined,
+      degradedSections: degradedSections.length > 0 ? degradedSections : undefined,
+      plan: params.plan,
+      filteredMolecules: filteredMolecules.length > 0 ? filteredMolecules : undefined,
+      areaSections: areaSections.length > 0 ? areaSections : undefined,
       // Legacy compatibility - store a calculated confidence
       confidence: calculateOverallConfidence(decisions),
     };
 
+    // Fact-check the LLM summary; a severe discrepancy falls back to the data-driven summary
+    if (summaryFromLlm) {
+      const knownMolecules = (await moleculeService.listMolecules()).map(m => m.name);
+      const verification = verifySummary(summary, reportPayload, knownMolecules);
+      if (verification.severe) {
+        verification.replaced = true;
+        reportPayload.summary = fallbackSummary + dataGapsNote;
+      }
+      reportPayload.summaryVerification = verification;
+
+      await jobService.appendTraceEvent(jobId, {
+        agent: 'ReportGenerator',
+        status: 'running',
+        timestamp: new Date().toISOString(),
+        detail: `Summary fact-check: ${verification.checkedClaims} claims, ${verification.mismatches.length} mismatches` +
+          (verification.replaced ? ' (replaced with data-driven summary)' : ''),
+      });
+    }
+
     // Create report in database
     const report = await prisma.report.create({
       data: {
         jobId,
-        summary,
+        summary: reportPayload.summary,
         confidence: reportPayload.confidence || 0.75,
         data: JSON.stringify(reportPayload),
       },
@@ -482,6 +785,7 @@ Return only a JSON array of action items. Example:
       status: 'completed',
       timestamp: new Date().toISOString(),
       detail: `Report ${report.id} generated: ${strategySummary.generic.length} GENERIC, ${strategySummary.license.length} LICENSE`,
+      inputCount: decisions.length,
     });
 
     return report.id;
@@ -491,6 +795,7 @@ Return only a JSON array of action items. Example:
       status: 'error',
       timestamp: new Date().toISOString(),
       detail: error instanceof Error ? error.message : 'Unknown error',
+      errorStack: error instanceof Error ? error.stack : undefined,
     });
     throw error;
   }
@@ -0,0 +1,289 @@
+import { formatUSD } from '../services/planService';
+import { CommercialStrategy } from '../types/agent';
+import { ReportPayload, SummaryMismatch, SummaryVerification } from '../types/report';
+
+// A figure within this fraction of a report figure is a match (on top of rounding)
+const MATCH_TOLERANCE = 0.05;
+
+// A figure further than this from every report figure is treated as invented
+const INVENTED_TOLERANCE = 0.25;
+
+// Mismatch counts at which the LLM summary is discarded
+const SEVERE_MAJOR_MISMATCHES = 1;
+const SEVERE_MINOR_MISMATCHES = 4;
+
+// Amounts below this are not report-level figures (prices, per-patient costs)
+const MIN_CHECKED_USD = 1_000_000;
+
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, mn: 1e6, million: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+// Strategy labels as the prompt writes them; lower-case "generic" is too often descriptive
+const STRATEGY_PATTERNS: Array<[CommercialStrategy, RegExp]> = [
+  ['GENERIC', /\bGENERIC\b/],
+  ['LICENSE', /\bLICENSE\b|\bin-licens\w*/i],
+  ['WAIT', /\bWAIT\b/],
+  ['DROP', /\bDROP\b|\bnot recommended\b/i],
+];
+
+// Sentences that contrast or negate ("unlike X, Y is GENERIC") are not read as claims
+const NEGATION = /\b(?:no|not|never|unlike|rather than|instead of|versus|vs)\b/i;
+
+/**
+ * Summary Verifier - fact-checks an LLM-written executive summary against the report
+ *
+ * Extracts the claims the summary makes and reconciles each with the payload:
+ * - USD amounts ($2.1B, USD 450 million) against market sizes and revenue estimates
+ * - patient counts (12.5M patients) against epidemiology and drug utilization figures
+ * - percentages against the epidemiology / utilization rates
+ * - counts ("3 GENERIC opportunities", "5 molecules") against the decision summary
+ * - molecule names against the molecules the report covers
+ * - strategy claims (one molecule + one strategy in a sentence) against its decision
+ *
+ * Figures may be rounded to the precision they are written with. Invented figures,
+ * unknown molecules and contradicted strategies are major; anything else is minor.
+ */
+export function verifySummary(
+  summary: string,
+  payload: ReportPayload,
+  knownMolecules: string[]
+): SummaryVerification {
+  const facts = collectFacts(payload);
+  const mismatches: SummaryMismatch[] = [];
+  let checkedClaims = 0;
+
+  // USD amounts
+  for (const match of summary.matchAll(/(?:\$|US\$|USD\s?)\s?(\d[\d,]*(?:\.\d+)?)\s*(billion|bn|b|million|mn|m|thousand|k)?\b/gi)) {
+    const claim = parseFigure(match[1], match[2]);
+    if (claim.value < MIN_CHECKED_USD) continue;
+    checkedClaims++;
+    const result = reconcile(claim, facts.moneyUSD);
+    if (result) {
+      mismatches.push({
+        type: 'market_size',
+        claim: match[0].trim(),
+        detail: result.nearest !== undefined
+          ? `closest report figure is ${formatUSD(result.nearest)}`
+          : 'no market or revenue figure in the report',
+        severity: result.severity,
+      });
+    }
+  }
+
+  // Patient counts
+  const patientPattern = /(\d[\d,]*(?:\.\d+)?)\s*(million|m|thousand|k|billion|bn)?\s+(?:[a-z-]+\s+){0,2}?(?:patients|people|adults|individuals|cases|sufferers)\b/gi;
+  for (const match of summary.matchAll(patientPattern)) {
+    const claim = parseFigure(match[1], match[2]);
+    if (claim.value < 1000) continue;
+    checkedClaims++;
+    const result = reconcile(claim, facts.patients);
+    if (result) {
+      mismatches.push({
+        type: 'patient_count',
+        claim: match[0].trim(),
+        detail: result.nearest !== undefined
+          ? `closest report figure is ${formatCount(result.nearest)}`
+          : 'no patient figures in the report',
+        severity: result.severity,
+      });
+    }
+  }
+
+  // Percentages - often derived (e.g. untreated share), so never major
+  for (const match of summary.matchAll(/(\d+(?:\.\d+)?)\s?%/g)) {
+    checkedClaims++;
+    const value = parseFloat(match[1]);
+    const precision = Math.max(1, decimalStep(match[1]) / 2);
+    if (!facts.percentages.some(p => Math.abs(p - value) <= precision)) {
+      mismatches.push({ type: 'percentage', claim: match[0], detail: 'not a rate in the report data', severity: 'minor' });
+    }
+  }
+
+  // Counts of molecules / opportunities, optionally per strategy
+  const countPattern = /\b(\d+|one|two|three|four|five|six|seven|eight|nine|ten)\s+(GENERIC|LICENSE|licensing|WAIT|DROP)?\s*(?:molecules?|opportunit(?:y|ies)|candidates?|assets?)\b/gi;
+  for (const match of summary.matchAll(countPattern)) {
+    checkedClaims++;
+    const value = NUMBER_WORDS[match[1].toLowerCase()] ?? parseInt(match[1], 10);
+    const strategy = match[2] ? (match[2].toUpperCase().startsWith('LICENS') ? 'LICENSE' : match[2].toUpperCase()) : null;
+    if (strategy) {
+      const expected = facts.strategyCounts[strategy as CommercialStrategy];
+      if (value !== expected) {
+        mismatches.push({ type: 'count', claim: match[0], detail: `report has ${expected} ${strategy}`, severity: 'major' });
+      }
+    } else if (!facts.counts.includes(value)) {
+      mismatches.push({ type: 'count', claim: match[0], detail: `report covers ${facts.counts[0]} molecule(s)`, severity: 'minor' });
+    }
+  }
+
+  // Molecules the report does not cover
+  const covered = new Set(facts.molecules.map(m => m.toLowerCase()));
+  for (const molecule of knownMolecules) {
+    if (covered.has(molecule.toLowerCase()) || !containsWord(summary, molecule)) continue;
+    checkedClaims++;
+    mismatches.push({ type: 'molecule', claim: molecule, detail: 'not analyzed in this report', severity: 'major' });
+  }
+
+  // Strategy claims: sentences naming exactly one analyzed molecule and one strategy
+  for (const sentence of summary.split(/(?<=[.!?])\s+|\n+/)) {
+    const molecules = [...facts.strategies.keys()].filter(m => containsWord(sentence, m));
+    const strategies = STRATEGY_PATTERNS.filter(([, pattern]) => pattern.test(sentence)).map(([s]) => s);
+    if (molecules.length !== 1 || strategies.length !== 1) continue;
+    if (NEGATION.test(sentence.replace(/not recommended/gi, ''))) continue;
+
+    checkedClaims++;
+    const allowed = facts.strategies.get(molecules[0])!;
+    if (!allowed.includes(strategies[0])) {
+      mismatches.push({
+        type: 'strategy',
+        claim: sentence.trim().slice(0, 160),
+        detail: `${molecules[0]} is ${allowed[0]} in the report, not ${strategies[0]}`,
+        severity: 'major',
+      });
+    }
+  }
+
+  const majors = mismatches.filter(m => m.severity === 'major').length;
+  return {
+    checkedClaims,
+    mismatches,
+    severe: majors >= SEVERE_MAJOR_MISMATCHES || mismatches.length - majors >= SEVERE_MINOR_MISMATCHES,
+    replaced: false,
+  };
+}
+
+interface ReportFacts {
+  moneyUSD: number[];
+  patients: number[];
+  percentages: number[];
+  counts: number[];
+  strategyCounts: Record<CommercialStrategy, number>;
+  molecules: string[];
+  // Overall strategy first, then the per-country ones
+  strategies: Map<string, CommercialStrategy[]>;
+}
+
+// Per-country market sizes and their total; reports from before multi-market support only have IN / US
+function marketSizes(entry: { marketSizeByCountry?: Record<string, number>; marketSizeIN: number; marketSizeUS: number }): number[] {
+  const sizes = Object.values(entry.marketSizeByCountry ?? { IN: entry.marketSizeIN, US: entry.marketSizeUS });
+  return [...sizes, sizes.reduce((sum, size) => sum + size, 0)];
+}
+
+function collectFacts(payload: ReportPayload): ReportFacts {
+  const market = payload.marketOverview;
+  const moneyUSD = [
+    market.totalAddressableMarketUSD,
+    ...[...market.byIndication, ...(payload.areaSections || [])].flatMap(marketSizes),
+    ...payload.decisions.flatMap(d => [
+      ...d.recommendations.map(r => r.estimatedRevenueUSD),
+      d.recommendations.reduce((sum, r) => sum + r.estimatedRevenueUSD, 0),
+    ]),
+  ];
+
+  const epi = payload.epidemiologyOverview;
+  const diseases = epi?.diseases || [];
+  const utilization = epi?.drugUtilization || [];
+  const patients = [
+    ...diseases.flatMap(d => [
+      d.prevalenceTotal,
+      d.incidenceAnnual,
+      d.mortalityAnnual,
+      d.prevalenceTotal * d.diagnosedPercent / 100,
+      d.prevalenceTotal * d.treatedPercent / 100,
+      d.prevalenceTotal * (100 - d.treatedPercent) / 100,
+      d.prevalenceTotal * (100 - d.diagnosedPercent) / 100,
+    ]),
+    ...utilization.flatMap(u => [u.totalPatientsOnDrug, u.newPatientsAnnual ?? 0]),
+  ];
+  // Combined markets (e.g. "45M patients across India and the US")
+  for (const disease of new Set(diseases.map(d => d.disease))) {
+    patients.push(diseases.filter(d => d.disease === disease).reduce((sum, d) => sum + d.prevalenceTotal, 0));
+  }
+
+  const percentages = [
+    ...diseases.flatMap(d => [
+      d.diagnosedPercent, d.treatedPercent, 100 - d.diagnosedPercent, 100 - d.treatedPercent,
+      d.controlledPercent, d.malePercent, d.femalePercent, d.age65PlusPercent,
+      d.prevalenceRate, d.incidenceRate, d.mortalityRate,
+      d.prevalenceChangeYoY, d.incidenceChangeYoY, d.mortalityChangeYoY,
+    ]),
+    ...utilization.flatMap(u => [u.marketSharePercent, u.discontinuationRate, u.patientCountChangeYoY]),
+  ].filter((p): p is number => typeof p === 'number');
+
+  const strategies = new Map<string, CommercialStrategy[]>();
+  for (const d of payload.decisions) {
+    strategies.set(d.molecule, [d.overallStrategy, ...d.recommendations.map(r => r.strategy)]);
+  }
+
+  const summary = payload.strategySummary;
+  const strategyCounts = {
+    GENERIC: summary.generic.length,
+    LICENSE: summary.license.length,
+    WAIT: summary.wait.length,
+    DROP: summary.drop.length,
+  };
+  // Reports from before moleculeNames was stored only list molecules in decisions and FTO
+  const analyzed = payload.moleculeNames ?? [
+    ...payload.decisions.map(d => d.molecule),
+    ...(payload.ftoOverview || []).map(f => f.molecule),
+  ];
+  const molecules = [...new Set([...analyzed, ...(payload.filteredMolecules || []).map(f => f.molecule)])];
+
+  return {
+    moneyUSD: moneyUSD.filter(v => v > 0),
+    patients: patients.filter(v => v > 0),
+    percentages,
+    counts: [new Set(analyzed).size, payload.decisions.length, ...Object.values(strategyCounts), molecules.length],
+    strategyCounts,
+    molecules,
+    strategies,
+  };
+}
+
+// "2.1" + "billion" -> value 2.1e9, rounding step 0.1e9
+function parseFigure(digits: string, unit?: string): { value: number; step: number } {
+  const multiplier = unit ? UNIT_MULTIPLIERS[unit.toLowerCase()] ?? 1 : 1;
+  const number = digits.replace(/,/g, '');
+  return { value: parseFloat(number) * multiplier, step: decimalStep(number) * multiplier };
+}
+
+// Place value of the last written digit: "2" -> 1, "2.15" -> 0.01
+function decimalStep(number: string): number {
+  const decimals = number.includes('.') ? number.split('.')[1].length : 0;
+  return Math.pow(10, -decimals);
+}
+
+/**
+ * Null when the claim matches a fact, allowing for rounding to the written precision.
+ * Otherwise the nearest fact and the severity of the miss.
+ */
+function reconcile(
+  claim: { value: number; step: number },
+  facts: number[]
+): { nearest?: number; severity: 'minor' | 'major' } | null {
+  if (facts.length === 0) return { severity: 'major' };
+
+  let nearest = facts[0];
+  for (const fact of facts) {
+    if (Math.abs(fact - claim.value) < Math.abs(nearest - claim.value)) nearest = fact;
+  }
+  const difference = Math.abs(nearest - claim.value);
+  if (difference <= claim.step / 2 || difference <= nearest * MATCH_TOLERANCE) return null;
+
+  return { nearest, severity: difference > nearest * INVENTED_TOLERANCE ? 'major' : 'minor' };
+}
+
+function containsWord(text: string, word: string): boolean {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![a-z0-9])${escaped}(?![a-z0-9])`, 'i').test(text);
+}
+
+function formatCount(value: number): string {
+  return value >= 1_000_000 ? `${(value / 1_000_000).toFixed(1)}M` : `${(value / 1000).toFixed(0)}K`;
+}
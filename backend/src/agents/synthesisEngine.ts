@@ -1,4 +1,5 @@
-import { callGemini, extractJson } from '../services/geminiClient';
+import { callLlm, extractJson } from '../services/llmClient';
+import { userQueryBlock, USER_QUERY_NOTICE } from '../services/llm/userInput';
 import { jobService } from '../services/jobService';
 import { 
   ClinicalAgentResult, 
@@ -306,7 +307,7 @@ export async function runSynthesisEngine(
       };
     });
 
-    // Prepare prompt for Gemini
+    // Prepare prompt for the LLM
     const moleculeSummary = enhancedFeatures.slice(0, 15).map(f => ({
       molecule: f.molecule,
       trials: f.trialCount,
@@ -319,8 +320,9 @@ export async function runSynthesisEngine(
     }));
 
     const prompt = `You are a pharmaceutical market analyst. Analyze these molecules and rank them based on the user's query.
+${USER_QUERY_NOTICE}
 
-User Query: "${queryText}"
+${userQueryBlock(queryText)}
 
 Molecule Data:
 ${JSON.stringify(moleculeSummary, null, 2)}
@@ -347,7 +349,7 @@ Return ONLY the JSON array, no markdown.`;
     let opportunities: Opportunity[] = [];
 
     try {
-      const response = await callGemini(prompt);
+      const response = await callLlm(prompt, { purpose: 'synthesis', jobId });
       const jsonStr = extractJson(response);
       const parsed = JSON.parse(jsonStr);
       
@@ -369,7 +371,7 @@ Return ONLY the JSON array, no markdown.`;
         });
       }
     } catch (parseError) {
-      console.error('Failed to parse Gemini response, using heuristic ranking');
+      console.error('Failed to parse LLM response, using heuristic ranking');
       
       // Fallback: rank by score breakdown total
       const sorted = enhancedFeatures
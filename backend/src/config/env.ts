@@ -3,7 +3,28 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 export const config = {
+  // LLM backend: 'gemini', 'openai' (any OpenAI-compatible endpoint) or 'stub' (offline, canned output)
+  llmProvider: process.env.LLM_PROVIDER || 'gemini',
+  // Model name; required for 'openai', tried first for 'gemini'
+  llmModel: process.env.LLM_MODEL || '',
+  // Repair attempts when structured (JSON) output fails validation
+  llmMaxRepairs: parseInt(process.env.LLM_MAX_REPAIRS || '2', 10),
   geminiApiKey: process.env.GEMINI_API_KEY || '',
+  openaiBaseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+  openaiApiKey: process.env.OPENAI_API_KEY || '',
+  // USD per million tokens, overriding the built-in list prices (needed to cost 'openai' models)
+  llmPriceInputPerM: process.env.LLM_PRICE_INPUT_PER_M ? parseFloat(process.env.LLM_PRICE_INPUT_PER_M) : undefined,
+  llmPriceOutputPerM: process.env.LLM_PRICE_OUTPUT_PER_M ? parseFloat(process.env.LLM_PRICE_OUTPUT_PER_M) : undefined,
+  // Estimated LLM spend allowed per UTC day; new queries get a 429 once it is used up (0 = no limit)
+  llmDailyBudgetUSD: parseFloat(process.env.LLM_DAILY_BUDGET_USD || '0'),
   databaseUrl: process.env.DATABASE_URL || 'file:./dev.db',
   port: parseInt(process.env.PORT || '3001', 10),
+  // Job queue: max pipelines running at once, and how often an interrupted job may be retried
+  jobConcurrency: parseInt(process.env.JOB_CONCURRENCY || '2', 10),
+  jobMaxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '2', 10),
+  jobPollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000', 10),
+  // When set, /api/admin requests must send it in the X-Admin-Token header. Unset, admin endpoints
+  // are open with NODE_ENV=development; otherwise only reads that expose no client data are served
+  adminToken: process.env.ADMIN_TOKEN || '',
+  isDevelopment: process.env.NODE_ENV === 'development',
 };
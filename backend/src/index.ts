@@ -4,9 +4,20 @@ import dotenv from 'dotenv';
 import { config } from './config/env';
 import queryRoutes from './routes/queryRoutes';
 import reportRoutes from './routes/reportRoutes';
+import adminRoutes from './routes/adminRoutes';
+import analysisRoutes from './routes/analysisRoutes';
+import indicationRoutes from './routes/indicationRoutes';
+import moleculeRoutes from './routes/moleculeRoutes';
+import countryRoutes from './routes/countryRoutes';
+import usageRoutes from './routes/usageRoutes';
+import { jobQueue } from './services/jobQueue';
+import { getLlmProvider } from './services/llmClient';
 
 dotenv.config();
 
+// Fail fast on a misconfigured LLM provider
+const llm = getLlmProvider();
+
 const app = express();
 
 // Middleware
@@ -15,14 +26,25 @@ app.use(express.json());
 
 // Health check
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  res.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    queue: jobQueue.getStats(),
+    llm: { provider: llm.name, model: llm.model },
+  });
 });
 
 // Routes
 app.use('/api/query', queryRoutes);
+app.use('/api/analyses', analysisRoutes);
 app.use('/api/jobs', queryRoutes);
 app.use('/api/jobs', reportRoutes);
 app.use('/api/reports', reportRoutes);
+app.use('/api/indications', indicationRoutes);
+app.use('/api/molecules', moleculeRoutes);
+app.use('/api/countries', countryRoutes);
+app.use('/api/usage', usageRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Error handling
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -34,12 +56,35 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 const PORT = config.port;
 app.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`);
+  console.log(`🤖 LLM provider: ${llm.name} (${llm.model})`);
   console.log(`📊 API endpoints:`);
   console.log(`   POST http://localhost:${PORT}/api/query`);
+  console.log(`   POST http://localhost:${PORT}/api/query/parse`);
+  console.log(`   POST http://localhost:${PORT}/api/analyses`);
   console.log(`   GET  http://localhost:${PORT}/api/jobs/:id`);
   console.log(`   GET  http://localhost:${PORT}/api/jobs/:id/trace`);
+  console.log(`   GET  http://localhost:${PORT}/api/jobs/:id/events`);
+  console.log(`   GET  http://localhost:${PORT}/api/jobs/:id/stages/:stage`);
   console.log(`   GET  http://localhost:${PORT}/api/jobs/:id/report`);
+  console.log(`   GET  http://localhost:${PORT}/api/jobs/:id/llm-calls`);
+  console.log(`   POST http://localhost:${PORT}/api/jobs/:id/replay`);
+  console.log(`   GET  http://localhost:${PORT}/api/jobs/:id/compare/:otherId`);
   console.log(`   GET  http://localhost:${PORT}/api/reports/:id/pdf`);
+  console.log(`   GET  http://localhost:${PORT}/api/indications`);
+  console.log(`   GET  http://localhost:${PORT}/api/molecules`);
+  console.log(`   GET  http://localhost:${PORT}/api/molecules/:name/exclusivities`);
+  console.log(`   GET  http://localhost:${PORT}/api/molecules/:name/litigation`);
+  console.log(`   GET  http://localhost:${PORT}/api/countries`);
+  console.log(`   GET  http://localhost:${PORT}/api/usage`);
+  console.log(`   GET  http://localhost:${PORT}/api/admin/cache`);
+  console.log(`   GET  http://localhost:${PORT}/api/admin/blocked-queries`);
+  console.log(`   POST http://localhost:${PORT}/api/admin/exclusivities/import`);
+  console.log(`   POST http://localhost:${PORT}/api/admin/litigation`);
+  console.log(`   POST http://localhost:${PORT}/api/admin/litigation/import`);
+
+  jobQueue.start().catch(error => {
+    console.error('Failed to start job queue:', error);
+  });
 });
 
 export default app;
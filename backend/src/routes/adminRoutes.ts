@@ -0,0 +1,399 @@
+import { Router, RequestHandler } from 'express';
+import { AnalysisCache, BlockedQuery } from '@prisma/client';
+import { config } from '../config/env';
+import { cacheService, DataFingerprints } from '../services/cacheService';
+import { indicationService } from '../services/indicationService';
+import { moleculeService } from '../services/moleculeService';
+import { queryGuardService } from '../services/queryGuardService';
+import { countryService } from '../services/countryService';
+import { exclusivityService } from '../services/exclusivityService';
+import { litigationService } from '../services/litigationService';
+import { AliasRequestSchema, IndicationRequestSchema } from '../types/indication';
+import { MoleculeAliasRequestSchema } from '../types/molecule';
+import { CountryRequestSchema } from '../types/country';
+import { DrugApplicationRequestSchema } from '../types/exclusivity';
+import { LitigationCaseSchema } from '../types/litigation';
+import { toIndicationView } from './indicationRoutes';
+import { toCountryView } from './countryRoutes';
+import { toLitigationView } from './moleculeRoutes';
+
+const router = Router();
+
+// With ADMIN_TOKEN set, X-Admin-Token must match it. Without one, admin access is only
+// open in local development (NODE_ENV=development)
+const requireAdminToken: RequestHandler = (req, res, next) => {
+  if (config.adminToken) {
+    if (req.get('x-admin-token') !== config.adminToken) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    return next();
+  }
+  if (config.isDevelopment) return next();
+  res.status(403).json({ error: 'Admin access requires ADMIN_TOKEN (or NODE_ENV=development locally)' });
+};
+
+// Writes change FTO and decision inputs, so they always go through requireAdminToken.
+// Reads do too once a token is set; without one, routes exposing client data opt in themselves
+router.use((req, res, next) => {
+  if (!config.adminToken && (req.method === 'GET' || req.method === 'HEAD')) return next();
+  requireAdminToken(req, res, next);
+});
+
+// GET /api/admin/cache - List cache entries and which ones are stale
+router.get('/cache', async (req, res) => {
+  try {
+    const current = await cacheService.getFingerprints();
+    const entries = await cacheService.listEntries();
+
+    res.json({
+      fingerprints: current,
+      entries: entries.map(entry => toEntryView(entry, current)),
+    });
+  } catch (error) {
+    console.error('List cache error:', error);
+    res.status(500).json({ error: 'Failed to list cache entries' });
+  }
+});
+
+// GET /api/admin/cache/:key - Inspect a single entry
+router.get('/cache/:key', async (req, res) => {
+  try {
+    const entry = await cacheService.getEntry(req.params.key);
+
+    if (!entry) {
+      return res.status(404).json({ error: 'Cache entry not found' });
+    }
+
+    const current = await cacheService.getFingerprints();
+    res.json({
+      ...toEntryView(entry, current),
+      fingerprints: JSON.parse(entry.fingerprints),
+    });
+  } catch (error) {
+    console.error('Get cache entry error:', error);
+    res.status(500).json({ error: 'Failed to retrieve cache entry' });
+  }
+});
+
+// DELETE /api/admin/cache/:key - Purge a single entry
+router.delete('/cache/:key', async (req, res) => {
+  try {
+    const deleted = await cacheService.delete(req.params.key);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Cache entry not found' });
+    }
+
+    res.json({ deleted: 1 });
+  } catch (error) {
+    console.error('Delete cache entry error:', error);
+    res.status(500).json({ error: 'Failed to delete cache entry' });
+  }
+});
+
+// DELETE /api/admin/cache - Purge all entries (?stale=true: only stale ones)
+router.delete('/cache', async (req, res) => {
+  try {
+    const deleted = await cacheService.purge(req.query.stale === 'true');
+    res.json({ deleted });
+  } catch (error) {
+    console.error('Purge cache error:', error);
+    res.status(500).json({ error: 'Failed to purge cache' });
+  }
+});
+
+// POST /api/admin/indications - Add an indication (with optional aliases) to the ontology
+router.post('/indications', async (req, res) => {
+  try {
+    const validation = IndicationRequestSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validation.error.issues,
+      });
+    }
+
+    const input = validation.data;
+
+    if (await indicationService.findByName(input.name)) {
+      return res.status(409).json({ error: 'Indication already exists' });
+    }
+    for (const { alias } of input.aliases) {
+      const owner = await indicationService.findAliasOwner(alias);
+      if (owner) {
+        return res.status(409).json({ error: `Alias '${alias}' already belongs to ${owner}` });
+      }
+    }
+
+    const created = await indicationService.createIndication(input);
+    res.status(201).json(toIndicationView(created));
+  } catch (error) {
+    console.error('Create indication error:', error);
+    res.status(500).json({ error: 'Failed to create indication' });
+  }
+});
+
+// POST /api/admin/indications/:id/aliases - Add a synonym / abbreviation / broad term
+router.post('/indications/:id/aliases', async (req, res) => {
+  try {
+    const validation = AliasRequestSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validation.error.issues,
+      });
+    }
+
+    const outcome = await indicationService.addAlias(req.params.id, validation.data);
+
+    if (outcome.status === 'indication_not_found') {
+      return res.status(404).json({ error: 'Indication not found' });
+    }
+    if (outcome.status === 'alias_exists') {
+      return res.status(409).json({ error: `Alias already belongs to ${outcome.indication}` });
+    }
+
+    res.status(201).json({
+      alias: outcome.alias.alias,
+      type: outcome.alias.type,
+      indicationId: outcome.alias.indicationId,
+    });
+  } catch (error) {
+    console.error('Add alias error:', error);
+    res.status(500).json({ error: 'Failed to add alias' });
+  }
+});
+
+// DELETE /api/admin/indications/aliases/:alias - Remove an alias
+router.delete('/indications/aliases/:alias', async (req, res) => {
+  try {
+    const deleted = await indicationService.removeAlias(req.params.alias);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Alias not found' });
+    }
+
+    res.json({ deleted: 1 });
+  } catch (error) {
+    console.error('Delete alias error:', error);
+    res.status(500).json({ error: 'Failed to delete alias' });
+  }
+});
+
+// POST /api/admin/molecules/:name/aliases - Add a brand / synonym / research code for a molecule
+router.post('/molecules/:name/aliases', async (req, res) => {
+  try {
+    const validation = MoleculeAliasRequestSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validation.error.issues,
+      });
+    }
+
+    const outcome = await moleculeService.addAlias(req.params.name, validation.data);
+
+    if (outcome.status === 'molecule_not_found') {
+      return res.status(404).json({ error: 'Molecule not found' });
+    }
+    if (outcome.status === 'alias_exists') {
+      return res.status(409).json({ error: `Alias already belongs to ${outcome.molecule}` });
+    }
+
+    res.status(201).json({
+      alias: outcome.alias.alias,
+      type: outcome.alias.type,
+      molecule: outcome.alias.moleculeName,
+    });
+  } catch (error) {
+    console.error('Add molecule alias error:', error);
+    res.status(500).json({ error: 'Failed to add alias' });
+  }
+});
+
+// DELETE /api/admin/molecules/aliases/:alias - Remove a molecule alias
+router.delete('/molecules/aliases/:alias', async (req, res) => {
+  try {
+    const deleted = await moleculeService.removeAlias(req.params.alias);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Alias not found' });
+    }
+
+    res.json({ deleted: 1 });
+  } catch (error) {
+    console.error('Delete molecule alias error:', error);
+    res.status(500).json({ error: 'Failed to delete alias' });
+  }
+});
+
+// POST /api/admin/molecules/:name/applications - Link an FDA application (NDA) so its exclusivities apply
+router.post('/molecules/:name/applications', async (req, res) => {
+  try {
+    const validation = DrugApplicationRequestSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validation.error.issues,
+      });
+    }
+
+    const outcome = await exclusivityService.linkApplication(req.params.name, validation.data);
+
+    if (outcome.status === 'molecule_not_found') {
+      return res.status(404).json({ error: 'Molecule not found' });
+    }
+    if (outcome.status === 'application_exists') {
+      return res.status(409).json({ error: `Application already belongs to ${outcome.molecule}` });
+    }
+
+    res.status(201).json({
+      applNo: outcome.application.applNo,
+      tradeName: outcome.application.tradeName,
+      molecule: outcome.application.moleculeName,
+      exclusivitiesLinked: outcome.exclusivitiesLinked,
+    });
+  } catch (error) {
+    console.error('Link application error:', error);
+    res.status(500).json({ error: 'Failed to link application' });
+  }
+});
+
+// POST /api/admin/exclusivities/import - Reload exclusivities from the bundled Orange Book files
+router.post('/exclusivities/import', async (req, res) => {
+  try {
+    const result = await exclusivityService.importOrangeBook();
+    res.json(result);
+  } catch (error) {
+    console.error('Import exclusivities error:', error);
+    res.status(500).json({ error: 'Failed to import exclusivities' });
+  }
+});
+
+// POST /api/admin/litigation - Record a patent case or challenge (outcome, patents invalidated / upheld)
+router.post('/litigation', async (req, res) => {
+  try {
+    const validation = LitigationCaseSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validation.error.issues,
+      });
+    }
+
+    const outcome = await litigationService.createCase(validation.data);
+
+    if (outcome.status === 'molecule_not_found') {
+      return res.status(404).json({ error: 'Molecule not found' });
+    }
+    if (outcome.status === 'case_exists') {
+      return res.status(409).json({ error: `Case ${validation.data.caseNumber} (${validation.data.court}) already exists` });
+    }
+
+    res.status(201).json(toLitigationView(outcome.litigation));
+  } catch (error) {
+    console.error('Create litigation error:', error);
+    res.status(500).json({ error: 'Failed to create litigation case' });
+  }
+});
+
+// POST /api/admin/litigation/import - Load cases from data/curated/patent-litigation.json (updates known cases)
+router.post('/litigation/import', async (req, res) => {
+  try {
+    const outcome = await litigationService.importCurated();
+
+    if (outcome.status === 'file_not_found') {
+      return res.status(404).json({ error: 'Curated litigation file not found' });
+    }
+
+    res.json(outcome.result);
+  } catch (error) {
+    console.error('Import litigation error:', error);
+    res.status(500).json({ error: 'Failed to import litigation' });
+  }
+});
+
+// POST /api/admin/countries - Add a market (code, currency, regulator, patent office, generic pathway)
+router.post('/countries', async (req, res) => {
+  try {
+    const validation = CountryRequestSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validation.error.issues,
+      });
+    }
+
+    const input = validation.data;
+
+    for (const term of [input.code, input.name, ...input.aliases]) {
+      const existing = await countryService.resolveCountry(term);
+      if (existing) {
+        return res.status(409).json({ error: `'${term}' already refers to ${existing.name} (${existing.code})` });
+      }
+    }
+
+    const created = await countryService.createCountry(input);
+    res.status(201).json(toCountryView(created));
+  } catch (error) {
+    console.error('Create country error:', error);
+    res.status(500).json({ error: 'Failed to create country' });
+  }
+});
+
+// GET /api/admin/blocked-queries?limit=100 - Queries rejected as prompt injection or off-topic, newest first
+// Includes client IPs, so it needs the admin token even for a read
+router.get('/blocked-queries', requireAdminToken, async (req, res) => {
+  try {
+    const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+      return res.status(400).json({ error: 'Invalid request', details: 'Query parameter "limit" must be an integer from 1 to 1000' });
+    }
+
+    const blocked = await queryGuardService.listBlocked(limit);
+    res.json({ blocked: blocked.map(toBlockedQueryView) });
+  } catch (error) {
+    console.error('List blocked queries error:', error);
+    res.status(500).json({ error: 'Failed to list blocked queries' });
+  }
+});
+
+function toBlockedQueryView(entry: BlockedQuery) {
+  return {
+    id: entry.id,
+    queryText: entry.queryText,
+    verdict: entry.verdict,
+    reasons: JSON.parse(entry.reasons),
+    endpoint: entry.endpoint,
+    clientIp: entry.clientIp,
+    createdAt: entry.createdAt,
+  };
+}
+
+function toEntryView(entry: AnalysisCache, current: DataFingerprints) {
+  const staleTables = cacheService.staleTablesFor(entry, current);
+
+  return {
+    key: entry.key,
+    version: entry.version,
+    plan: JSON.parse(entry.plan),
+    filterCriteria: JSON.parse(entry.filterCriteria),
+    molecules: JSON.parse(entry.molecules),
+    reportId: entry.reportId,
+    jobId: entry.jobId,
+    hits: entry.hits,
+    createdAt: entry.createdAt,
+    lastHitAt: entry.lastHitAt,
+    stale: staleTables.length > 0,
+    staleTables,
+  };
+}
+
+export default router;
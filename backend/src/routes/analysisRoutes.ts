@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { jobQueue } from '../services/jobQueue';
+import { planService, describePlan } from '../services/planService';
+import { AnalysisRequestSchema } from '../types/query';
+import { requireLlmBudget } from './usageRoutes';
+
+const router = Router();
+
+// POST /api/analyses - Start an analysis from an explicit plan (no natural-language parsing)
+router.post('/', requireLlmBudget, async (req, res) => {
+  try {
+    const validation = AnalysisRequestSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validation.error.issues,
+      });
+    }
+
+    const { plan, priority, bypassCache } = validation.data;
+
+    // Resolve names against the reference data so the job records exactly what runs
+    const resolved = await planService.resolvePlan(plan);
+
+    if (resolved.unknownMolecules.length > 0) {
+      return res.status(400).json({
+        error: 'Unknown molecules',
+        details: resolved.unknownMolecules,
+      });
+    }
+    if (resolved.unknownCountries.length > 0) {
+      return res.status(400).json({
+        error: 'Unknown countries',
+        details: resolved.unknownCountries,
+      });
+    }
+
+    const job = await jobQueue.enqueue({
+      queryText: `Structured analysis: ${describePlan(resolved.plan)}`,
+      priority,
+      options: bypassCache ? { bypassCache } : undefined,
+      plan: resolved.plan,
+    });
+
+    res.status(201).json({
+      jobId: job.id,
+      status: job.status,
+      plan: resolved.plan,
+    });
+  } catch (error) {
+    console.error('Analysis route error:', error);
+    res.status(500).json({ error: 'Failed to create analysis' });
+  }
+});
+
+export default router;
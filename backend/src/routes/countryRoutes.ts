@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { Country } from '@prisma/client';
+import { countryService, aliasesOf } from '../services/countryService';
+
+const router = Router();
+
+// GET /api/countries - Markets the pipeline can analyze, with regulator and generic pathway
+router.get('/', async (req, res) => {
+  try {
+    const countries = await countryService.listCountries();
+    res.json(countries.map(toCountryView));
+  } catch (error) {
+    console.error('List countries error:', error);
+    res.status(500).json({ error: 'Failed to list countries' });
+  }
+});
+
+export function toCountryView(country: Country) {
+  return {
+    code: country.code,
+    name: country.name,
+    currency: country.currency,
+    regulator: country.regulator,
+    patentOffice: country.patentOffice,
+    genericPathway: country.genericPathway,
+    aliases: aliasesOf(country),
+  };
+}
+
+export default router;
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { indicationService, IndicationWithAliases } from '../services/indicationService';
+
+const router = Router();
+
+// GET /api/indications - The indication ontology with aliases
+router.get('/', async (req, res) => {
+  try {
+    const indications = await indicationService.listIndications();
+    res.json(indications.map(toIndicationView));
+  } catch (error) {
+    console.error('List indications error:', error);
+    res.status(500).json({ error: 'Failed to list indications' });
+  }
+});
+
+// GET /api/indications/resolve?term=... - What a condition term resolves to
+router.get('/resolve', async (req, res) => {
+  try {
+    const term = typeof req.query.term === 'string' ? req.query.term.trim() : '';
+
+    if (!term) {
+      return res.status(400).json({ error: 'Invalid request', details: 'Query parameter "term" is required' });
+    }
+
+    const resolved = await indicationService.resolveCondition(term);
+
+    if (!resolved) {
+      return res.status(404).json({ error: 'Unknown condition', term });
+    }
+
+    res.json({ term, ...resolved });
+  } catch (error) {
+    console.error('Resolve indication error:', error);
+    res.status(500).json({ error: 'Failed to resolve condition' });
+  }
+});
+
+export function toIndicationView(indication: IndicationWithAliases) {
+  return {
+    id: indication.id,
+    name: indication.name,
+    therapeuticArea: indication.therapeuticArea,
+    icd10Code: indication.icd10Code,
+    meshId: indication.meshId,
+    aliases: indication.aliases.map(a => ({ alias: a.alias, type: a.type })),
+  };
+}
+
+export default router;
@@ -0,0 +1,111 @@
+import { Router } from 'express';
+import { Exclusivity, PatentLitigation } from '@prisma/client';
+import { moleculeService, MoleculeWithAliases } from '../services/moleculeService';
+import { exclusivityService } from '../services/exclusivityService';
+import { litigationService, toLitigationCaseInfo } from '../services/litigationService';
+
+const router = Router();
+
+// GET /api/molecules - Curated molecules with the names they can be queried by
+router.get('/', async (req, res) => {
+  try {
+    const molecules = await moleculeService.listMolecules();
+    res.json(molecules.map(toMoleculeView));
+  } catch (error) {
+    console.error('List molecules error:', error);
+    res.status(500).json({ error: 'Failed to list molecules' });
+  }
+});
+
+// GET /api/molecules/resolve?name=... - What a molecule name, brand or misspelling resolves to
+router.get('/resolve', async (req, res) => {
+  try {
+    const name = typeof req.query.name === 'string' ? req.query.name.trim() : '';
+
+    if (!name) {
+      return res.status(400).json({ error: 'Invalid request', details: 'Query parameter "name" is required' });
+    }
+
+    const match = await moleculeService.resolveMolecule(name);
+
+    if (!match) {
+      return res.status(404).json({ error: 'Unknown molecule', name });
+    }
+
+    res.json(match);
+  } catch (error) {
+    console.error('Resolve molecule error:', error);
+    res.status(500).json({ error: 'Failed to resolve molecule' });
+  }
+});
+
+// GET /api/molecules/:name/exclusivities - Regulatory exclusivities (FDA Orange Book), by expiry
+router.get('/:name/exclusivities', async (req, res) => {
+  try {
+    const molecule = await moleculeService.findByName(req.params.name);
+
+    if (!molecule) {
+      return res.status(404).json({ error: 'Molecule not found' });
+    }
+
+    const exclusivities = await exclusivityService.forMolecule(molecule.name);
+    res.json(exclusivities.map(toExclusivityView));
+  } catch (error) {
+    console.error('List exclusivities error:', error);
+    res.status(500).json({ error: 'Failed to list exclusivities' });
+  }
+});
+
+// GET /api/molecules/:name/litigation - Patent litigation and challenges, by filing date
+router.get('/:name/litigation', async (req, res) => {
+  try {
+    const molecule = await moleculeService.findByName(req.params.name);
+
+    if (!molecule) {
+      return res.status(404).json({ error: 'Molecule not found' });
+    }
+
+    const cases = await litigationService.forMolecule(molecule.name);
+    res.json(cases.map(toLitigationView));
+  } catch (error) {
+    console.error('List litigation error:', error);
+    res.status(500).json({ error: 'Failed to list litigation' });
+  }
+});
+
+export function toLitigationView(litigation: PatentLitigation) {
+  return {
+    id: litigation.id,
+    molecule: litigation.molecule,
+    ...toLitigationCaseInfo(litigation),
+    notes: litigation.notes,
+    dataSource: litigation.dataSource,
+  };
+}
+
+export function toExclusivityView(exclusivity: Exclusivity) {
+  return {
+    code: exclusivity.code,
+    type: exclusivity.type,
+    country: exclusivity.country,
+    applType: exclusivity.applType,
+    applNo: exclusivity.applNo,
+    productNo: exclusivity.productNo,
+    expiryDate: exclusivity.expiryDate.toISOString().split('T')[0],
+    active: exclusivity.expiryDate > new Date(),
+    dataSource: exclusivity.dataSource,
+  };
+}
+
+export function toMoleculeView(molecule: MoleculeWithAliases) {
+  return {
+    name: molecule.name,
+    genericName: molecule.genericName,
+    brandName: molecule.brandName,
+    indication: molecule.indication,
+    modality: molecule.modality,
+    aliases: molecule.aliases.map(a => ({ alias: a.alias, type: a.type })),
+  };
+}
+
+export default router;
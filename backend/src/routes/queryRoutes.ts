@@ -1,12 +1,31 @@
-import { Router } from 'express';
-import { jobService } from '../services/jobService';
-import { runMasterAgent } from '../agents/masterAgent';
-import { QueryRequestSchema } from '../types/query';
+import { Router, RequestHandler } from 'express';
+import { jobService, JobStreamEvent, TERMINAL_JOB_STATUSES, parseRunOptions } from '../services/jobService';
+import { jobQueue } from '../services/jobQueue';
+import { planService, parseStoredPlan, planConditions, planMolecules, describeFilters } from '../services/planService';
+import { llmCallService } from '../services/llmCallService';
+import { usageService } from '../services/usageService';
+import { requireLlmBudget } from './usageRoutes';
+import { jobComparisonService } from '../services/jobComparisonService';
+import { queryGuardService } from '../services/queryGuardService';
+import { QueryRequestSchema, ParseQueryRequestSchema, RerunRequestSchema, ReplayRequestSchema, PlanAmbiguity, QueryScreening } from '../types/query';
+import { STAGE_OUTPUT_NAMES } from '../agents/pipeline';
+import { previewMoleculeScope } from '../agents/moleculeScopeAgent';
 
 const router = Router();
 
+// 400 body for a query the guard rejected, worded so the user can rephrase
+function queryRejection(screening: QueryScreening) {
+  return {
+    error: screening.verdict === 'injection'
+      ? 'Query rejected: it contains instructions for the AI model rather than an analysis question'
+      : 'Query rejected: not a pharmaceutical BD question. Ask about a condition, molecule, patent, market or licensing opportunity',
+    verdict: screening.verdict,
+    details: screening.reasons,
+  };
+}
+
 // POST /api/query - Start a new analysis job
-router.post('/', async (req, res) => {
+router.post('/', requireLlmBudget, async (req, res) => {
   try {
     const validation = QueryRequestSchema.safeParse(req.body);
     
@@ -17,15 +36,33 @@ router.post('/', async (req, res) => {
       });
     }
 
-    const { queryText } = validation.data;
+    const { queryText, priority, plan } = validation.data;
 
-    // Create job
-    const job = await jobService.createJob({ queryText });
+    const screening = await queryGuardService.screen(queryText);
+    if (screening.verdict !== 'allowed') {
+      await queryGuardService.recordBlocked(queryText, screening, 'query', req.ip);
+      return res.status(400).json(queryRejection(screening));
+    }
 
-    // Start master agent asynchronously (don't await)
-    runMasterAgent(queryText, job.id).catch(error => {
-      console.error('Master agent execution error:', error);
-    });
+    // A plan confirmed via /parse runs as previewed instead of being re-parsed, once its
+    // names resolve against the reference data (as for /api/analyses)
+    const resolved = plan ? await planService.resolvePlan(plan) : null;
+
+    if (resolved && resolved.unknownMolecules.length > 0) {
+      return res.status(400).json({
+        error: 'Unknown molecules',
+        details: resolved.unknownMolecules,
+      });
+    }
+    if (resolved && resolved.unknownCountries.length > 0) {
+      return res.status(400).json({
+        error: 'Unknown countries',
+        details: resolved.unknownCountries,
+      });
+    }
+
+    // Persist the job; a queue worker picks it up when a slot is free
+    const job = await jobQueue.enqueue({ queryText, priority, plan: resolved?.plan });
 
     res.status(201).json({
       jobId: job.id,
@@ -37,6 +74,69 @@ router.post('/', async (req, res) => {
   }
 });
 
+// POST /api/query/parse - Preview how a query would be interpreted, without starting a job
+router.post('/parse', requireLlmBudget, async (req, res) => {
+  try {
+    const validation = ParseQueryRequestSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validation.error.issues,
+      });
+    }
+
+    const { queryText } = validation.data;
+
+    const screening = await queryGuardService.screen(queryText);
+    if (screening.verdict !== 'allowed') {
+      await queryGuardService.recordBlocked(queryText, screening, 'parse', req.ip);
+      return res.status(400).json(queryRejection(screening));
+    }
+
+    const { plan, planOrigin, ambiguities, moleculeMatches } = await planService.parseQuery(queryText);
+    const scope = await previewMoleculeScope(plan);
+
+    // Scope-level surprises: nothing recognised (everything runs) or nothing matched
+    const scopeNotes: PlanAmbiguity[] = [];
+    const conditions = planConditions(plan);
+    const molecules = planMolecules(plan);
+    if (conditions.length === 0 && molecules.length === 0) {
+      scopeNotes.push({
+        field: 'scope',
+        message: `no condition or molecule recognised; all ${scope.totalAvailable} molecules would be analyzed`,
+      });
+    } else if (scope.selectedMolecules.length === 0) {
+      scopeNotes.push({
+        field: 'scope',
+        message: `no molecules match ${[...conditions, ...molecules].join(', ')}`,
+      });
+    }
+
+    // Constraints only narrow the list once FTO / market data is in
+    const filters = describeFilters(plan.filters);
+    if (filters.length > 0) {
+      scopeNotes.push({
+        field: 'filters',
+        message: `${filters.join(', ')} - applied after FTO and market analysis, so fewer molecules may be decided on`,
+      });
+    }
+
+    res.json({
+      plan,
+      planOrigin,
+      selectedMolecules: scope.selectedMolecules,
+      filterCriteria: scope.filterCriteria,
+      totalAvailable: scope.totalAvailable,
+      ambiguities: [...ambiguities, ...scopeNotes],
+      moleculeMatches,
+    });
+  } catch (error) {
+    console.error('Parse query error:', error);
+    res.status(500).json({ error: 'Failed to parse query' });
+  }
+});
+
 // GET /api/jobs/:id - Get job status
 router.get('/:id', async (req, res) => {
   try {
@@ -51,8 +151,20 @@ router.get('/:id', async (req, res) => {
       status: job.status,
       queryText: job.queryText,
       resultId: job.resultId,
+      priority: job.priority,
+      attempts: job.attempts,
+      failureReason: job.failureReason,
+      rerunOfId: job.rerunOfId,
+      options: parseRunOptions(job.options),
+      plan: parseStoredPlan(job.plan),
+      planSource: job.planSource,
+      planOrigin: job.planOrigin,
+      llmUsage: await usageService.getJobUsage(job.id),
+      cancelRequested: !!job.cancelRequestedAt,
       createdAt: job.createdAt,
       updatedAt: job.updatedAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
     });
   } catch (error) {
     console.error('Get job error:', error);
@@ -60,6 +172,272 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// POST /api/jobs/:id/cancel - Cancel a queued job, or stop a running one at the next stage
+router.post('/:id/cancel', async (req, res) => {
+  try {
+    const outcome = await jobService.requestCancel(req.params.id);
+
+    if (outcome === 'not_found') {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (outcome === 'finished') {
+      return res.status(409).json({ error: 'Job has already finished' });
+    }
+
+    if (outcome === 'cancelling') {
+      await jobService.appendTraceEvent(req.params.id, {
+        agent: 'MasterAgent',
+        status: 'running',
+        timestamp: new Date().toISOString(),
+        detail: 'Cancellation requested - stopping after the current stage',
+      });
+    }
+
+    res.status(202).json({
+      jobId: req.params.id,
+      status: outcome === 'cancelled' ? 'cancelled' : 'running',
+      cancelRequested: true,
+    });
+  } catch (error) {
+    console.error('Cancel job error:', error);
+    res.status(500).json({ error: 'Failed to cancel job' });
+  }
+});
+
+// POST /api/jobs/:id/rerun - Re-execute a past query with optional overrides
+router.post('/:id/rerun', requireLlmBudget, async (req, res) => {
+  try {
+    const validation = RerunRequestSchema.safeParse(req.body ?? {});
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validation.error.issues,
+      });
+    }
+
+    const original = await jobService.getJob(req.params.id);
+
+    if (!original) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const { priority, ...overrides } = validation.data;
+    const { replayOf, ...originalOptions } = parseRunOptions(original.options);
+
+    // Overrides are layered on top of the original run's options; a rerun always calls the LLM live.
+    // Structured analyses rerun their submitted plan; query jobs re-parse queryText
+    const job = await jobQueue.enqueue({
+      queryText: original.queryText,
+      priority: priority ?? original.priority,
+      options: { ...originalOptions, ...overrides },
+      rerunOfId: original.id,
+      plan: original.planSource === 'request' ? parseStoredPlan(original.plan) ?? undefined : undefined,
+    });
+
+    res.status(201).json({
+      jobId: job.id,
+      status: job.status,
+      rerunOf: original.id,
+    });
+  } catch (error) {
+    console.error('Rerun job error:', error);
+    res.status(500).json({ error: 'Failed to rerun job' });
+  }
+});
+
+// A replay alone answers from recorded responses; the fresh run queued by `compare` calls the LLM
+const requireLlmBudgetToCompare: RequestHandler = (req, res, next) =>
+  req.body?.compare ? requireLlmBudget(req, res, next) : next();
+
+// POST /api/jobs/:id/replay - Re-run a job with its recorded LLM responses (optionally alongside a fresh run)
+router.post('/:id/replay', requireLlmBudgetToCompare, async (req, res) => {
+  try {
+    const validation = ReplayRequestSchema.safeParse(req.body ?? {});
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validation.error.issues,
+      });
+    }
+
+    const original = await jobService.getJob(req.params.id);
+
+    if (!original) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const sourceJobId = await llmCallService.recordedJobFor(original.id);
+
+    if (!sourceJobId) {
+      return res.status(409).json({ error: 'Job has no recorded LLM calls to replay' });
+    }
+
+    const { priority, compare } = validation.data;
+    const { replayOf, ...originalOptions } = parseRunOptions(original.options);
+    const rerun = {
+      queryText: original.queryText,
+      priority: priority ?? original.priority,
+      rerunOfId: original.id,
+      plan: original.planSource === 'request' ? parseStoredPlan(original.plan) ?? undefined : undefined,
+    };
+
+    // Both runs skip the cache so every stage really runs
+    const job = await jobQueue.enqueue({
+      ...rerun,
+      options: { ...originalOptions, bypassCache: true, replayOf: sourceJobId },
+    });
+    const fresh = compare
+      ? await jobQueue.enqueue({ ...rerun, options: { ...originalOptions, bypassCache: true } })
+      : null;
+
+    res.status(201).json({
+      jobId: job.id,
+      status: job.status,
+      replayOf: sourceJobId,
+      freshJobId: fresh?.id,
+      compareUrl: fresh ? `/api/jobs/${job.id}/compare/${fresh.id}` : undefined,
+    });
+  } catch (error) {
+    console.error('Replay job error:', error);
+    res.status(500).json({ error: 'Failed to replay job' });
+  }
+});
+
+// GET /api/jobs/:id/compare/:otherId - Diff two jobs' reports and LLM responses
+router.get('/:id/compare/:otherId', async (req, res) => {
+  try {
+    const outcome = await jobComparisonService.compare(req.params.id, req.params.otherId);
+
+    if (outcome.status === 'not_found') {
+      return res.status(404).json({ error: 'Job not found', jobId: outcome.jobId });
+    }
+    if (outcome.status === 'no_report') {
+      return res.status(409).json({ error: 'Job has no report yet', jobId: outcome.jobId });
+    }
+
+    res.json(outcome.comparison);
+  } catch (error) {
+    console.error('Compare jobs error:', error);
+    res.status(500).json({ error: 'Failed to compare jobs' });
+  }
+});
+
+// GET /api/jobs/:id/llm-calls - Recorded LLM requests and responses, in call order
+router.get('/:id/llm-calls', async (req, res) => {
+  try {
+    const job = await jobService.getJob(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json({
+      jobId: job.id,
+      replayOf: parseRunOptions(job.options).replayOf,
+      calls: await llmCallService.listCalls(job.id),
+    });
+  } catch (error) {
+    console.error('List LLM calls error:', error);
+    res.status(500).json({ error: 'Failed to list LLM calls' });
+  }
+});
+
+// POST /api/jobs/:id/resume - Requeue a failed/cancelled job; stored stages are not re-run
+router.post('/:id/resume', requireLlmBudget, async (req, res) => {
+  try {
+    const outcome = await jobService.requeueForResume(req.params.id);
+
+    if (outcome === 'not_found') {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (outcome === 'not_resumable') {
+      return res.status(409).json({ error: 'Only failed or cancelled jobs can be resumed' });
+    }
+
+    const stages = await jobService.getStageOutputs(req.params.id);
+    await jobService.appendTraceEvent(req.params.id, {
+      agent: 'JobQueue',
+      status: 'pending',
+      timestamp: new Date().toISOString(),
+      detail: stages.length > 0
+        ? `Queued to resume after ${stages[stages.length - 1].stage}`
+        : 'Queued to resume (no completed stages - running from the start)',
+    });
+    jobQueue.wake();
+
+    res.status(202).json({
+      jobId: req.params.id,
+      status: 'queued',
+      completedStages: stages.map(s => s.stage),
+    });
+  } catch (error) {
+    console.error('Resume job error:', error);
+    res.status(500).json({ error: 'Failed to resume job' });
+  }
+});
+
+// GET /api/jobs/:id/stages - List stored stage outputs (without the payloads)
+router.get('/:id/stages', async (req, res) => {
+  try {
+    const job = await jobService.getJob(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const stages = await jobService.getStageOutputs(job.id);
+    res.json(stages.map(s => ({
+      stage: s.stage,
+      startedAt: s.startedAt,
+      completedAt: s.completedAt,
+      durationMs: s.durationMs,
+    })));
+  } catch (error) {
+    console.error('List stages error:', error);
+    res.status(500).json({ error: 'Failed to retrieve stages' });
+  }
+});
+
+// GET /api/jobs/:id/stages/:stage - Output of a single stage (plan, scope, fto, ...)
+router.get('/:id/stages/:stage', async (req, res) => {
+  try {
+    const { id, stage } = req.params;
+
+    if (!STAGE_OUTPUT_NAMES.includes(stage)) {
+      return res.status(400).json({
+        error: 'Unknown stage',
+        details: `Expected one of: ${STAGE_OUTPUT_NAMES.join(', ')}`,
+      });
+    }
+
+    const job = await jobService.getJob(id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const record = await jobService.getStageOutput(id, stage);
+
+    if (!record) {
+      return res.status(404).json({ error: 'Stage output not found for this job' });
+    }
+
+    res.json({
+      jobId: id,
+      stage: record.stage,
+      startedAt: record.startedAt,
+      completedAt: record.completedAt,
+      durationMs: record.durationMs,
+      output: JSON.parse(record.output),
+    });
+  } catch (error) {
+    console.error('Get stage error:', error);
+    res.status(500).json({ error: 'Failed to retrieve stage output' });
+  }
+});
+
 // GET /api/jobs/:id/trace - Get agent execution trace
 router.get('/:id/trace', async (req, res) => {
   try {
@@ -71,4 +449,83 @@ router.get('/:id/trace', async (req, res) => {
   }
 });
 
+// GET /api/jobs/:id/events - Stream trace and status updates (Server-Sent Events)
+router.get('/:id/events', async (req, res) => {
+  const jobId = req.params.id;
+  let keepAlive: NodeJS.Timeout | undefined;
+  let unsubscribe: (() => void) | undefined;
+  let closed = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(keepAlive);
+    unsubscribe?.();
+    res.end();
+  };
+
+  try {
+    const job = await jobService.getJob(jobId);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown, id?: number) => {
+      res.write(`${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Buffer live events until the snapshot has been sent so nothing is lost in between
+    let buffered: JobStreamEvent[] | null = [];
+
+    const handle = (event: JobStreamEvent) => {
+      if (event.type === 'trace') {
+        send('trace', event.event, event.id);
+      } else {
+        send('status', { status: event.status, resultId: event.resultId });
+        if (TERMINAL_JOB_STATUSES.includes(event.status)) close();
+      }
+    };
+
+    unsubscribe = jobService.subscribe(jobId, event => {
+      if (buffered) buffered.push(event);
+      else handle(event);
+    });
+
+    // Comment lines keep proxies from timing out idle connections
+    keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+    req.on('close', close);
+
+    // Snapshot: full trace so far, then the current status
+    const records = await jobService.getTraceRecords(jobId);
+    const current = await jobService.getJob(jobId);
+    const lastId = records.length > 0 ? records[records.length - 1].id : 0;
+    send('snapshot', records.map(r => r.event), lastId);
+
+    const pending = buffered;
+    buffered = null;
+    for (const event of pending) {
+      if (event.type === 'trace' && event.id <= lastId) continue;
+      handle(event);
+    }
+
+    // A buffered status is at least as recent as the one read for the snapshot
+    if (!closed && current && !pending.some(e => e.type === 'status')) {
+      handle({ type: 'status', status: current.status, resultId: current.resultId });
+    }
+  } catch (error) {
+    console.error('Job events error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to stream job events' });
+    } else {
+      close();
+    }
+  }
+});
+
 export default router;
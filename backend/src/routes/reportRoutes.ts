@@ -38,6 +38,9 @@ router.get('/:jobId/report', async (req, res) => {
       queryText: job.queryText,
       summary: report.summary,
       
+      // Markets analyzed (empty for reports from before multi-market support: IN + US)
+      countries: reportData?.countries || [],
+
       // PRIMARY OUTPUT: Commercial Decisions
       decisions: reportData?.decisions || [],
       marketOverview: reportData?.marketOverview || { 
@@ -55,6 +58,15 @@ router.get('/:jobId/report', async (req, res) => {
       // NEW: Patient-level epidemiology data
       epidemiologyOverview: reportData?.epidemiologyOverview || null,
       
+      // Focused runs: FTO status without decisions, and the stages that were skipped
+      ftoOverview: reportData?.ftoOverview || [],
+      skippedStages: reportData?.skippedStages || [],
+      degradedSections: reportData?.degradedSections || [],
+      plan: reportData?.plan || null,
+      areaSections: reportData?.areaSections || [],
+      filteredMolecules: reportData?.filteredMolecules || [],
+      summaryVerification: reportData?.summaryVerification || null,
+      
       recommendations: reportData?.recommendations || [],
       pdfUrl: `/api/reports/${report.id}/pdf`,
       createdAt: report.createdAt,
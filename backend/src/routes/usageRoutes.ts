@@ -0,0 +1,36 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { usageService } from '../services/usageService';
+
+const router = Router();
+
+// GET /api/usage?days=7 - LLM tokens and estimated cost by day, model and job, plus the daily budget
+router.get('/', async (req, res) => {
+  try {
+    const days = req.query.days === undefined ? 7 : Number(req.query.days);
+
+    if (!Number.isInteger(days) || days < 1 || days > 90) {
+      return res.status(400).json({ error: 'Invalid request', details: 'Query parameter "days" must be an integer from 1 to 90' });
+    }
+
+    res.json(await usageService.getUsageReport(days));
+  } catch (error) {
+    console.error('Usage report error:', error);
+    res.status(500).json({ error: 'Failed to build usage report' });
+  }
+});
+
+// Reject requests that would start new LLM work once today's budget (LLM_DAILY_BUDGET_USD) is spent
+export async function requireLlmBudget(req: Request, res: Response, next: NextFunction) {
+  try {
+    const budget = await usageService.getBudgetStatus();
+    if (budget.exhausted) {
+      return res.status(429).json({ error: 'Daily LLM budget exhausted', budget });
+    }
+    next();
+  } catch (error) {
+    console.error('Budget check error:', error);
+    res.status(500).json({ error: 'Failed to check LLM budget' });
+  }
+}
+
+export default router;
@@ -1,69 +1,235 @@
+import crypto from 'crypto';
+import { PrismaClient, AnalysisCache } from '@prisma/client';
+import { indicationService } from './indicationService';
+import { planConditions, planCountries, planMolecules } from './planService';
+import { getLlmProvider } from './llmClient';
+import { ExecutionPlan } from '../types/query';
+
+const prisma = new PrismaClient();
+
 // Cache version - increment this to invalidate all cached results when logic changes
-const CACHE_VERSION = 'v4';
+const CACHE_VERSION = 'v14';
+
+// Source tables an analysis reads. A change to any of them makes older entries stale.
+export const FINGERPRINT_TABLES = [
+  'Patent',
+  'ClinicalTrial',
+  'DrugPricing',
+  'GenericCompetition',
+  'DiseaseMarket',
+  'RegulatoryStatus',
+  'Exclusivity',
+  'PatentLitigation',
+] as const;
 
+export type FingerprintTable = typeof FINGERPRINT_TABLES[number];
+export type DataFingerprints = Record<FingerprintTable, string>;
+
+// Everything that determines an analysis result
+export interface CacheKeyInput {
+  plan: ExecutionPlan;
+  stages: string[];
+  filterCriteria: Record<string, string | undefined>;
+  molecules: string[];
+}
+
+export interface CacheLookup {
+  entry: AnalysisCache | null;
+  fingerprints: DataFingerprints;
+  // Tables whose data changed since the (now deleted) entry was written
+  staleTables: FingerprintTable[];
+}
+
+/**
+ * Analysis Cache - persisted in the AnalysisCache table
+ *
+ * - Keyed on the resolved plan, the stages run, filter criteria and scoped molecules,
+ *   so differently-worded queries that resolve to the same analysis share an entry.
+ *   Conditions are keyed on their ontology indications ("respiratory" = "COPD"),
+ *   and single values key the same as one-element lists
+ * - Also keyed on the LLM provider and model, so stub (offline) results never answer live runs
+ * - Each entry stores a fingerprint of every source table taken when its analysis
+ *   started; a lookup that finds a changed table deletes the entry and misses
+ * - Survives restarts; CACHE_VERSION still invalidates everything on logic changes
+ */
 class CacheService {
-  private cache = new Map<string, any>();
-  private initialized = false;
-
-  constructor() {
-    // Clear cache on service initialization (server restart)
-    this.clear();
-    console.log('🗑️ Cache cleared on startup (version:', CACHE_VERSION + ')');
-    this.initialized = true;
-  }
+  async createKey(input: CacheKeyInput): Promise<string> {
+    const indications: string[] = [];
+    for (const condition of planConditions(input.plan)) {
+      const resolved = await indicationService.resolveCondition(condition);
+      indications.push(...(resolved ? resolved.indications : [condition]));
+    }
+    const conditions = [...new Set(indications.map(i => i.toLowerCase()))].sort();
 
-  get(key: string): any | undefined {
-    return this.cache.get(this.versionedKey(key));
+    return `${CACHE_VERSION}:${hash(canonicalKeyInput(input, conditions)).slice(0, 32)}`;
   }
 
-  set(key: string, value: any): void {
-    this.cache.set(this.versionedKey(key), value);
+  /**
+   * Look up an entry, dropping it if its data fingerprints no longer match.
+   * The current fingerprints are returned so a miss can store them with the new result.
+   */
+  async lookup(key: string): Promise<CacheLookup> {
+    const fingerprints = await this.getFingerprints();
+    const entry = await prisma.analysisCache.findUnique({ where: { key } });
+
+    if (!entry) {
+      return { entry: null, fingerprints, staleTables: [] };
+    }
+
+    const staleTables = diffFingerprints(parseFingerprints(entry.fingerprints), fingerprints);
+    const report = await prisma.report.findUnique({ where: { id: entry.reportId }, select: { id: true } });
+
+    if (staleTables.length > 0 || !report) {
+      await prisma.analysisCache.deleteMany({ where: { key } });
+      return { entry: null, fingerprints, staleTables };
+    }
+
+    const hit = await prisma.analysisCache.update({
+      where: { key },
+      data: { hits: { increment: 1 }, lastHitAt: new Date() },
+    });
+    return { entry: hit, fingerprints, staleTables: [] };
   }
 
-  has(key: string): boolean {
-    return this.cache.has(this.versionedKey(key));
+  async store(
+    key: string,
+    input: CacheKeyInput,
+    result: { reportId: string; jobId: string },
+    fingerprints: DataFingerprints
+  ): Promise<void> {
+    const data = {
+      version: CACHE_VERSION,
+      plan: JSON.stringify(normalizePlan(input.plan)),
+      filterCriteria: JSON.stringify(input.filterCriteria),
+      molecules: JSON.stringify(input.molecules),
+      fingerprints: JSON.stringify(fingerprints),
+      reportId: result.reportId,
+      jobId: result.jobId,
+    };
+
+    await prisma.analysisCache.upsert({
+      where: { key },
+      create: { key, ...data },
+      update: { ...data, hits: 0, createdAt: new Date(), lastHitAt: null },
+    });
   }
 
-  delete(key: string): boolean {
-    return this.cache.delete(this.versionedKey(key));
+  async getEntry(key: string): Promise<AnalysisCache | null> {
+    return prisma.analysisCache.findUnique({ where: { key } });
   }
 
-  clear(): void {
-    this.cache.clear();
+  async listEntries(): Promise<AnalysisCache[]> {
+    return prisma.analysisCache.findMany({ orderBy: { createdAt: 'desc' } });
   }
 
-  // Add version prefix to invalidate old cache entries
-  private versionedKey(key: string): string {
-    return `${CACHE_VERSION}:${key}`;
+  async delete(key: string): Promise<boolean> {
+    const deleted = await prisma.analysisCache.deleteMany({ where: { key } });
+    return deleted.count > 0;
   }
 
-  // Create a normalized cache key from query text
-  // Now includes extracted condition/indication for better granularity
-  createKey(queryText: string): string {
-    const normalized = queryText
-      .toLowerCase()
-      .trim()
-      .replace(/\s+/g, ' ')
-      .replace(/[^a-z0-9\s]/g, '');
-    
-    // Extract condition from query for more specific caching
-    let condition = 'all';
-    if (normalized.includes('nsclc') || normalized.includes('nslc') || normalized.includes('lung cancer') || normalized.includes('oncology')) {
-      condition = 'nsclc';
-    } else if (normalized.includes('copd') || normalized.includes('respiratory') || normalized.includes('pulmonary')) {
-      condition = 'copd';
-    } else if (normalized.includes('diabetes') || normalized.includes('t2d') || normalized.includes('type 2')) {
-      condition = 'diabetes';
-    } else if (normalized.includes('arthritis') || normalized.includes('rheumatoid')) {
-      condition = 'ra';
-    } else if (normalized.includes('cardiovascular') || normalized.includes('heart') || normalized.includes('cholesterol')) {
-      condition = 'cv';
-    } else if (normalized.includes('hypertension') || normalized.includes('blood pressure')) {
-      condition = 'htn';
+  /**
+   * Delete entries - all of them, or only those that are stale (data changed or old version)
+   */
+  async purge(staleOnly = false): Promise<number> {
+    if (!staleOnly) {
+      const deleted = await prisma.analysisCache.deleteMany({});
+      return deleted.count;
     }
 
-    return `${condition}:${normalized}`;
+    const current = await this.getFingerprints();
+    const entries = await this.listEntries();
+    const stale = entries
+      .filter(e => e.version !== CACHE_VERSION || this.staleTablesFor(e, current).length > 0)
+      .map(e => e.key);
+
+    const deleted = await prisma.analysisCache.deleteMany({ where: { key: { in: stale } } });
+    return deleted.count;
   }
+
+  staleTablesFor(entry: AnalysisCache, current: DataFingerprints): FingerprintTable[] {
+    return diffFingerprints(parseFingerprints(entry.fingerprints), current);
+  }
+
+  /**
+   * Fingerprint each source table from aggregates, so a lookup costs one query per
+   * table however large the Orange Book and litigation imports grow.
+   * Row count and latest createdAt catch inserts, deletes and delete-and-reload imports;
+   * tables written in place (seed upserts, imports, molecule linking) also carry updatedAt.
+   */
+  async getFingerprints(): Promise<DataFingerprints> {
+    const rows = { _count: { _all: true }, _max: { createdAt: true } } as const;
+    const rowsAndEdits = { _count: { _all: true }, _max: { createdAt: true, updatedAt: true } } as const;
+    const [patents, trials, pricing, competition, markets, regulatory, exclusivities, litigation] = await Promise.all([
+      prisma.patent.aggregate(rows),
+      prisma.clinicalTrial.aggregate(rows),
+      prisma.drugPricing.aggregate(rowsAndEdits),
+      prisma.genericCompetition.aggregate(rowsAndEdits),
+      prisma.diseaseMarket.aggregate(rows),
+      prisma.regulatoryStatus.aggregate(rows),
+      prisma.exclusivity.aggregate(rowsAndEdits),
+      prisma.patentLitigation.aggregate(rowsAndEdits),
+    ]);
+
+    return {
+      Patent: hash(JSON.stringify(patents)),
+      ClinicalTrial: hash(JSON.stringify(trials)),
+      DrugPricing: hash(JSON.stringify(pricing)),
+      GenericCompetition: hash(JSON.stringify(competition)),
+      DiseaseMarket: hash(JSON.stringify(markets)),
+      RegulatoryStatus: hash(JSON.stringify(regulatory)),
+      Exclusivity: hash(JSON.stringify(exclusivities)),
+      PatentLitigation: hash(JSON.stringify(litigation)),
+    };
+  }
+}
+
+function hash(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+// Only the plan fields that change the analysis, case-normalized and sorted.
+// `conditions` overrides the raw terms with their resolved indications
+function normalizePlan(plan: ExecutionPlan, conditions?: string[]) {
+  return {
+    conditions: conditions ?? planConditions(plan).map(c => c.toLowerCase()).sort(),
+    countries: planCountries(plan).map(c => c.toLowerCase()).sort(),
+    molecules: planMolecules(plan).map(m => m.toLowerCase()).sort(),
+    modality: plan.modality?.toLowerCase(),
+    filters: plan.filters && Object.fromEntries(
+      Object.entries(plan.filters)
+        .filter(([, value]) => value !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+    ),
+  };
+}
+
+// Stable JSON: sorted arrays and keys so equivalent inputs hash the same
+function canonicalKeyInput(input: CacheKeyInput, conditions?: string[]): string {
+  const filterCriteria = Object.fromEntries(
+    Object.entries(input.filterCriteria)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+
+  return JSON.stringify({
+    plan: normalizePlan(input.plan, conditions),
+    stages: [...input.stages].sort(),
+    filterCriteria,
+    molecules: [...input.molecules].sort(),
+    llm: `${getLlmProvider().name}:${getLlmProvider().model}`,
+  });
+}
+
+function parseFingerprints(raw: string): Partial<DataFingerprints> {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+function diffFingerprints(stored: Partial<DataFingerprints>, current: DataFingerprints): FingerprintTable[] {
+  return FINGERPRINT_TABLES.filter(table => stored[table] !== current[table]);
 }
 
 export const cacheService = new CacheService();
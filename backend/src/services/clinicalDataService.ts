@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { CountryCode } from '../types/country';
 
 const prisma = new PrismaClient();
 
@@ -52,7 +53,7 @@ class ClinicalDataService {
     });
   }
 
-  async getTrialsByCountry(country: 'IN' | 'US') {
+  async getTrialsByCountry(country: CountryCode) {
     return prisma.clinicalTrial.findMany({
       where: { country },
       orderBy: { phase: 'desc' },
@@ -0,0 +1,121 @@
+import { PrismaClient, Country } from '@prisma/client';
+import { CountryCode, CountryRequest } from '../types/country';
+
+const prisma = new PrismaClient();
+
+export interface ResolvedCountries {
+  codes: CountryCode[];
+  // Terms that match no country in the reference table
+  unknown: string[];
+}
+
+/**
+ * Country Reference - the markets the pipeline can analyze
+ *
+ * - Plans, stage results and reports carry Country.code; names and aliases
+ *   ("India", "usa", "Europe") are resolved here, in one place
+ * - Bare codes are matched when resolving a plan value ("US") but not in free
+ *   text, where "in" / "us" are ordinary words (the query parser flags those)
+ * - The table is loaded once and reloaded after any change made through this service
+ */
+class CountryService {
+  private loaded: Promise<Country[]> | null = null;
+
+  async listCountries(): Promise<Country[]> {
+    if (!this.loaded) {
+      this.loaded = prisma.country.findMany({ orderBy: { code: 'asc' } });
+      // Don't keep a failed load around
+      this.loaded.catch(() => { this.loaded = null; });
+    }
+    return this.loaded;
+  }
+
+  async getCountry(code: CountryCode): Promise<Country | null> {
+    return (await this.listCountries()).find(c => c.code === code) ?? null;
+  }
+
+  // Display name for a code; the code itself when it is not in the table
+  async nameOf(code: CountryCode): Promise<string> {
+    return (await this.getCountry(code))?.name ?? code;
+  }
+
+  // A plan value: code, name or alias, case-insensitive. Null for unknown terms
+  async resolveCountry(term: string): Promise<Country | null> {
+    const wanted = term.toLowerCase().trim();
+    const countries = await this.listCountries();
+
+    return countries.find(c => c.code.toLowerCase() === wanted || c.name.toLowerCase() === wanted) ??
+      countries.find(c => aliasesOf(c).includes(wanted)) ??
+      null;
+  }
+
+  // Plan values as unique codes, in the order given
+  async resolveCodes(terms: string[]): Promise<ResolvedCountries> {
+    const codes: CountryCode[] = [];
+    const unknown: string[] = [];
+
+    for (const term of terms) {
+      const country = await this.resolveCountry(term);
+      if (!country) {
+        unknown.push(term);
+      } else if (!codes.includes(country.code)) {
+        codes.push(country.code);
+      }
+    }
+    return { codes, unknown };
+  }
+
+  // Countries named in free text (names and aliases, whole words), in order of mention
+  async detectCountries(text: string): Promise<Country[]> {
+    const lowerText = text.toLowerCase();
+    const mentions: Array<{ country: Country; position: number }> = [];
+
+    for (const country of await this.listCountries()) {
+      const positions = [country.name.toLowerCase(), ...aliasesOf(country)]
+        .map(term => findWord(lowerText, term))
+        .filter(position => position >= 0);
+      if (positions.length > 0) {
+        mentions.push({ country, position: Math.min(...positions) });
+      }
+    }
+
+    return mentions.sort((a, b) => a.position - b.position).map(m => m.country);
+  }
+
+  async createCountry(input: CountryRequest): Promise<Country> {
+    const created = await prisma.country.create({
+      data: {
+        code: input.code,
+        name: input.name,
+        currency: input.currency,
+        regulator: input.regulator,
+        patentOffice: input.patentOffice,
+        genericPathway: input.genericPathway,
+        aliases: JSON.stringify(input.aliases.map(a => a.toLowerCase())),
+      },
+    });
+    this.invalidate();
+    return created;
+  }
+
+  invalidate(): void {
+    this.loaded = null;
+  }
+}
+
+export function aliasesOf(country: Country): string[] {
+  try {
+    return JSON.parse(country.aliases);
+  } catch {
+    return [];
+  }
+}
+
+// Index of a whole-word term in lower-cased text, or -1
+function findWord(text: string, term: string): number {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(`(?<![\\w-])${escaped}(?![\\w-])`).exec(text);
+  return match ? match.index : -1;
+}
+
+export const countryService = new CountryService();
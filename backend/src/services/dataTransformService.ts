@@ -50,8 +50,6 @@ export interface PatentCreate {
   claims?: string;
   applicant?: string;
   devicePatent?: boolean;
-  litigationHistory?: any;
-  litigationRisk?: string;
   dataQuality?: string;
   confidenceLevel?: string;
   dataSource?: string;
@@ -111,16 +109,6 @@ function mapStatus(status: string): string {
   return 'Completed';
 }
 
-/**
- * Map country name to country code
- */
-function mapCountryToCode(country: string): 'US' | 'IN' {
-  const c = country.toLowerCase();
-  if (c.includes('united states') || c.includes('usa') || c === 'us') return 'US';
-  if (c.includes('india') || c === 'in') return 'IN';
-  return 'US'; // Default to US
-}
-
 /**
  * Parse date string (handles multiple formats)
  */
@@ -1,3 +1,5 @@
+import { CountryCode } from '../types/country';
+
 /**
  * Epidemiology Data Service
  * 
@@ -37,7 +39,7 @@
 
 export interface DiseaseEpidemiologyData {
   disease: string;
-  country: 'US' | 'IN' | 'GLOBAL';
+  country: CountryCode | 'GLOBAL';
   year: number;
   
   // Patient counts (absolute numbers)
@@ -76,7 +78,7 @@ export interface DiseaseEpidemiologyData {
 
 export interface DrugUtilizationData {
   molecule: string;
-  country: 'US' | 'IN';
+  country: CountryCode;
   year: number;
   
   // Patient counts
@@ -102,7 +104,7 @@ export interface DrugUtilizationData {
 
 export interface HistoricalTrendData {
   disease: string;
-  country: 'US' | 'IN' | 'GLOBAL';
+  country: CountryCode | 'GLOBAL';
   metric: 'prevalence' | 'incidence' | 'mortality' | 'treatment_rate';
   years: number[];
   values: number[];
@@ -634,7 +636,7 @@ export const HISTORICAL_TRENDS: HistoricalTrendData[] = [
  */
 export function getEpidemiologyData(
   disease: string,
-  country?: 'US' | 'IN' | 'GLOBAL'
+  country?: CountryCode | 'GLOBAL'
 ): DiseaseEpidemiologyData[] {
   const allData = [
     ...COPD_EPIDEMIOLOGY,
@@ -657,7 +659,7 @@ export function getEpidemiologyData(
  */
 export function getDrugUtilization(
   molecule: string,
-  country?: 'US' | 'IN'
+  country?: CountryCode
 ): DrugUtilizationData[] {
   return DRUG_UTILIZATION_DATA.filter(d => {
     const moleculeMatch = d.molecule.toLowerCase() === molecule.toLowerCase();
@@ -671,7 +673,7 @@ export function getDrugUtilization(
  */
 export function getHistoricalTrends(
   disease: string,
-  country: 'US' | 'IN' | 'GLOBAL',
+  country: CountryCode | 'GLOBAL',
   metric?: 'prevalence' | 'incidence' | 'mortality' | 'treatment_rate'
 ): HistoricalTrendData[] {
   return HISTORICAL_TRENDS.filter(t => {
@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PrismaClient, DrugApplication, Exclusivity } from '@prisma/client';
+import { moleculeService } from './moleculeService';
+import {
+  DrugApplicationRequest,
+  ExclusivityImportResult,
+  ExclusivityType,
+  OrangeBookExclusivity,
+} from '../types/exclusivity';
+
+const prisma = new PrismaClient();
+
+const ORANGE_BOOK_DIR = path.join(__dirname, '../data/orange-book');
+const ORANGE_BOOK_SOURCE = 'FDA Orange Book';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// 3-year exclusivity codes (new clinical investigation), with or without a number suffix
+const NCI_CODES = ['I', 'D', 'M', 'NP', 'NPP', 'NS', 'NDF', 'NC', 'NR', 'RTO'];
+
+export type LinkApplicationOutcome =
+  | { status: 'created'; application: DrugApplication; exclusivitiesLinked: number }
+  | { status: 'molecule_not_found' }
+  | { status: 'application_exists'; molecule: string };
+
+/**
+ * Regulatory Exclusivities - FDA Orange Book exclusivity.txt
+ *
+ * - Rows are keyed on application / product (Appl_No, Product_No); DrugApplication
+ *   links an application to a curated molecule, and the link is copied onto each row
+ * - An import replaces all Orange Book rows, so re-running it after an Orange Book
+ *   refresh drops exclusivities that have since been removed
+ * - When products.txt is present, NDAs whose ingredient names a curated molecule are
+ *   linked automatically; otherwise links come from the seed or the admin endpoint
+ */
+class ExclusivityService {
+  async forMolecule(molecule: string): Promise<Exclusivity[]> {
+    return prisma.exclusivity.findMany({
+      where: { molecule },
+      orderBy: { expiryDate: 'asc' },
+    });
+  }
+
+  async importOrangeBook(dir = ORANGE_BOOK_DIR): Promise<ExclusivityImportResult> {
+    const content = fs.readFileSync(path.join(dir, 'exclusivity.txt'), 'utf-8');
+    const { rows, skipped } = parseExclusivityFile(content);
+
+    const applicationsLinked = await this.linkFromProducts(path.join(dir, 'products.txt'));
+    const links = new Map((await prisma.drugApplication.findMany()).map(a => [a.applNo, a.moleculeName]));
+
+    const data = rows.map(row => ({
+      ...row,
+      molecule: links.get(row.applNo) ?? null,
+      country: 'US',
+      dataSource: ORANGE_BOOK_SOURCE,
+    }));
+
+    await prisma.$transaction([
+      prisma.exclusivity.deleteMany({ where: { dataSource: ORANGE_BOOK_SOURCE } }),
+      prisma.exclusivity.createMany({ data }),
+    ]);
+
+    return {
+      parsed: rows.length,
+      stored: data.length,
+      linked: data.filter(d => d.molecule).length,
+      skipped,
+      applicationsLinked,
+    };
+  }
+
+  async linkApplication(moleculeName: string, input: DrugApplicationRequest): Promise<LinkApplicationOutcome> {
+    const molecule = await moleculeService.findByName(moleculeName);
+    if (!molecule) return { status: 'molecule_not_found' };
+
+    const existing = await prisma.drugApplication.findUnique({ where: { applNo: input.applNo } });
+    if (existing) return { status: 'application_exists', molecule: existing.moleculeName };
+
+    const application = await prisma.drugApplication.create({
+      data: { applNo: input.applNo, moleculeName: molecule.name, tradeName: input.tradeName },
+    });
+    const linked = await prisma.exclusivity.updateMany({
+      where: { applNo: input.applNo },
+      data: { molecule: molecule.name },
+    });
+    return { status: 'created', application, exclusivitiesLinked: linked.count };
+  }
+
+  // NDAs in products.txt whose ingredient is a curated molecule (exact name, generic name or alias)
+  private async linkFromProducts(filePath: string): Promise<number> {
+    if (!fs.existsSync(filePath)) return 0;
+
+    const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+    const header = lines[0].split('~');
+    const ingredientIdx = header.findIndex(h => h.includes('Ingredient'));
+    const tradeNameIdx = header.findIndex(h => h.includes('Trade_Name'));
+    const applTypeIdx = header.findIndex(h => h.includes('Appl_Type'));
+    const applNoIdx = header.findIndex(h => h.includes('Appl_No'));
+    if (ingredientIdx < 0 || applNoIdx < 0) return 0;
+
+    const known = new Set((await prisma.drugApplication.findMany()).map(a => a.applNo));
+    let created = 0;
+
+    for (const line of lines.slice(1)) {
+      const fields = line.split('~');
+      const applNo = fields[applNoIdx]?.trim();
+      if (!applNo || known.has(applNo) || (applTypeIdx >= 0 && fields[applTypeIdx]?.trim() !== 'N')) continue;
+
+      const match = await moleculeService.resolveMolecule(fields[ingredientIdx]?.trim() || '');
+      if (!match || match.matchType === 'fuzzy') continue;
+
+      await prisma.drugApplication.create({
+        data: {
+          applNo,
+          moleculeName: match.molecule,
+          tradeName: tradeNameIdx >= 0 ? fields[tradeNameIdx]?.trim() || null : null,
+        },
+      });
+      known.add(applNo);
+      created++;
+    }
+    return created;
+  }
+}
+
+/**
+ * Parse exclusivity.txt (Appl_Type~Appl_No~Product_No~Exclusivity_Code~Exclusivity_Date).
+ * The file repeats some rows verbatim; those count as skipped.
+ */
+export function parseExclusivityFile(content: string): { rows: OrangeBookExclusivity[]; skipped: number } {
+  const rows: OrangeBookExclusivity[] = [];
+  const seen = new Set<string>();
+  let skipped = 0;
+
+  for (const line of content.split('\n').slice(1)) {
+    if (!line.trim()) continue;
+
+    const [applType, applNo, productNo, code, date] = line.split('~').map(f => f.trim());
+    const expiryDate = date ? parseOrangeBookDate(date) : null;
+    if (!applNo || !productNo || !code || !expiryDate) {
+      skipped++;
+      continue;
+    }
+
+    const key = [applNo, productNo, code, expiryDate.toISOString()].join('~');
+    if (seen.has(key)) {
+      skipped++;
+      continue;
+    }
+    seen.add(key);
+
+    rows.push({ applType, applNo, productNo, code, type: exclusivityTypeOf(code), expiryDate });
+  }
+
+  return { rows, skipped };
+}
+
+// "ODE-337" → ODE, "I-922" → NCI, "NCE*" → NCE
+export function exclusivityTypeOf(code: string): ExclusivityType {
+  const prefix = code.toUpperCase().replace(/\*$/, '').split('-')[0];
+  if (prefix === 'NCE') return 'NCE';
+  if (prefix === 'ODE') return 'ODE';
+  if (prefix === 'PED') return 'PED';
+  if (prefix === 'GAIN') return 'GAIN';
+  if (prefix === 'PC' || prefix === 'CGT') return 'GENERIC_180';
+  if (NCI_CODES.includes(prefix)) return 'NCI';
+  return 'OTHER';
+}
+
+// "Jul 13, 2026" → 2026-07-13 (UTC). Null when unparseable
+function parseOrangeBookDate(text: string): Date | null {
+  const match = /^([A-Za-z]{3})\w*\s+(\d{1,2}),\s*(\d{4})$/.exec(text);
+  if (!match) return null;
+  const month = MONTHS.indexOf(match[1].toLowerCase());
+  if (month < 0) return null;
+  return new Date(Date.UTC(Number(match[3]), month, Number(match[2])));
+}
+
+export const exclusivityService = new ExclusivityService();
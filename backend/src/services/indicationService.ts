@@ -0,0 +1,202 @@
+import { PrismaClient, Indication, IndicationAlias } from '@prisma/client';
+import {
+  AliasRequest,
+  AliasType,
+  ConditionMention,
+  IndicationRequest,
+  ResolvedCondition,
+} from '../types/indication';
+
+const prisma = new PrismaClient();
+
+export type IndicationWithAliases = Indication & { aliases: IndicationAlias[] };
+
+export type AddAliasOutcome =
+  | { status: 'created'; alias: IndicationAlias }
+  | { status: 'indication_not_found' }
+  | { status: 'alias_exists'; indication: string };
+
+// A term that points at an indication: its own name, an alias, or its therapeutic area
+interface OntologyTerm {
+  term: string;
+  type: AliasType | 'name' | 'area';
+  indication: Indication;
+}
+
+/**
+ * Indication Resolver - single source of truth for condition terms
+ *
+ * - Backed by the Indication / IndicationAlias tables (canonical names match Molecule.indication)
+ * - Used by query parsing (free text), the molecule scope agent (plan.condition)
+ *   and the analysis cache key, so all three agree on what a term means
+ * - The ontology is loaded once and reloaded after any change made through this service
+ */
+class IndicationService {
+  private loaded: Promise<IndicationWithAliases[]> | null = null;
+
+  async listIndications(): Promise<IndicationWithAliases[]> {
+    if (!this.loaded) {
+      this.loaded = prisma.indication.findMany({
+        include: { aliases: { orderBy: { alias: 'asc' } } },
+        orderBy: { name: 'asc' },
+      });
+      // Don't keep a failed load around
+      this.loaded.catch(() => { this.loaded = null; });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Resolve a condition term (e.g. plan.condition): canonical name first,
+   * then an alias, then a therapeutic area (which covers all its indications).
+   * Returns null for unknown terms.
+   */
+  async resolveCondition(term: string): Promise<ResolvedCondition | null> {
+    const wanted = term.toLowerCase().trim();
+    const indications = await this.listIndications();
+
+    const byName = indications.find(i => i.name.toLowerCase() === wanted);
+    if (byName) {
+      return { indications: [byName.name], therapeuticArea: byName.therapeuticArea, broad: false };
+    }
+
+    for (const indication of indications) {
+      const alias = indication.aliases.find(a => a.alias === wanted);
+      if (alias) {
+        return {
+          indications: [indication.name],
+          therapeuticArea: indication.therapeuticArea,
+          broad: alias.type === 'broad',
+        };
+      }
+    }
+
+    const inArea = indications.filter(i => i.therapeuticArea.toLowerCase() === wanted);
+    if (inArea.length > 0) {
+      return { indications: inArea.map(i => i.name), therapeuticArea: inArea[0].therapeuticArea, broad: true };
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the conditions mentioned in free text, best first: specific terms
+   * before broad ones, then earliest in the text, then longest term.
+   * One mention per indication.
+   */
+  async detectConditions(text: string): Promise<ConditionMention[]> {
+    const lowerText = text.toLowerCase();
+    const mentions: ConditionMention[] = [];
+
+    for (const { term, type, indication } of termsOf(await this.listIndications())) {
+      const position = findTerm(lowerText, term, type === 'abbreviation');
+      if (position < 0) continue;
+
+      mentions.push({
+        indication: indication.name,
+        therapeuticArea: indication.therapeuticArea,
+        term,
+        broad: type === 'broad' || type === 'area',
+        position,
+      });
+    }
+
+    mentions.sort((a, b) =>
+      Number(a.broad) - Number(b.broad) ||
+      a.position - b.position ||
+      b.term.length - a.term.length
+    );
+
+    return mentions.filter((m, i) => mentions.findIndex(o => o.indication === m.indication) === i);
+  }
+
+  async createIndication(input: IndicationRequest): Promise<IndicationWithAliases> {
+    const created = await prisma.indication.create({
+      data: {
+        name: input.name,
+        therapeuticArea: input.therapeuticArea,
+        icd10Code: input.icd10Code,
+        meshId: input.meshId,
+        aliases: {
+          create: input.aliases.map(a => ({ alias: a.alias.toLowerCase(), type: a.type })),
+        },
+      },
+      include: { aliases: true },
+    });
+    this.invalidate();
+    return created;
+  }
+
+  async findByName(name: string): Promise<Indication | null> {
+    return prisma.indication.findUnique({ where: { name } });
+  }
+
+  // Which indication already uses this alias, if any
+  async findAliasOwner(alias: string): Promise<string | null> {
+    const existing = await prisma.indicationAlias.findUnique({
+      where: { alias: alias.toLowerCase().trim() },
+      include: { indication: true },
+    });
+    return existing?.indication.name ?? null;
+  }
+
+  async addAlias(indicationId: string, input: AliasRequest): Promise<AddAliasOutcome> {
+    const indication = await prisma.indication.findUnique({ where: { id: indicationId } });
+    if (!indication) return { status: 'indication_not_found' };
+
+    const owner = await this.findAliasOwner(input.alias);
+    if (owner) return { status: 'alias_exists', indication: owner };
+
+    const alias = await prisma.indicationAlias.create({
+      data: { indicationId, alias: input.alias.toLowerCase().trim(), type: input.type },
+    });
+    this.invalidate();
+    return { status: 'created', alias };
+  }
+
+  async removeAlias(alias: string): Promise<boolean> {
+    const deleted = await prisma.indicationAlias.deleteMany({
+      where: { alias: alias.toLowerCase().trim() },
+    });
+    this.invalidate();
+    return deleted.count > 0;
+  }
+
+  invalidate(): void {
+    this.loaded = null;
+  }
+}
+
+function termsOf(indications: IndicationWithAliases[]): OntologyTerm[] {
+  const terms: OntologyTerm[] = [];
+  for (const indication of indications) {
+    terms.push({ term: indication.name.toLowerCase(), type: 'name', indication });
+    for (const alias of indication.aliases) {
+      terms.push({ term: alias.alias, type: alias.type as AliasType, indication });
+    }
+  }
+
+  // Area names only count where no indication claims the same word ("Cardiovascular")
+  const claimed = new Set(terms.map(t => t.term));
+  for (const indication of indications) {
+    const area = indication.therapeuticArea.toLowerCase();
+    if (!claimed.has(area)) {
+      terms.push({ term: area, type: 'area', indication });
+    }
+  }
+  return terms;
+}
+
+/**
+ * Index of a term in lower-cased text, or -1. Terms must start a word (not
+ * after a letter or hyphen, so "immuno-oncology" is not "oncology"); whole-word
+ * terms must also end one.
+ */
+function findTerm(text: string, term: string, wholeWord: boolean): number {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(?<![\\w-])${escaped}${wholeWord ? '(?![\\w-])' : ''}`);
+  const match = pattern.exec(text);
+  return match ? match.index : -1;
+}
+
+export const indicationService = new IndicationService();
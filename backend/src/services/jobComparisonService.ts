@@ -0,0 +1,145 @@
+import { PrismaClient, Job, LlmCall, Report } from '@prisma/client';
+import { parseRunOptions } from './jobService';
+import { llmCallService } from './llmCallService';
+import { ComparedJob, ComparedLlmCall, JobComparison } from '../types/report';
+import { MoleculeDecision } from '../types/agent';
+import { ExecutionPlan } from '../types/query';
+
+const prisma = new PrismaClient();
+
+export type JobComparisonOutcome =
+  | { status: 'compared'; comparison: JobComparison }
+  | { status: 'not_found'; jobId: string }
+  | { status: 'no_report'; jobId: string };
+
+interface LoadedJob {
+  job: Job;
+  report: Report;
+  data: {
+    plan?: ExecutionPlan | null;
+    decisions?: MoleculeDecision[];
+    recommendations?: string[];
+  };
+  llmCalls: LlmCall[];
+}
+
+/**
+ * Job Comparison - diffs two jobs' reports, e.g. a replay against a fresh run,
+ * to explain why the same query produced a different answer
+ */
+class JobComparisonService {
+  async compare(jobIdA: string, jobIdB: string): Promise<JobComparisonOutcome> {
+    const loadedA = await this.load(jobIdA);
+    if ('status' in loadedA) return loadedA;
+    const loadedB = await this.load(jobIdB);
+    if ('status' in loadedB) return loadedB;
+
+    const a = loadedA;
+    const b = loadedB;
+
+    const planA = a.data.plan ?? null;
+    const planB = b.data.plan ?? null;
+    const planIdentical = JSON.stringify(planA) === JSON.stringify(planB);
+
+    const recsA = a.data.recommendations || [];
+    const recsB = b.data.recommendations || [];
+    const onlyInA = recsA.filter(r => !recsB.includes(r));
+    const onlyInB = recsB.filter(r => !recsA.includes(r));
+
+    const strategiesA = new Map((a.data.decisions || []).map(d => [d.molecule, d.overallStrategy]));
+    const strategiesB = new Map((b.data.decisions || []).map(d => [d.molecule, d.overallStrategy]));
+    const strategyChanges = [...new Set([...strategiesA.keys(), ...strategiesB.keys()])]
+      .filter(molecule => strategiesA.get(molecule) !== strategiesB.get(molecule))
+      .map(molecule => ({
+        molecule,
+        a: strategiesA.get(molecule) ?? null,
+        b: strategiesB.get(molecule) ?? null,
+      }));
+
+    const comparison: JobComparison = {
+      jobs: { a: toComparedJob(a), b: toComparedJob(b) },
+      identical: false,
+      plan: { identical: planIdentical, a: planA, b: planB },
+      summary: { identical: a.report.summary === b.report.summary, a: a.report.summary, b: b.report.summary },
+      recommendations: {
+        identical: onlyInA.length === 0 && onlyInB.length === 0 && recsA.length === recsB.length,
+        onlyInA,
+        onlyInB,
+      },
+      strategyChanges,
+      llmCalls: pairLlmCalls(a.llmCalls, b.llmCalls),
+    };
+    comparison.identical = comparison.plan.identical &&
+      comparison.summary.identical &&
+      comparison.recommendations.identical &&
+      strategyChanges.length === 0;
+
+    return { status: 'compared', comparison };
+  }
+
+  // A job with its report (its own, or the cached one it reused) and LLM calls
+  private async load(jobId: string): Promise<LoadedJob | { status: 'not_found' | 'no_report'; jobId: string }> {
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      include: { report: true },
+    });
+    if (!job) return { status: 'not_found', jobId };
+
+    const report = job.report ?? (job.resultId
+      ? await prisma.report.findUnique({ where: { id: job.resultId } })
+      : null);
+    if (!report) return { status: 'no_report', jobId };
+
+    return {
+      job,
+      report,
+      data: report.data ? JSON.parse(report.data) : {},
+      // A cache hit made no calls of its own - show the ones behind the reused report
+      llmCalls: await llmCallService.listCalls(report.jobId),
+    };
+  }
+}
+
+function toComparedJob(loaded: LoadedJob): ComparedJob {
+  return {
+    id: loaded.job.id,
+    status: loaded.job.status,
+    queryText: loaded.job.queryText,
+    reportId: loaded.report.id,
+    replayOf: parseRunOptions(loaded.job.options).replayOf,
+    createdAt: loaded.job.createdAt,
+  };
+}
+
+function toComparedCall(call: LlmCall): ComparedLlmCall {
+  return {
+    id: call.id,
+    provider: call.provider,
+    model: call.model,
+    latencyMs: call.latencyMs,
+    responseText: call.responseText,
+    error: call.error,
+  };
+}
+
+// Pair calls with the same purpose in the order they were made
+function pairLlmCalls(callsA: LlmCall[], callsB: LlmCall[]): JobComparison['llmCalls'] {
+  const purposes = [...new Set([...callsA, ...callsB].map(c => c.purpose))];
+  return purposes.flatMap(purpose => {
+    const forA = callsA.filter(c => c.purpose === purpose);
+    const forB = callsB.filter(c => c.purpose === purpose);
+    return Array.from({ length: Math.max(forA.length, forB.length) }, (_, i) => {
+      const a = forA[i];
+      const b = forB[i];
+      return {
+        purpose,
+        identical: !!a && !!b && a.responseText === b.responseText,
+        promptChanged: !!a && !!b && a.prompt !== b.prompt,
+        a: a ? toComparedCall(a) : undefined,
+        b: b ? toComparedCall(b) : undefined,
+      };
+    });
+  });
+}
+
+export const jobComparisonService = new JobComparisonService();
@@ -0,0 +1,159 @@
+import { Job } from '@prisma/client';
+import { config } from '../config/env';
+import { jobService, parseRunOptions } from './jobService';
+import { runMasterAgent } from '../agents/masterAgent';
+import { parseStoredPlan } from './planService';
+import { ExecutionPlan, RunOptions } from '../types/query';
+
+export interface EnqueueJobParams {
+  queryText: string;
+  priority?: number;
+  options?: RunOptions;
+  rerunOfId?: string;
+  plan?: ExecutionPlan;
+}
+
+/**
+ * Job Queue - Persistent, SQLite-backed worker pool
+ *
+ * - Jobs are rows in the Job table with status 'queued'; nothing lives only in memory
+ * - At most `config.jobConcurrency` pipelines run at once (bounds LLM usage)
+ * - Higher `priority` runs first, then oldest first
+ * - On startup, jobs left 'running' by a previous process are requeued until
+ *   `config.jobMaxAttempts` is reached, then marked 'error' with a reason.
+ *   Requeued jobs resume from their last stored stage (see agents/pipeline)
+ */
+class JobQueue {
+  private active = 0;
+  private draining = false;
+  // A drain was requested while one was running - it may have made its last claim already
+  private wakePending = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    await this.recoverInterruptedJobs();
+
+    // Safety net: pick up queued jobs even if a wake-up was missed
+    this.timer = setInterval(() => {
+      this.drain().catch(error => console.error('Job queue drain error:', error));
+    }, config.jobPollIntervalMs);
+    this.timer.unref();
+
+    console.log(`📥 Job queue started (concurrency: ${config.jobConcurrency})`);
+    await this.drain();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async enqueue(params: EnqueueJobParams) {
+    const job = await jobService.createJob(params);
+
+    await jobService.appendTraceEvent(job.id, {
+      agent: 'JobQueue',
+      status: 'pending',
+      timestamp: new Date().toISOString(),
+      detail: `Queued with priority ${job.priority}` +
+        (params.rerunOfId ? ` (rerun of ${params.rerunOfId})` : ''),
+    });
+
+    this.wake();
+    return job;
+  }
+
+  // Nudge the workers after a job is put back to 'queued' outside enqueue (e.g. resume)
+  wake(): void {
+    this.drain().catch(error => console.error('Job queue drain error:', error));
+  }
+
+  getStats() {
+    return {
+      active: this.active,
+      concurrency: config.jobConcurrency,
+    };
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      this.wakePending = true;
+      return;
+    }
+    this.draining = true;
+
+    try {
+      do {
+        this.wakePending = false;
+        while (this.active < config.jobConcurrency) {
+          const job = await jobService.claimNextJob();
+          if (!job) break;
+
+          this.active++;
+          this.run(job).finally(() => {
+            this.active--;
+            this.drain().catch(error => console.error('Job queue drain error:', error));
+          });
+        }
+      } while (this.wakePending);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    try {
+      // Structured analyses run their submitted plan; query jobs parse queryText
+      const plan = job.planSource === 'request' ? parseStoredPlan(job.plan) : null;
+      await runMasterAgent(job.queryText, job.id, parseRunOptions(job.options), plan ?? undefined);
+    } catch (error) {
+      // runMasterAgent records its own failures; this only catches errors in that handling
+      console.error(`Job ${job.id} failed outside the pipeline:`, error);
+      await jobService.updateJob(job.id, {
+        status: 'error',
+        failureReason: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(() => undefined);
+    }
+  }
+
+  private async recoverInterruptedJobs(): Promise<void> {
+    const interrupted = await jobService.getJobsByStatus('running');
+
+    for (const job of interrupted) {
+      if (job.cancelRequestedAt) {
+        await jobService.appendTraceEvent(job.id, {
+          agent: 'JobQueue',
+          status: 'cancelled',
+          timestamp: new Date().toISOString(),
+          detail: 'Cancelled (server restarted before the pipeline stopped)',
+        });
+        await jobService.updateJob(job.id, { status: 'cancelled' });
+      } else if (job.attempts < config.jobMaxAttempts) {
+        await jobService.updateJob(job.id, { status: 'queued' });
+        await jobService.appendTraceEvent(job.id, {
+          agent: 'JobQueue',
+          status: 'pending',
+          timestamp: new Date().toISOString(),
+          detail: `Requeued after server restart (attempt ${job.attempts + 1} of ${config.jobMaxAttempts})`,
+        });
+      } else {
+        const reason = `Interrupted by server restart after ${job.attempts} attempt(s)`;
+        await jobService.appendTraceEvent(job.id, {
+          agent: 'JobQueue',
+          status: 'error',
+          timestamp: new Date().toISOString(),
+          detail: reason,
+        });
+        await jobService.updateJob(job.id, { status: 'error', failureReason: reason });
+      }
+    }
+
+    if (interrupted.length > 0) {
+      console.log(`♻️ Recovered ${interrupted.length} interrupted job(s)`);
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
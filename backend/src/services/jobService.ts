@@ -1,26 +1,86 @@
-import { PrismaClient } from '@prisma/client';
+import { EventEmitter } from 'events';
+import { PrismaClient, TraceEvent, JobStage } from '@prisma/client';
 import { AgentTraceEvent } from '../types/agent';
+import { ExecutionPlan, PlanOrigin, PlanSource, RunOptions, RunOptionsSchema } from '../types/query';
 
 const prisma = new PrismaClient();
 
 export interface CreateJobParams {
   queryText: string;
+  priority?: number;
+  options?: RunOptions;
+  rerunOfId?: string;
+  // Set for structured analyses; query jobs record their parsed plan once it is known
+  plan?: ExecutionPlan;
 }
 
 export interface UpdateJobParams {
   status?: string;
   resultId?: string;
-  trace?: AgentTraceEvent[];
   cacheKey?: string;
+  failureReason?: string;
+  plan?: ExecutionPlan;
+  planSource?: PlanSource;
+  planOrigin?: PlanOrigin;
+}
+
+// Events pushed to live subscribers (e.g. the SSE endpoint).
+// Trace events carry their TraceEvent row id, which is strictly increasing per job.
+export type JobStreamEvent =
+  | { type: 'trace'; id: number; event: AgentTraceEvent }
+  | { type: 'status'; status: string; resultId: string | null };
+
+export interface TraceRecord {
+  id: number;
+  event: AgentTraceEvent;
+}
+
+export const TERMINAL_JOB_STATUSES = ['completed', 'error', 'cancelled'];
+
+export type CancelOutcome = 'cancelled' | 'cancelling' | 'finished' | 'not_found';
+
+export type ResumeOutcome = 'queued' | 'not_resumable' | 'not_found';
+
+// Only jobs that stopped before finishing can resume from their stored stages
+export const RESUMABLE_JOB_STATUSES = ['error', 'cancelled'];
+
+// Thrown by the pipeline at a stage boundary once cancellation has been requested
+export class JobCancelledError extends Error {
+  constructor(public stage: string) {
+    super(`Job cancelled before ${stage}`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+// Parse Job.options, ignoring anything that no longer validates
+export function parseRunOptions(raw: string | null): RunOptions {
+  if (!raw) return {};
+  try {
+    const validated = RunOptionsSchema.safeParse(JSON.parse(raw));
+    return validated.success ? validated.data : {};
+  } catch {
+    return {};
+  }
 }
 
 class JobService {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream - no upper bound
+    this.emitter.setMaxListeners(0);
+  }
+
   async createJob(params: CreateJobParams) {
     const job = await prisma.job.create({
       data: {
         queryText: params.queryText,
-        status: 'pending',
-        trace: JSON.stringify([]),
+        status: 'queued',
+        priority: params.priority ?? 0,
+        options: params.options ? JSON.stringify(params.options) : undefined,
+        rerunOfId: params.rerunOfId,
+        plan: params.plan ? JSON.stringify(params.plan) : undefined,
+        planSource: params.plan ? 'request' : undefined,
       },
     });
     return job;
@@ -37,33 +97,258 @@ class JobService {
     const data: any = {};
     if (params.status) data.status = params.status;
     if (params.resultId) data.resultId = params.resultId;
-    if (params.trace) data.trace = JSON.stringify(params.trace);
     if (params.cacheKey) data.cacheKey = params.cacheKey;
+    if (params.failureReason) data.failureReason = params.failureReason;
+    if (params.plan) data.plan = JSON.stringify(params.plan);
+    if (params.planSource) data.planSource = params.planSource;
+    if (params.planOrigin) data.planOrigin = params.planOrigin;
+    if (params.status && TERMINAL_JOB_STATUSES.includes(params.status)) data.finishedAt = new Date();
 
-    return prisma.job.update({
+    const job = await prisma.job.update({
       where: { id },
       data,
     });
+
+    if (params.status) {
+      this.emit(id, { type: 'status', status: job.status, resultId: job.resultId });
+    }
+
+    return job;
   }
 
-  async appendTraceEvent(id: string, event: AgentTraceEvent) {
-    const job = await this.getJob(id);
-    if (!job) throw new Error('Job not found');
+  /**
+   * Atomically claim the highest-priority queued job (oldest first within a priority)
+   * and mark it running. Returns null when the queue is empty.
+   */
+  async claimNextJob() {
+    // Another worker may claim the same row between read and update - retry a few times
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const next = await prisma.job.findFirst({
+        where: { status: 'queued' },
+        orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+      });
+      if (!next) return null;
+
+      const claimed = await prisma.job.updateMany({
+        where: { id: next.id, status: 'queued' },
+        data: { status: 'running', startedAt: new Date(), attempts: { increment: 1 } },
+      });
+
+      if (claimed.count === 1) {
+        const job = await prisma.job.findUniqueOrThrow({ where: { id: next.id } });
+        this.emit(job.id, { type: 'status', status: job.status, resultId: job.resultId });
+        return job;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Cancel a job. Queued jobs are cancelled immediately; running jobs are
+   * flagged and stop at the next stage boundary (see masterAgent).
+   */
+  async requestCancel(id: string): Promise<CancelOutcome> {
+    const dequeued = await prisma.job.updateMany({
+      where: { id, status: 'queued' },
+      data: { status: 'cancelled', cancelRequestedAt: new Date(), finishedAt: new Date() },
+    });
+
+    if (dequeued.count === 1) {
+      await this.appendTraceEvent(id, {
+        agent: 'JobQueue',
+        status: 'cancelled',
+        timestamp: new Date().toISOString(),
+        detail: 'Cancelled before starting',
+      });
+      this.emit(id, { type: 'status', status: 'cancelled', resultId: null });
+      return 'cancelled';
+    }
 
-    const trace: AgentTraceEvent[] = job.trace ? JSON.parse(job.trace) : [];
-    trace.push(event);
+    const flagged = await prisma.job.updateMany({
+      where: { id, status: 'running' },
+      data: { cancelRequestedAt: new Date() },
+    });
+    if (flagged.count === 1) return 'cancelling';
+
+    const job = await prisma.job.findUnique({ where: { id } });
+    return job ? 'finished' : 'not_found';
+  }
 
-    return prisma.job.update({
+  async isCancelRequested(id: string): Promise<boolean> {
+    const job = await prisma.job.findUnique({
       where: { id },
-      data: { trace: JSON.stringify(trace) },
+      select: { cancelRequestedAt: true },
     });
+    return !!job?.cancelRequestedAt;
+  }
+
+  /**
+   * Put a failed or cancelled job back on the queue. Its stored stage outputs
+   * are kept, so the pipeline picks up after the last completed stage.
+   */
+  async requeueForResume(id: string): Promise<ResumeOutcome> {
+    const requeued = await prisma.job.updateMany({
+      where: { id, status: { in: RESUMABLE_JOB_STATUSES } },
+      data: {
+        status: 'queued',
+        failureReason: null,
+        finishedAt: null,
+        cancelRequestedAt: null,
+      },
+    });
+
+    if (requeued.count === 1) {
+      this.emit(id, { type: 'status', status: 'queued', resultId: null });
+      return 'queued';
+    }
+
+    const job = await prisma.job.findUnique({ where: { id } });
+    return job ? 'not_resumable' : 'not_found';
+  }
+
+  async getJobsByStatus(status: string) {
+    return prisma.job.findMany({
+      where: { status },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Record a trace event as its own row (single atomic insert).
+   * For completed/error events, start time and duration are derived from the
+   * agent's most recent run when the caller doesn't supply them.
+   */
+  async appendTraceEvent(id: string, event: AgentTraceEvent) {
+    const timestamp = new Date(event.timestamp);
+    let startedAt = event.startedAt ? new Date(event.startedAt) : undefined;
+    let endedAt = event.endedAt ? new Date(event.endedAt) : undefined;
+
+    if (event.status === 'completed' || event.status === 'error' || event.status === 'cancelled') {
+      endedAt = endedAt || timestamp;
+      if (!startedAt) {
+        const runStart = await this.findRunStart(id, event.agent);
+        startedAt = runStart?.timestamp;
+      }
+    }
+
+    const durationMs = event.durationMs ??
+      (startedAt && endedAt ? endedAt.getTime() - startedAt.getTime() : undefined);
+
+    const record = await prisma.traceEvent.create({
+      data: {
+        jobId: id,
+        agent: event.agent,
+        status: event.status,
+        timestamp,
+        detail: event.detail,
+        startedAt,
+        endedAt,
+        durationMs,
+        inputCount: event.inputCount,
+        outputCount: event.outputCount,
+        errorStack: event.errorStack,
+      },
+    });
+
+    this.emit(id, { type: 'trace', id: record.id, event: toTraceEvent(record) });
+
+    return record;
   }
 
   async getTrace(id: string): Promise<AgentTraceEvent[]> {
-    const job = await this.getJob(id);
+    const records = await this.getTraceRecords(id);
+    return records.map(r => r.event);
+  }
+
+  async getTraceRecords(id: string): Promise<TraceRecord[]> {
+    const job = await prisma.job.findUnique({
+      where: { id },
+      include: { traceEvents: { orderBy: { id: 'asc' } } },
+    });
     if (!job) throw new Error('Job not found');
-    return job.trace ? JSON.parse(job.trace) : [];
+    return job.traceEvents.map(r => ({ id: r.id, event: toTraceEvent(r) }));
+  }
+
+  /**
+   * Subscribe to live trace/status events for a job.
+   * Returns an unsubscribe function.
+   */
+  subscribe(id: string, listener: (event: JobStreamEvent) => void): () => void {
+    this.emitter.on(id, listener);
+    return () => {
+      this.emitter.off(id, listener);
+    };
+  }
+
+  /**
+   * Store (or replace) the output of a pipeline stage for a job
+   */
+  async saveStageOutput(jobId: string, stage: string, output: unknown, startedAt: Date) {
+    const completedAt = new Date();
+    const data = {
+      output: JSON.stringify(output ?? null),
+      startedAt,
+      completedAt,
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+    };
+
+    return prisma.jobStage.upsert({
+      where: { jobId_stage: { jobId, stage } },
+      create: { jobId, stage, ...data },
+      update: data,
+    });
+  }
+
+  async getStageOutput(jobId: string, stage: string): Promise<JobStage | null> {
+    return prisma.jobStage.findUnique({
+      where: { jobId_stage: { jobId, stage } },
+    });
   }
+
+  async getStageOutputs(jobId: string): Promise<JobStage[]> {
+    return prisma.jobStage.findMany({
+      where: { jobId },
+      orderBy: { completedAt: 'asc' },
+    });
+  }
+
+  // First 'running' event since the agent last finished
+  private async findRunStart(jobId: string, agent: string) {
+    const lastFinished = await prisma.traceEvent.findFirst({
+      where: { jobId, agent, status: { in: ['completed', 'error', 'cancelled'] } },
+      orderBy: { id: 'desc' },
+    });
+
+    return prisma.traceEvent.findFirst({
+      where: {
+        jobId,
+        agent,
+        status: 'running',
+        ...(lastFinished ? { id: { gt: lastFinished.id } } : {}),
+      },
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  private emit(id: string, event: JobStreamEvent) {
+    this.emitter.emit(id, event);
+  }
+}
+
+// Map a TraceEvent row back to the AgentTraceEvent shape served by /trace and the event stream.
+// The error stack stays in the row - it exposes server paths and internals to clients
+function toTraceEvent(record: TraceEvent): AgentTraceEvent {
+  return {
+    agent: record.agent,
+    status: record.status as AgentTraceEvent['status'],
+    timestamp: record.timestamp.toISOString(),
+    detail: record.detail ?? undefined,
+    startedAt: record.startedAt?.toISOString(),
+    endedAt: record.endedAt?.toISOString(),
+    durationMs: record.durationMs ?? undefined,
+    inputCount: record.inputCount ?? undefined,
+    outputCount: record.outputCount ?? undefined,
+  };
 }
 
 export const jobService = new JobService();
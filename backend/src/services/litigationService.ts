@@ -0,0 +1,219 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PrismaClient, PatentLitigation } from '@prisma/client';
+import { moleculeService } from './moleculeService';
+import { LitigationCaseInfo } from '../types/agent';
+import {
+  LitigationCase,
+  LitigationCaseSchema,
+  LitigationImportResult,
+  LitigationOutcome,
+} from '../types/litigation';
+
+const prisma = new PrismaClient();
+
+const CURATED_FILE = path.join(__dirname, '../data/curated/patent-litigation.json');
+
+export type CreateLitigationOutcome =
+  | { status: 'created'; litigation: PatentLitigation }
+  | { status: 'molecule_not_found' }
+  | { status: 'case_exists' };
+
+export type ImportLitigationOutcome =
+  | { status: 'imported'; result: LitigationImportResult }
+  | { status: 'file_not_found'; path: string };
+
+/**
+ * Patent Litigation - court cases and patent office challenges per molecule
+ *
+ * - A case is identified by court + case number; an import updates cases it already has,
+ *   so re-importing a refreshed file records new outcomes rather than duplicating cases
+ * - Curated file: data/curated/patent-litigation.json, `{ "litigation": [case, ...] }`
+ *   (same fields as the admin endpoint); molecules are matched by name, brand or alias.
+ *   Entries in the earlier one-row-per-patent format (patentNumber / case / parties /
+ *   jurisdiction) are converted, rows of the same case merged into one
+ * - Patent numbers are stored as written on Patent (e.g. US8,129,343) and compared
+ *   ignoring punctuation
+ */
+class LitigationService {
+  async forMolecule(molecule: string): Promise<PatentLitigation[]> {
+    return prisma.patentLitigation.findMany({
+      where: { molecule },
+      orderBy: { filedDate: 'asc' },
+    });
+  }
+
+  async createCase(input: LitigationCase): Promise<CreateLitigationOutcome> {
+    const molecule = await moleculeService.findByName(input.molecule);
+    if (!molecule) return { status: 'molecule_not_found' };
+
+    const existing = await prisma.patentLitigation.findUnique({
+      where: { court_caseNumber: { court: input.court, caseNumber: input.caseNumber } },
+    });
+    if (existing) return { status: 'case_exists' };
+
+    const litigation = await prisma.patentLitigation.create({ data: toRowData(input, molecule.name) });
+    return { status: 'created', litigation };
+  }
+
+  async importCurated(filePath = CURATED_FILE): Promise<ImportLitigationOutcome> {
+    if (!fs.existsSync(filePath)) return { status: 'file_not_found', path: filePath };
+
+    const entries: unknown[] = JSON.parse(fs.readFileSync(filePath, 'utf-8')).litigation ?? [];
+    const result: LitigationImportResult = { parsed: entries.length, created: 0, updated: 0, invalid: [] };
+
+    for (const { index, raw } of convertLegacyEntries(entries)) {
+      const validation = LitigationCaseSchema.safeParse(raw);
+      if (!validation.success) {
+        result.invalid.push({
+          index,
+          caseNumber: (raw as { caseNumber?: string })?.caseNumber,
+          errors: validation.error.issues.map(i => `${i.path.join('.')}: ${i.message}`),
+        });
+        continue;
+      }
+
+      const input = validation.data;
+      const match = await moleculeService.resolveMolecule(input.molecule);
+      if (!match || match.matchType === 'fuzzy') {
+        result.invalid.push({ index, caseNumber: input.caseNumber, errors: [`Unknown molecule: ${input.molecule}`] });
+        continue;
+      }
+
+      const data = toRowData(input, match.molecule);
+      const where = { court_caseNumber: { court: input.court, caseNumber: input.caseNumber } };
+      const existing = await prisma.patentLitigation.findUnique({ where });
+      if (existing) {
+        await prisma.patentLitigation.update({ where, data });
+        result.updated++;
+      } else {
+        await prisma.patentLitigation.create({ data });
+        result.created++;
+      }
+    }
+
+    return { status: 'imported', result };
+  }
+}
+
+// Earlier curated format: one entry per patent, no docket number, free-text outcome
+interface LegacyLitigationEntry {
+  molecule?: string;
+  patentNumber: string;
+  case: string;
+  parties?: string[];
+  filingDate?: string;
+  decisionDate?: string;
+  outcome?: string;
+  jurisdiction?: string;
+  summary?: string;
+}
+
+const LEGACY_OUTCOMES: Record<string, LitigationOutcome> = {
+  pending: 'PENDING',
+  settlement: 'SETTLED',
+  settled: 'SETTLED',
+  dismissed: 'DISMISSED',
+  invalidated: 'INVALIDATED',
+  'patent invalidated': 'INVALIDATED',
+  upheld: 'UPHELD',
+  'patent upheld': 'UPHELD',
+};
+
+function isLegacyEntry(raw: unknown): raw is LegacyLitigationEntry {
+  const entry = raw as Record<string, unknown> | null;
+  return !!entry && typeof entry.patentNumber === 'string' && typeof entry.case === 'string' && !('caseNumber' in entry);
+}
+
+// Legacy entries become one case per court + case name (the name stands in for the missing
+// docket number); the first party is taken as plaintiff, the rest as defendants.
+// Each result keeps the index of its first entry for error reporting
+function convertLegacyEntries(entries: unknown[]): Array<{ index: number; raw: unknown }> {
+  const converted: Array<{ index: number; raw: unknown }> = [];
+  const legacyCases = new Map<string, Record<string, unknown> & { patentNumbers: string[]; patentsInvalidated: string[]; patentsUpheld: string[] }>();
+
+  for (const [index, raw] of entries.entries()) {
+    if (!isLegacyEntry(raw)) {
+      converted.push({ index, raw });
+      continue;
+    }
+
+    const outcome = LEGACY_OUTCOMES[raw.outcome?.trim().toLowerCase() ?? ''] ?? raw.outcome?.toUpperCase();
+    const court = raw.jurisdiction ?? 'Unknown';
+    const key = `${court}|${raw.case}`;
+    let litigation = legacyCases.get(key);
+    if (!litigation) {
+      const [plaintiff, ...defendants] = raw.parties ?? [];
+      litigation = {
+        molecule: raw.molecule,
+        caseNumber: raw.case,
+        caseName: raw.case,
+        court,
+        plaintiffs: plaintiff ? [plaintiff] : [],
+        defendants,
+        patentNumbers: [],
+        patentsInvalidated: [],
+        patentsUpheld: [],
+        outcome,
+        filedDate: raw.filingDate,
+        decisionDate: raw.decisionDate,
+        notes: raw.summary,
+      };
+      legacyCases.set(key, litigation);
+      converted.push({ index, raw: litigation });
+    }
+
+    litigation.patentNumbers.push(raw.patentNumber);
+    if (outcome === 'INVALIDATED') litigation.patentsInvalidated.push(raw.patentNumber);
+    if (outcome === 'UPHELD') litigation.patentsUpheld.push(raw.patentNumber);
+  }
+
+  return converted;
+}
+
+function toRowData(input: LitigationCase, molecule: string) {
+  return {
+    molecule,
+    country: input.country,
+    caseNumber: input.caseNumber,
+    caseName: input.caseName,
+    court: input.court,
+    plaintiffs: JSON.stringify(input.plaintiffs),
+    defendants: JSON.stringify(input.defendants),
+    patentNumbers: JSON.stringify(input.patentNumbers),
+    patentsInvalidated: JSON.stringify(input.patentsInvalidated),
+    patentsUpheld: JSON.stringify(input.patentsUpheld),
+    outcome: input.outcome,
+    filedDate: new Date(input.filedDate),
+    decisionDate: input.decisionDate ? new Date(input.decisionDate) : null,
+    notes: input.notes,
+    dataSource: input.dataSource ?? 'Curated',
+  };
+}
+
+export function toLitigationCaseInfo(row: PatentLitigation): LitigationCaseInfo {
+  return {
+    caseNumber: row.caseNumber,
+    caseName: row.caseName,
+    court: row.court,
+    country: row.country,
+    plaintiffs: parseList(row.plaintiffs),
+    defendants: parseList(row.defendants),
+    patentNumbers: parseList(row.patentNumbers),
+    patentsInvalidated: parseList(row.patentsInvalidated),
+    patentsUpheld: parseList(row.patentsUpheld),
+    outcome: row.outcome as LitigationOutcome,
+    filedDate: row.filedDate.toISOString().split('T')[0],
+    decisionDate: row.decisionDate?.toISOString().split('T')[0],
+  };
+}
+
+function parseList(raw: string): string[] {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return [];
+  }
+}
+
+export const litigationService = new LitigationService();
@@ -0,0 +1,135 @@
+import axios, { AxiosError } from 'axios';
+import { LlmProvider, LlmRequest, LlmResponse } from '../../types/llm';
+import { delay, LlmProviderError, MAX_ATTEMPTS, retryDelayMs } from './retry';
+
+// Primary and fallback models
+const GEMINI_MODELS = [
+  'gemini-2.5-flash',
+  'gemini-2.0-flash',
+  'gemini-2.0-flash-lite',
+];
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+interface GeminiResponse {
+  candidates: Array<{
+    content: {
+      parts: Array<{
+        text: string;
+      }>;
+    };
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+  };
+}
+
+interface GeminiError {
+  error: {
+    code: number;
+    message: string;
+    status: string;
+  };
+}
+
+/**
+ * Gemini provider - tries each model in turn, retrying rate limits and server errors.
+ * A configured model (LLM_MODEL) is tried first, then the default models.
+ */
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini' as const;
+  private readonly models: string[];
+
+  constructor(private readonly apiKey: string, model?: string) {
+    this.models = model ? [model, ...GEMINI_MODELS.filter(m => m !== model)] : GEMINI_MODELS;
+  }
+
+  get model(): string {
+    return this.models[0];
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    const contents = [];
+
+    if (request.systemInstructions) {
+      contents.push({
+        role: 'user',
+        parts: [{ text: request.systemInstructions }]
+      });
+      contents.push({
+        role: 'model',
+        parts: [{ text: 'Understood. I will follow these instructions.' }]
+      });
+    }
+
+    contents.push({
+      role: 'user',
+      parts: [{ text: request.prompt }]
+    });
+
+    let lastError: Error | null = null;
+    let retries = 0;
+
+    // Try each model with retry logic
+    for (const model of this.models) {
+      for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        try {
+          const url = `${GEMINI_API_BASE}/${model}:generateContent?key=${this.apiKey}`;
+
+          const response = await axios.post<GeminiResponse>(
+            url,
+            {
+              contents,
+              generationConfig: {
+                temperature: 0.7,
+                maxOutputTokens: 2048,
+                ...(request.json ? { responseMimeType: 'application/json' } : {}),
+              }
+            },
+            {
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              timeout: 30000, // 30 second timeout
+            }
+          );
+
+          const text = response.data.candidates?.[0]?.content?.parts?.[0]?.text;
+          if (!text) {
+            throw new Error('No response text from Gemini');
+          }
+          const usage = response.data.usageMetadata;
+          return {
+            text,
+            model,
+            usage: usage ? {
+              inputTokens: usage.promptTokenCount || 0,
+              outputTokens: usage.candidatesTokenCount || 0,
+            } : undefined,
+            retries,
+          };
+        } catch (error) {
+          const axiosError = error as AxiosError<GeminiError>;
+          const status = axiosError.response?.status;
+          const errorMessage = axiosError.response?.data?.error?.message || axiosError.message;
+
+          console.warn(`Gemini API attempt ${attempt}/${MAX_ATTEMPTS} failed (${model}): ${status} - ${errorMessage}`);
+          lastError = error as Error;
+          retries++;
+
+          // Rate limit / server error - wait and retry; anything else - try next model
+          const waitTime = retryDelayMs(error, attempt);
+          if (waitTime === null) break;
+          if (status === 429) {
+            console.log(`Rate limited. Waiting ${waitTime}ms before retry...`);
+          }
+          await delay(waitTime);
+        }
+      }
+    }
+
+    // All models and retries failed
+    console.error('All Gemini API attempts failed. Using fallback response.');
+    throw new LlmProviderError(lastError?.message || 'Gemini API unavailable', Math.max(0, retries - 1));
+  }
+}
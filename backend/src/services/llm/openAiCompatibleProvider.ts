@@ -0,0 +1,112 @@
+import axios, { AxiosError } from 'axios';
+import { LlmProvider, LlmRequest, LlmResponse } from '../../types/llm';
+import { delay, LlmProviderError, MAX_ATTEMPTS, retryDelayMs } from './retry';
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: Array<{
+    message: {
+      content: string | null;
+    };
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  };
+}
+
+interface ChatCompletionError {
+  error?: {
+    message?: string;
+  };
+}
+
+/**
+ * OpenAI-compatible provider - any server exposing POST /chat/completions
+ * (OpenAI, Azure-style gateways, vLLM, Ollama, llama.cpp server, ...).
+ * The API key is optional, since local servers usually don't check it.
+ * JSON mode (response_format) is dropped if the server rejects it with a 400.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private readonly baseUrl: string,
+    readonly model: string,
+    private readonly apiKey?: string
+  ) {
+    if (!model) {
+      throw new Error('LLM_MODEL is required for the openai provider');
+    }
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    const messages = [];
+    if (request.systemInstructions) {
+      messages.push({ role: 'system', content: request.systemInstructions });
+    }
+    messages.push({ role: 'user', content: request.prompt });
+
+    const url = `${this.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    let lastError: Error | null = null;
+    let jsonMode = !!request.json;
+    let retries = 0;
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      try {
+        const response = await axios.post<ChatCompletionResponse>(
+          url,
+          {
+            model: this.model,
+            messages,
+            temperature: 0.7,
+            max_tokens: 2048,
+            ...(jsonMode ? { response_format: { type: 'json_object' } } : {}),
+          },
+          {
+            headers: {
+              'Content-Type': 'application/json',
+              ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+            },
+            timeout: 60000, // Local models can be slow
+          }
+        );
+
+        const text = response.data.choices?.[0]?.message?.content;
+        if (!text) {
+          throw new Error(`No response text from ${url}`);
+        }
+        const usage = response.data.usage;
+        return {
+          text,
+          model: response.data.model || this.model,
+          usage: usage ? {
+            inputTokens: usage.prompt_tokens || 0,
+            outputTokens: usage.completion_tokens || 0,
+          } : undefined,
+          retries,
+        };
+      } catch (error) {
+        const axiosError = error as AxiosError<ChatCompletionError>;
+        const status = axiosError.response?.status;
+        const errorMessage = axiosError.response?.data?.error?.message || axiosError.message;
+
+        console.warn(`LLM API attempt ${attempt}/${MAX_ATTEMPTS} failed (${this.model}): ${status} - ${errorMessage}`);
+        lastError = error as Error;
+        retries++;
+
+        if (status === 400 && jsonMode) {
+          jsonMode = false;
+          continue;
+        }
+
+        const waitTime = retryDelayMs(error, attempt);
+        if (waitTime === null) break;
+        await delay(waitTime);
+      }
+    }
+
+    console.error('All LLM API attempts failed. Using fallback response.');
+    throw new LlmProviderError(lastError?.message || 'LLM API unavailable', Math.max(0, retries - 1));
+  }
+}
@@ -0,0 +1,25 @@
+import { config } from '../../config/env';
+import { LlmUsage } from '../../types/llm';
+
+// List prices in USD per million tokens - estimates only, check the provider's billing for actuals
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.30 },
+  stub: { input: 0, output: 0 },
+};
+
+/**
+ * Estimated cost of one call. LLM_PRICE_INPUT_PER_M / LLM_PRICE_OUTPUT_PER_M override
+ * the list prices; null when the model has no known price or no token counts came back.
+ */
+export function estimateCostUSD(model: string, usage?: LlmUsage): number | null {
+  if (!usage) return null;
+
+  const listed = MODEL_PRICES[model];
+  const input = config.llmPriceInputPerM ?? listed?.input;
+  const output = config.llmPriceOutputPerM ?? listed?.output;
+  if (input === undefined || output === undefined) return null;
+
+  return (usage.inputTokens * input + usage.outputTokens * output) / 1_000_000;
+}
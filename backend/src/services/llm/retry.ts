@@ -0,0 +1,26 @@
+import { AxiosError } from 'axios';
+
+export const MAX_ATTEMPTS = 3;
+
+// Every attempt failed; `retries` counts the attempts after the first (across models)
+export class LlmProviderError extends Error {
+  constructor(message: string, readonly retries: number) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+// Simple delay function for retry
+export const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * How long to wait before retrying a failed HTTP call, or null when retrying won't help.
+ * Rate limits back off exponentially (max 10s); server errors back off linearly;
+ * anything else (400, 401, 403, 404, network errors) is not retried.
+ */
+export function retryDelayMs(error: unknown, attempt: number): number | null {
+  const status = (error as AxiosError).response?.status;
+  if (status === 429) return Math.min(1000 * Math.pow(2, attempt), 10000);
+  if (status && status >= 500) return 1000 * attempt;
+  return null;
+}
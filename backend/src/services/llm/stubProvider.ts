@@ -0,0 +1,64 @@
+import { LlmProvider, LlmRequest, LlmResponse } from '../../types/llm';
+
+/**
+ * Stub provider - deterministic, offline responses for air-gapped runs and CI.
+ *
+ * - plan: runs the full pipeline; condition, country and molecules are left to
+ *   the keyword extraction in planService, so the plan depends only on the query
+ * - summary / recommendations: canned text built from the facts in the prompt
+ * - synthesis and anything else: an empty JSON array, so callers use their fallbacks
+ */
+export class StubProvider implements LlmProvider {
+  readonly name = 'stub' as const;
+  readonly model = 'stub';
+
+  async generate(request: LlmRequest): Promise<LlmResponse> {
+    // Nothing is spent offline
+    return { text: cannedResponse(request), model: this.model, usage: { inputTokens: 0, outputTokens: 0 }, retries: 0 };
+  }
+}
+
+function cannedResponse(request: LlmRequest): string {
+  const { prompt } = request;
+
+  switch (request.purpose) {
+    case 'plan':
+      return JSON.stringify({
+        agentsToRun: ['scope', 'fto', 'clinical', 'market', 'decision'],
+      });
+
+    case 'summary': {
+      const query = prompt.match(/<user_query>\n(.*)\n<\/user_query>/)?.[1] || 'the requested analysis';
+      const molecules = prompt.match(/Total molecules analyzed: (\d+)/)?.[1] || '0';
+      const market = prompt.match(/Total drug market opportunity: (\$[\d.]+B)/)?.[1] || 'an unquantified';
+      const markets = prompt.match(/Total drug market opportunity: [^\n]*\(combined ([^)\n]+)\)/)?.[1] || 'the analyzed markets';
+      return `This report answers "${query}". It covers ${molecules} molecule(s) with ${market} ` +
+        `combined drug market opportunity across ${markets}.\n\n` +
+        `The summary was generated offline by the stub LLM provider, so it restates the analysis ` +
+        `figures without further interpretation. Refer to the molecule-level recommendations, ` +
+        `freedom-to-operate position and market overview sections for the supporting detail.`;
+    }
+
+    case 'recommendations': {
+      const top = prompt.match(/Top opportunity: ([^\n(]+) \(([^)]+)\)/);
+      const generics = prompt.match(/Generic opportunities: ([^\n]+)/)?.[1];
+      const licenses = prompt.match(/License opportunities: ([^\n]+)/)?.[1];
+      const items = [
+        top && top[1].trim() !== 'N/A'
+          ? `Prioritise ${top[1].trim()} (${top[2]}) for board review`
+          : 'Review the molecule-level recommendations with the BD team',
+        generics && generics !== 'None'
+          ? `Assess generic filing readiness for ${generics}`
+          : 'Monitor patent expiries for emerging generic opportunities',
+        licenses && licenses !== 'None'
+          ? `Open licensing discussions for ${licenses}`
+          : 'Screen innovators for in-licensing candidates',
+        'Refresh patent and market data before committing investment',
+      ];
+      return JSON.stringify(items);
+    }
+
+    default:
+      return '[]';
+  }
+}
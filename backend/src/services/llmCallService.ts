@@ -0,0 +1,108 @@
+import { PrismaClient, LlmCall } from '@prisma/client';
+import { parseRunOptions } from './jobService';
+import { LlmProviderName, LlmRequest, LlmUsage } from '../types/llm';
+
+const prisma = new PrismaClient();
+
+export interface RecordLlmCallParams {
+  jobId?: string;
+  request: LlmRequest;
+  provider: LlmProviderName | 'replay';
+  model?: string;
+  responseText?: string;
+  error?: string;
+  latencyMs: number;
+  usage?: LlmUsage;
+  retries?: number;
+  costUSD?: number | null;
+  replayedFromId?: number;
+}
+
+/**
+ * LLM Call Recorder - persists every LLM request and answers a replay job's
+ * requests from the job it replays
+ *
+ * - Rows store the prompt, model, latency and raw response text (or the error),
+ *   with token counts, retries and estimated cost for usage accounting
+ * - Replay matches a request to a recorded call with the same purpose and prompt;
+ *   when the prompt has changed (e.g. the data did), the recorded call in the
+ *   same position for that purpose is used instead
+ * - A recorded failure replays as a failure, so the caller's fallback runs again
+ */
+class LlmCallService {
+  async record(params: RecordLlmCallParams): Promise<void> {
+    await prisma.llmCall.create({
+      data: {
+        jobId: params.jobId,
+        purpose: params.request.purpose,
+        provider: params.provider,
+        model: params.model,
+        systemInstructions: params.request.systemInstructions,
+        prompt: params.request.prompt,
+        responseText: params.responseText,
+        error: params.error,
+        latencyMs: params.latencyMs,
+        inputTokens: params.usage?.inputTokens,
+        outputTokens: params.usage?.outputTokens,
+        retries: params.retries ?? 0,
+        costUSD: params.costUSD ?? null,
+        replayedFromId: params.replayedFromId,
+      },
+    });
+  }
+
+  async listCalls(jobId: string): Promise<LlmCall[]> {
+    return prisma.llmCall.findMany({
+      where: { jobId },
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  /**
+   * The job whose recording a replay of `jobId` should use: the job itself, or for
+   * a cache hit the job that produced the reused report. Null when nothing was recorded.
+   */
+  async recordedJobFor(jobId: string): Promise<string | null> {
+    if (await prisma.llmCall.count({ where: { jobId } }) > 0) return jobId;
+
+    const job = await prisma.job.findUnique({ where: { id: jobId }, select: { resultId: true } });
+    const report = job?.resultId
+      ? await prisma.report.findUnique({ where: { id: job.resultId }, select: { jobId: true } })
+      : null;
+    if (report && report.jobId !== jobId && await prisma.llmCall.count({ where: { jobId: report.jobId } }) > 0) {
+      return report.jobId;
+    }
+    return null;
+  }
+
+  // The job whose responses this job replays, if it is a replay
+  async replaySourceFor(jobId: string): Promise<string | null> {
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      select: { options: true },
+    });
+    return job ? parseRunOptions(job.options).replayOf ?? null : null;
+  }
+
+  /**
+   * The recorded call that answers `request` in a replay of `sourceJobId`,
+   * or null when the source job made no call for this purpose.
+   */
+  async findRecordedCall(jobId: string, sourceJobId: string, request: LlmRequest): Promise<LlmCall | null> {
+    const recorded = await prisma.llmCall.findMany({
+      where: { jobId: sourceJobId, purpose: request.purpose },
+      orderBy: { id: 'asc' },
+    });
+    if (recorded.length === 0) return null;
+
+    const samePrompt = recorded.find(c => c.prompt === request.prompt);
+    if (samePrompt) return samePrompt;
+
+    const alreadyReplayed = await prisma.llmCall.count({
+      where: { jobId, purpose: request.purpose },
+    });
+    return recorded[Math.min(alreadyReplayed, recorded.length - 1)];
+  }
+}
+
+export const llmCallService = new LlmCallService();
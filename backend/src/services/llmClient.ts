@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import { config } from '../config/env';
+import {
+  LLM_PROVIDERS,
+  LlmCallOptions,
+  LlmProvider,
+  LlmProviderName,
+  LlmRequest,
+  LlmStructuredOptions,
+  LlmStructuredResult,
+} from '../types/llm';
+import { GeminiProvider } from './llm/geminiProvider';
+import { OpenAICompatibleProvider } from './llm/openAiCompatibleProvider';
+import { StubProvider } from './llm/stubProvider';
+import { LlmProviderError } from './llm/retry';
+import { estimateCostUSD } from './llm/pricing';
+import { llmCallService, RecordLlmCallParams } from './llmCallService';
+
+let provider: LlmProvider | null = null;
+
+// Structured output still invalid after every repair attempt
+export class LlmOutputError extends Error {
+  constructor(message: string, readonly attempts: number) {
+    super(message);
+    this.name = 'LlmOutputError';
+  }
+}
+
+/**
+ * The configured LLM provider (LLM_PROVIDER), created on first use.
+ * Throws on an unknown provider name or incomplete configuration.
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    provider = createProvider(config.llmProvider);
+  }
+  return provider;
+}
+
+function createProvider(name: string): LlmProvider {
+  if (!LLM_PROVIDERS.includes(name as LlmProviderName)) {
+    throw new Error(`Unknown LLM_PROVIDER "${name}" (expected one of: ${LLM_PROVIDERS.join(', ')})`);
+  }
+  switch (name as LlmProviderName) {
+    case 'gemini':
+      return new GeminiProvider(config.geminiApiKey, config.llmModel || undefined);
+    case 'openai':
+      return new OpenAICompatibleProvider(config.openaiBaseUrl, config.llmModel, config.openaiApiKey || undefined);
+    case 'stub':
+      return new StubProvider();
+  }
+}
+
+/**
+ * Send a prompt to the configured provider and return the response text.
+ * Every call is recorded (against the job, when there is one) with its tokens and cost;
+ * a replay job is answered from its source job's recording.
+ */
+export async function callLlm(prompt: string, options: LlmCallOptions = {}): Promise<string> {
+  const request: LlmRequest = {
+    prompt,
+    systemInstructions: options.systemInstructions,
+    purpose: options.purpose || 'other',
+    json: options.json,
+  };
+  const { jobId } = options;
+
+  const replayOf = jobId ? await llmCallService.replaySourceFor(jobId) : null;
+  if (jobId && replayOf) {
+    return replayCall(jobId, replayOf, request);
+  }
+
+  const llm = getLlmProvider();
+  const startedAt = Date.now();
+  try {
+    const response = await llm.generate(request);
+    await recordCall({
+      jobId,
+      request,
+      provider: llm.name,
+      model: response.model,
+      responseText: response.text,
+      latencyMs: Date.now() - startedAt,
+      usage: response.usage,
+      retries: response.retries,
+      costUSD: estimateCostUSD(response.model, response.usage),
+    });
+    return response.text;
+  } catch (error) {
+    await recordCall({
+      jobId,
+      request,
+      provider: llm.name,
+      model: llm.model,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      latencyMs: Date.now() - startedAt,
+      retries: error instanceof LlmProviderError ? error.retries : 0,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Call the LLM for JSON matching `schema` (in the provider's JSON mode).
+ * Invalid JSON or a failed validation is sent back with the errors for up to
+ * `maxRepairs` further attempts; throws LlmOutputError when none is valid.
+ * Provider errors (network, auth) are thrown as-is without repair attempts.
+ */
+export async function callLlmStructured<T>(
+  prompt: string,
+  schema: z.ZodType<T>,
+  options: LlmStructuredOptions = {}
+): Promise<LlmStructuredResult<T>> {
+  const { maxRepairs = config.llmMaxRepairs, ...callOptions } = options;
+  let currentPrompt = prompt;
+  let problem = '';
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const text = await callLlm(currentPrompt, { ...callOptions, json: true });
+    const result = validateJson(text, schema);
+    if ('data' in result) {
+      return { data: result.data, attempts: attempt };
+    }
+
+    problem = result.problem;
+    console.warn(`LLM structured output attempt ${attempt}/${maxRepairs + 1} invalid: ${problem}`);
+    currentPrompt = `${prompt}
+
+Your previous response was:
+${text}
+
+It was rejected: ${problem}
+Return only the corrected JSON.`;
+  }
+
+  throw new LlmOutputError(`Invalid LLM output after ${maxRepairs + 1} attempt(s): ${problem}`, maxRepairs + 1);
+}
+
+function validateJson<T>(text: string, schema: z.ZodType<T>): { data: T } | { problem: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(text));
+  } catch (error) {
+    return { problem: `response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})` };
+  }
+
+  const validated = schema.safeParse(parsed);
+  if (validated.success) {
+    return { data: validated.data };
+  }
+  return {
+    problem: validated.error.issues
+      .map(i => `${i.path.length > 0 ? i.path.join('.') : '(root)'}: ${i.message}`)
+      .join('; '),
+  };
+}
+
+// Answer a request from the source job's recording - failures replay as failures
+async function replayCall(jobId: string, sourceJobId: string, request: LlmRequest): Promise<string> {
+  const startedAt = Date.now();
+  const recorded = await llmCallService.findRecordedCall(jobId, sourceJobId, request);
+  const error = !recorded
+    ? `No recorded ${request.purpose} response in job ${sourceJobId}`
+    : recorded.responseText === null ? recorded.error || 'Recorded call failed' : undefined;
+
+  await recordCall({
+    jobId,
+    request,
+    provider: 'replay',
+    model: recorded?.model ?? undefined,
+    responseText: recorded?.responseText ?? undefined,
+    error,
+    latencyMs: Date.now() - startedAt,
+    costUSD: 0,
+    replayedFromId: recorded?.id,
+  });
+
+  if (error) {
+    throw new Error(error);
+  }
+  return recorded!.responseText!;
+}
+
+// Recording is best-effort: a failed insert must not fail the analysis
+async function recordCall(params: RecordLlmCallParams): Promise<void> {
+  try {
+    await llmCallService.record(params);
+  } catch (error) {
+    console.error(`Failed to record LLM call${params.jobId ? ` for job ${params.jobId}` : ''}:`, error);
+  }
+}
+
+// Helper to extract JSON from an LLM response (handles markdown code blocks)
+export function extractJson(text: string): string {
+  // Try to extract JSON from code blocks first
+  const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (jsonMatch) {
+    return jsonMatch[1].trim();
+  }
+
+  // Try to find JSON object or array
+  const objectMatch = text.match(/\{[\s\S]*\}/);
+  const arrayMatch = text.match(/\[[\s\S]*\]/);
+
+  if (objectMatch) return objectMatch[0];
+  if (arrayMatch) return arrayMatch[0];
+
+  return text.trim();
+}
@@ -0,0 +1,214 @@
+import { PrismaClient, Molecule, MoleculeAlias } from '@prisma/client';
+import { MoleculeAliasRequest, MoleculeMatch, MoleculeMatchType } from '../types/molecule';
+
+const prisma = new PrismaClient();
+
+export type MoleculeWithAliases = Molecule & { aliases: MoleculeAlias[] };
+
+export type AddMoleculeAliasOutcome =
+  | { status: 'created'; alias: MoleculeAlias }
+  | { status: 'molecule_not_found' }
+  | { status: 'alias_exists'; molecule: string };
+
+// Fuzzy matches below this are treated as no match
+const MIN_FUZZY_CONFIDENCE = 0.8;
+
+// Words shorter than this are never fuzzy-matched ("with", "than", ...)
+const MIN_FUZZY_LENGTH = 5;
+
+// A lower-case term that names a molecule: its name, generic name, a brand or an alias
+interface MoleculeTerm {
+  term: string;
+  type: Exclude<MoleculeMatchType, 'fuzzy'>;
+  molecule: string;
+}
+
+/**
+ * Molecule Resolver - maps names, brands, aliases and typos to curated molecules
+ *
+ * - Driven by the Molecule table (name, genericName, brandName) plus MoleculeAlias,
+ *   so newly seeded molecules are recognised without a code change
+ * - Exact terms first, then Levenshtein distance for misspellings ("semaglutid")
+ * - Used by query parsing (free text), plan resolution and the molecule scope agent
+ * - Molecules are loaded once and reloaded after any change made through this service
+ */
+class MoleculeService {
+  private loaded: Promise<MoleculeWithAliases[]> | null = null;
+
+  async listMolecules(): Promise<MoleculeWithAliases[]> {
+    if (!this.loaded) {
+      this.loaded = prisma.molecule.findMany({
+        include: { aliases: { orderBy: { alias: 'asc' } } },
+        orderBy: { name: 'asc' },
+      });
+      // Don't keep a failed load around
+      this.loaded.catch(() => { this.loaded = null; });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Resolve one molecule name (e.g. from a plan): an exact name, generic name,
+   * brand or alias, else the closest term by edit distance. Null when nothing is close.
+   */
+  async resolveMolecule(name: string): Promise<MoleculeMatch | null> {
+    const written = name.trim();
+    const terms = termsOf(await this.listMolecules());
+
+    const exact = terms.find(t => t.term === written.toLowerCase());
+    if (exact) {
+      return { molecule: exact.molecule, term: written, matchedTo: exact.term, matchType: exact.type, confidence: 1 };
+    }
+    return closestTerm(written, terms);
+  }
+
+  /**
+   * Find the molecules mentioned in free text, in text order: exact terms
+   * (whole words, longest first) and then misspelled words. One match per molecule.
+   */
+  async detectMolecules(text: string): Promise<MoleculeMatch[]> {
+    const lowerText = text.toLowerCase();
+    const terms = termsOf(await this.listMolecules());
+    const found: Array<MoleculeMatch & { position: number }> = [];
+    const covered: Array<[number, number]> = [];
+    const isCovered = (start: number, end: number) => covered.some(([s, e]) => start < e && end > s);
+
+    for (const t of [...terms].sort((a, b) => b.term.length - a.term.length)) {
+      const position = findWord(lowerText, t.term);
+      if (position < 0 || isCovered(position, position + t.term.length)) continue;
+
+      covered.push([position, position + t.term.length]);
+      found.push({
+        molecule: t.molecule,
+        term: text.slice(position, position + t.term.length),
+        matchedTo: t.term,
+        matchType: t.type,
+        confidence: 1,
+        position,
+      });
+    }
+
+    for (const word of lowerText.matchAll(/[a-z][a-z0-9-]*/g)) {
+      const position = word.index!;
+      if (word[0].length < MIN_FUZZY_LENGTH || isCovered(position, position + word[0].length)) continue;
+
+      const match = closestTerm(text.slice(position, position + word[0].length), terms);
+      if (match) found.push({ ...match, position });
+    }
+
+    // Best match per molecule, reported in the order they appear
+    found.sort((a, b) => b.confidence - a.confidence || a.position - b.position);
+    return found
+      .filter((m, i) => found.findIndex(o => o.molecule === m.molecule) === i)
+      .sort((a, b) => a.position - b.position)
+      .map(({ position, ...match }) => match);
+  }
+
+  async findByName(name: string): Promise<Molecule | null> {
+    return prisma.molecule.findUnique({ where: { name } });
+  }
+
+  // Which molecule already uses this alias, if any
+  async findAliasOwner(alias: string): Promise<string | null> {
+    const existing = await prisma.moleculeAlias.findUnique({
+      where: { alias: alias.toLowerCase().trim() },
+    });
+    return existing?.moleculeName ?? null;
+  }
+
+  async addAlias(moleculeName: string, input: MoleculeAliasRequest): Promise<AddMoleculeAliasOutcome> {
+    const molecule = await this.findByName(moleculeName);
+    if (!molecule) return { status: 'molecule_not_found' };
+
+    const owner = await this.findAliasOwner(input.alias);
+    if (owner) return { status: 'alias_exists', molecule: owner };
+
+    const alias = await prisma.moleculeAlias.create({
+      data: { moleculeName: molecule.name, alias: input.alias.toLowerCase().trim(), type: input.type },
+    });
+    this.invalidate();
+    return { status: 'created', alias };
+  }
+
+  async removeAlias(alias: string): Promise<boolean> {
+    const deleted = await prisma.moleculeAlias.deleteMany({
+      where: { alias: alias.toLowerCase().trim() },
+    });
+    this.invalidate();
+    return deleted.count > 0;
+  }
+
+  invalidate(): void {
+    this.loaded = null;
+  }
+}
+
+function termsOf(molecules: MoleculeWithAliases[]): MoleculeTerm[] {
+  const terms: MoleculeTerm[] = [];
+  for (const molecule of molecules) {
+    terms.push({ term: molecule.name.toLowerCase(), type: 'name', molecule: molecule.name });
+    if (molecule.genericName) {
+      terms.push({ term: molecule.genericName.toLowerCase(), type: 'generic', molecule: molecule.name });
+    }
+    // brandName may list several brands ("Ozempic/Wegovy")
+    for (const brand of (molecule.brandName || '').split(/[\/,;]/)) {
+      if (brand.trim()) {
+        terms.push({ term: brand.trim().toLowerCase(), type: 'brand', molecule: molecule.name });
+      }
+    }
+    for (const alias of molecule.aliases) {
+      terms.push({ term: alias.alias, type: alias.type as MoleculeTerm['type'], molecule: molecule.name });
+    }
+  }
+  return terms;
+}
+
+/**
+ * The single-word term closest to `written` by edit distance, if confident enough.
+ * Terms must share the first letter; 1 edit is allowed up to 7 letters, 2 beyond.
+ */
+function closestTerm(written: string, terms: MoleculeTerm[]): MoleculeMatch | null {
+  const word = written.toLowerCase();
+  if (word.length < MIN_FUZZY_LENGTH) return null;
+
+  let best: MoleculeMatch | null = null;
+  for (const t of terms) {
+    if (t.term.includes(' ') || t.term[0] !== word[0]) continue;
+
+    const distance = editDistance(word, t.term);
+    const maxDistance = t.term.length >= 8 ? 2 : 1;
+    if (distance > maxDistance) continue;
+
+    const confidence = Math.round((1 - distance / Math.max(word.length, t.term.length)) * 100) / 100;
+    if (confidence >= MIN_FUZZY_CONFIDENCE && (!best || confidence > best.confidence)) {
+      best = { molecule: t.molecule, term: written, matchedTo: t.term, matchType: 'fuzzy', confidence };
+    }
+  }
+  return best;
+}
+
+// Levenshtein distance (insertions, deletions, substitutions)
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Index of a whole-word term in lower-cased text, or -1
+function findWord(text: string, term: string): number {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(`(?<![a-z0-9])${escaped}(?![a-z0-9])`).exec(text);
+  return match ? match.index : -1;
+}
+
+export const moleculeService = new MoleculeService();
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { CountryCode } from '../types/country';
 
 const prisma = new PrismaClient();
 
@@ -50,7 +51,7 @@ class PatentDataService {
     });
   }
 
-  async getPatentsByCountry(country: 'IN' | 'US') {
+  async getPatentsByCountry(country: CountryCode) {
     return prisma.patent.findMany({
       where: { country },
       orderBy: { expiryDate: 'asc' },
@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const PATENT_FILE = path.join(__dirname, '../data/orange-book/patent.txt');
+
+// What the Orange Book says a patent claims, across every product it is listed against
+export interface PatentListing {
+  patentNumber: string;     // Digits only, e.g. "8129343"
+  drugSubstance: boolean;   // Drug_Substance_Flag - claims the active ingredient
+  drugProduct: boolean;     // Drug_Product_Flag - claims the formulation / product
+  useCodes: string[];       // Patent_Use_Code values, e.g. U-2202 (method-of-use claims)
+}
+
+/**
+ * Orange Book Patent Listings - FDA Orange Book patent.txt
+ *
+ * - Appl_Type~Appl_No~Product_No~Patent_No~Patent_Expire_Date_Text~Drug_Substance_Flag~
+ *   Drug_Product_Flag~Patent_Use_Code~Delist_Flag~Submission_Date
+ * - A patent is listed once per application / product, and again with a *PED suffix for
+ *   its pediatric extension; flags and use codes are merged
+ * - Patents flagged for delisting are ignored
+ * - Loaded once, on first use; a missing file means no listings (not an error)
+ */
+class PatentListingService {
+  private listings: Map<string, PatentListing> | null = null;
+
+  // Listing for "US8,129,343", "US8129343" or "8129343". Null when the patent is not listed
+  listingFor(patentNumber: string): PatentListing | null {
+    return this.load().get(normalizePatentNumber(patentNumber)) ?? null;
+  }
+
+  private load(): Map<string, PatentListing> {
+    if (this.listings) return this.listings;
+
+    const listings = new Map<string, PatentListing>();
+    if (fs.existsSync(PATENT_FILE)) {
+      for (const line of fs.readFileSync(PATENT_FILE, 'utf-8').split('\n').slice(1)) {
+        const fields = line.split('~').map(f => f.trim());
+        const [, , , patentNo, , substanceFlag, productFlag, useCode, delistFlag] = fields;
+        if (!patentNo || delistFlag === 'Y') continue;
+
+        const key = normalizePatentNumber(patentNo);
+        const listing = listings.get(key) ?? { patentNumber: key, drugSubstance: false, drugProduct: false, useCodes: [] };
+        listing.drugSubstance ||= substanceFlag === 'Y';
+        listing.drugProduct ||= productFlag === 'Y';
+        if (useCode && !listing.useCodes.includes(useCode)) listing.useCodes.push(useCode);
+        listings.set(key, listing);
+      }
+    }
+
+    this.listings = listings;
+    return listings;
+  }
+}
+
+// "US8,129,343" / "8129343*PED" → "8129343". Reissues keep their prefix ("RE44186")
+export function normalizePatentNumber(patentNumber: string): string {
+  return patentNumber.toUpperCase().replace(/\*PED$/, '').replace(/^US/, '').replace(/[^A-Z0-9]/g, '');
+}
+
+export const patentListingService = new PatentListingService();
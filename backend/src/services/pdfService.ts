@@ -2,6 +2,8 @@ import PDFDocument from 'pdfkit';
 import fs from 'fs';
 import path from 'path';
 import { ReportPayload } from '../types/report';
+import { describePlan } from './planService';
+import { DEFAULT_COUNTRIES } from '../types/country';
 
 const REPORTS_DIR = path.join(__dirname, '../../reports');
 
@@ -20,6 +22,10 @@ class PdfService {
       
       doc.pipe(stream);
 
+      // Analyzed markets; reports from before multi-market support covered IN + US
+      const countryCodes = payload.countries?.map(c => c.code) ?? DEFAULT_COUNTRIES;
+      const countryNames = new Map((payload.countries ?? []).map(c => [c.code, c.name]));
+
       // Title
       doc.fontSize(24).fillColor('#1a365d').text('Pharmaceutical BD Intelligence Report', { align: 'center' });
       doc.moveDown();
@@ -27,12 +33,34 @@ class PdfService {
       // Query
       doc.fontSize(12).fillColor('#4a5568').text('Query:', { underline: true });
       doc.fontSize(11).fillColor('#2d3748').text(payload.queryText);
+      if (payload.plan) {
+        doc.fontSize(9).fillColor('#718096').text(`Analyzed: ${describePlan(payload.plan)}`);
+      }
       doc.moveDown();
 
+      // Scope note for focused queries that skipped part of the pipeline
+      if (payload.skippedStages && payload.skippedStages.length > 0) {
+        doc.fontSize(10).fillColor('#d69e2e')
+          .text(`Focused analysis - not included: ${payload.skippedStages.join(', ')}`);
+        doc.moveDown();
+      }
+
       // Executive Summary
       doc.fontSize(14).fillColor('#1a365d').text('Executive Summary', { underline: true });
       doc.fontSize(11).fillColor('#2d3748').text(payload.summary);
-      doc.moveDown(2);
+      doc.moveDown();
+
+      // Summary fact-check - claims the AI summary made that the data does not support
+      const verification = payload.summaryVerification;
+      if (verification && (verification.replaced || verification.mismatches.length > 0)) {
+        doc.fontSize(10).fillColor('#d69e2e').text(verification.replaced
+          ? 'The AI-written summary contradicted the analysis data and was replaced with the data-driven summary above:'
+          : 'Summary fact check - these statements could not be matched to the analysis data:');
+        verification.mismatches.forEach(m => {
+          doc.fontSize(9).fillColor('#4a5568').text(`• "${m.claim}" - ${m.detail}`);
+        });
+      }
+      doc.moveDown();
 
       // Strategy Summary
       doc.fontSize(14).fillColor('#1a365d').text('Commercial Strategy Overview', { underline: true });
@@ -66,24 +94,44 @@ class PdfService {
           : `$${(totalMarket / 1_000_000).toFixed(0)}M`;
           
         doc.fontSize(11).fillColor('#2d3748')
-          .text(`Total Drug Market Opportunity: ${formattedTotal} (Combined IN + US)`);
+          .text(`Total Drug Market Opportunity: ${formattedTotal} (Combined ${countryCodes.join(' + ')})`);
         
         if (payload.marketOverview.byIndication) {
           doc.fontSize(10).fillColor('#4a5568').text('By Therapeutic Area:');
           payload.marketOverview.byIndication.forEach(ind => {
-            const inMarket = ind.marketSizeIN >= 1_000_000_000 
-              ? `$${(ind.marketSizeIN / 1_000_000_000).toFixed(1)}B` 
-              : `$${(ind.marketSizeIN / 1_000_000).toFixed(0)}M`;
-            const usMarket = ind.marketSizeUS >= 1_000_000_000 
-              ? `$${(ind.marketSizeUS / 1_000_000_000).toFixed(1)}B` 
-              : `$${(ind.marketSizeUS / 1_000_000).toFixed(0)}M`;
+            // Reports from before multi-market support only carry the IN / US columns
+            const sizes = ind.marketSizeByCountry ?? { IN: ind.marketSizeIN, US: ind.marketSizeUS };
+            const byCountry = countryCodes.map(code => {
+              const size = sizes[code] || 0;
+              const formatted = size >= 1_000_000_000
+                ? `$${(size / 1_000_000_000).toFixed(1)}B`
+                : `$${(size / 1_000_000).toFixed(0)}M`;
+              return `${countryNames.get(code) ?? code} ${formatted}`;
+            });
             doc.fontSize(10).fillColor('#4a5568')
-              .text(`  • ${ind.indication}: India ${inMarket} | US ${usMarket}`);
+              .text(`  • ${ind.indication}: ${byCountry.join(' | ')}`);
           });
         }
         doc.moveDown(2);
       }
 
+      // Therapeutic Area Comparison - comparative (multi-area) analyses only
+      if (payload.areaSections && payload.areaSections.length > 0) {
+        doc.fontSize(14).fillColor('#1a365d').text('Therapeutic Area Comparison', { underline: true });
+        doc.moveDown(0.5);
+
+        payload.areaSections.forEach(area => {
+          doc.fontSize(12).fillColor('#2b6cb0').text(area.indication);
+          doc.fontSize(10).fillColor('#4a5568').text(`   ${area.summary}`);
+          if (area.topOpportunity) {
+            doc.fontSize(9).fillColor('#718096')
+              .text(`   Lead: ${area.topOpportunity.molecule} (${area.topOpportunity.strategy}) - ${area.topOpportunity.rationale}`);
+          }
+          doc.moveDown(0.5);
+        });
+        doc.moveDown();
+      }
+
       // Molecule Decisions
       if (payload.decisions && payload.decisions.length > 0) {
         doc.fontSize(14).fillColor('#1a365d').text('Molecule-Level Recommendations', { underline: true });
@@ -94,7 +142,8 @@ class PdfService {
             decision.overallStrategy === 'LICENSE' ? '#3182ce' :
             decision.overallStrategy === 'WAIT' ? '#d69e2e' : '#e53e3e';
 
-          doc.fontSize(12).fillColor('#2b6cb0').text(`${index + 1}. ${decision.molecule} (${decision.indication})`);
+          doc.fontSize(12).fillColor('#2b6cb0')
+            .text(`${index + 1}. ${decision.molecule} (${decision.indication})${decision.degraded ? ' [DEGRADED]' : ''}`);
           doc.fontSize(10).fillColor(strategyColor)
             .text(`   Strategy: ${decision.overallStrategy} | Risk: ${decision.overallRisk} | Innovator: ${decision.innovator}`);
           
@@ -102,15 +151,50 @@ class PdfService {
           decision.recommendations.forEach(rec => {
             const goColor = rec.goNoGo === 'GO' ? '#38a169' : rec.goNoGo === 'CONDITIONAL' ? '#d69e2e' : '#e53e3e';
             doc.fontSize(9).fillColor(goColor)
-              .text(`   ${rec.country}: ${rec.strategy} - ${rec.goNoGo} | Revenue: $${(rec.estimatedRevenueUSD / 1_000_000).toFixed(0)}M | Entry: ${rec.timeToMarketYears.toFixed(1)} yrs`);
+              .text(`   ${rec.country}: ${rec.strategy} - ${rec.goNoGo} | Revenue: $${(rec.estimatedRevenueUSD / 1_000_000).toFixed(0)}M | Entry: ${rec.timeToMarketYears.toFixed(1)} yrs` +
+                (rec.earliestEntry ? ` | Conservative entry: ${rec.earliestEntry}` : '') +
+                (rec.atRiskEntry ? ` | At-risk entry: ${rec.atRiskEntry}` : '') +
+                (rec.alternativeDevice ? ' | Alternative device' : ''));
           });
 
           doc.fontSize(9).fillColor('#718096').text(`   FTO: ${decision.ftoSummary}`);
+          (decision.litigation || []).forEach(c => {
+            doc.fontSize(9).fillColor(c.outcome === 'PENDING' ? '#c05621' : '#718096')
+              .text(`   Litigation: ${c.caseName} (${c.court}, ${c.caseNumber}) - ${c.outcome}` +
+                (c.decisionDate ? ` ${c.decisionDate}` : `, filed ${c.filedDate}`) +
+                (c.patentsInvalidated.length > 0 ? ` | Invalidated: ${c.patentsInvalidated.join(', ')}` : '') +
+                (c.patentsUpheld.length > 0 ? ` | Upheld: ${c.patentsUpheld.join(', ')}` : '') +
+                (c.outcome === 'PENDING' ? ` | Challenged: ${c.patentNumbers.join(', ')}` : ''));
+          });
           doc.moveDown(0.5);
         });
         doc.moveDown();
       }
 
+      // FTO position - shown on its own when there are no decisions to carry it
+      if ((!payload.decisions || payload.decisions.length === 0) && payload.ftoOverview && payload.ftoOverview.length > 0) {
+        doc.fontSize(14).fillColor('#1a365d').text('Freedom-to-Operate Position', { underline: true });
+        doc.moveDown(0.5);
+
+        payload.ftoOverview.forEach(fto => {
+          const ftoColor = fto.overallFTO === 'CLEAR' ? '#38a169' :
+            fto.overallFTO === 'EXPIRING_SOON' ? '#d69e2e' :
+            fto.overallFTO === 'DEVICE_BLOCKED' ? '#dd6b20' : '#e53e3e';
+          doc.fontSize(11).fillColor(ftoColor).text(`${fto.molecule}: ${fto.overallFTO}`);
+          fto.byCountry.forEach(c => {
+            doc.fontSize(9).fillColor('#4a5568')
+              .text(`   ${c.country}: ${c.ftoStatus} | Generic entry: ${c.earliestGenericEntry} | Blocking patents: ${c.blockingPatentCount}` +
+                (c.blockingExclusivityCount ? ` | Exclusivities: ${c.blockingExclusivityCount}` : '') +
+                (c.entryBlockedBy === 'EXCLUSIVITY' ? ' (entry set by exclusivity)' : '') +
+                (c.atRiskEarliestEntry && c.atRiskEarliestEntry < c.earliestGenericEntry ? ` | At-risk entry: ${c.atRiskEarliestEntry}` : '') +
+                (c.litigationRisk ? ` | Litigation risk: ${c.litigationRisk}` : '') +
+                (c.lastDevicePatentExpiry ? ` | Device patents until ${c.lastDevicePatentExpiry}` +
+                  (c.deviceDesignAroundFeasible ? ' (design-around feasible)' : '') : ''));
+          });
+        });
+        doc.moveDown();
+      }
+
       // Upcoming Patent Expiries
       if (payload.upcomingPatentExpiries && payload.upcomingPatentExpiries.length > 0) {
         doc.fontSize(14).fillColor('#1a365d').text('Upcoming Patent Expiries', { underline: true });
@@ -123,6 +207,29 @@ class PdfService {
         doc.moveDown();
       }
 
+      // Molecules excluded by query constraints (modality, expiry window, market size, ...)
+      if (payload.filteredMolecules && payload.filteredMolecules.length > 0) {
+        doc.fontSize(14).fillColor('#1a365d').text('Excluded by Query Constraints', { underline: true });
+        doc.moveDown(0.5);
+
+        payload.filteredMolecules.forEach(f => {
+          doc.fontSize(10).fillColor('#4a5568').text(`• ${f.molecule}: ${f.reasons.join('; ')}`);
+        });
+        doc.moveDown();
+      }
+
+      // Data gaps - sections built from incomplete inputs
+      if (payload.degradedSections && payload.degradedSections.length > 0) {
+        doc.fontSize(14).fillColor('#1a365d').text('Data Gaps', { underline: true });
+        doc.moveDown(0.5);
+
+        payload.degradedSections.forEach(gap => {
+          doc.fontSize(10).fillColor('#d69e2e')
+            .text(`• ${gap.section} (missing ${gap.missingInput}): ${gap.detail}`);
+        });
+        doc.moveDown();
+      }
+
       // Recommendations
       doc.fontSize(14).fillColor('#1a365d').text('Action Items', { underline: true });
       doc.moveDown(0.5);
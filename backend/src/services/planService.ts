@@ -0,0 +1,388 @@
+import { callLlmStructured } from './llmClient';
+import { userQueryBlock, USER_QUERY_NOTICE } from './llm/userInput';
+import { indicationService } from './indicationService';
+import { moleculeService } from './moleculeService';
+import { countryService } from './countryService';
+import { ExecutionPlan, ExecutionPlanSchema, PlanAmbiguity, PlanFilters, PlanOrigin, RunOptions } from '../types/query';
+import { MoleculeMatch } from '../types/molecule';
+import { CountryCode, DEFAULT_COUNTRIES } from '../types/country';
+
+// Modality words in typed queries → Molecule.modality values
+const QUERY_MODALITIES: Array<[RegExp, string]> = [
+  [/\bsmall[- ]molecules?\b/, 'small-molecule'],
+  [/\b(biologics?|antibod(y|ies)|mabs?)\b/, 'mAb'],
+  [/\bpeptides?\b/, 'peptide'],
+];
+
+// Regulatory statuses recognised in typed queries ("not filed" before "filed")
+const QUERY_STATUSES: Array<[RegExp, string]> = [
+  [/\bnot (yet )?filed\b/, 'Not Filed'],
+  [/\balready approved\b|\bapproved (drugs?|molecules?|products?)\b|\bstatus:? approved\b/, 'Approved'],
+];
+
+const AMOUNT_UNITS: Record<string, number> = {
+  b: 1e9, bn: 1e9, billion: 1e9,
+  m: 1e6, mn: 1e6, million: 1e6,
+};
+
+export interface ParsedQuery {
+  plan: ExecutionPlan;
+  // 'fallback' when the LLM gave no valid plan and keyword extraction built it alone
+  planOrigin: PlanOrigin;
+  // Guesses the parser made; empty when the query was unambiguous
+  ambiguities: PlanAmbiguity[];
+  // Molecules recognised in the query text, with match confidence
+  moleculeMatches: MoleculeMatch[];
+}
+
+export interface ResolvedPlan {
+  plan: ExecutionPlan;
+  // Requested molecule names that match nothing in the curated list
+  unknownMolecules: string[];
+  // Requested markets that are not in the Country table
+  unknownCountries: string[];
+}
+
+// Parse Job.plan, returning null when missing or no longer valid
+export function parseStoredPlan(raw: string | null): ExecutionPlan | null {
+  if (!raw) return null;
+  try {
+    const validated = ExecutionPlanSchema.safeParse(JSON.parse(raw));
+    return validated.success ? validated.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Plan fields that hold one value or, for comparative analyses, a list
+type PlanListField = 'condition' | 'country' | 'molecule';
+
+const PLAN_LIST_FIELDS = {
+  condition: 'conditions',
+  country: 'countries',
+  molecule: 'molecules',
+} as const;
+
+function planValues(plan: ExecutionPlan, field: PlanListField): string[] {
+  const list = plan[PLAN_LIST_FIELDS[field]];
+  if (list && list.length > 0) return list;
+  const single = plan[field];
+  return single ? [single] : [];
+}
+
+// All conditions / countries / molecules in a plan, whether given singly or as a list
+export const planConditions = (plan: ExecutionPlan) => planValues(plan, 'condition');
+export const planCountries = (plan: ExecutionPlan) => planValues(plan, 'country');
+export const planMolecules = (plan: ExecutionPlan) => planValues(plan, 'molecule');
+
+/**
+ * Country codes a plan covers, resolved against the Country table; the default
+ * markets (IN + US) when it names none. Older stored plans may still hold names.
+ */
+export async function planCountryCodes(plan: ExecutionPlan): Promise<CountryCode[]> {
+  const { codes } = await countryService.resolveCodes(planCountries(plan));
+  return codes.length > 0 ? codes : DEFAULT_COUNTRIES;
+}
+
+// One value goes in the single field, several in the list field
+function setPlanValues(plan: ExecutionPlan, field: PlanListField, values: string[]): void {
+  delete plan[field];
+  delete plan[PLAN_LIST_FIELDS[field]];
+  if (values.length === 1) {
+    plan[field] = values[0];
+  } else if (values.length > 1) {
+    plan[PLAN_LIST_FIELDS[field]] = values;
+  }
+}
+
+export function formatUSD(value: number): string {
+  return value >= 1e9 ? `$${(value / 1e9).toFixed(1)}B` : `$${(value / 1e6).toFixed(0)}M`;
+}
+
+/**
+ * Expiry window of a plan as dates. A bare year covers the whole year.
+ */
+export function expiryWindow(filters: PlanFilters): { from?: Date; to?: Date } {
+  const toDate = (value: string, endOfYear: boolean) =>
+    new Date(value.length === 4 ? `${value}-${endOfYear ? '12-31' : '01-01'}` : value);
+  return {
+    from: filters.expiryFrom ? toDate(filters.expiryFrom, false) : undefined,
+    to: filters.expiryTo ? toDate(filters.expiryTo, true) : undefined,
+  };
+}
+
+// Each constraint of a plan as text, e.g. ["patent expiry 2026-2028", "market >= $1.0B"]
+export function describeFilters(filters?: PlanFilters): string[] {
+  if (!filters) return [];
+  const parts: string[] = [];
+  if (filters.expiryFrom || filters.expiryTo) {
+    parts.push(`patent expiry ${filters.expiryFrom || '…'}-${filters.expiryTo || '…'}`);
+  }
+  if (filters.minMarketSizeUSD !== undefined) parts.push(`market >= ${formatUSD(filters.minMarketSizeUSD)}`);
+  if (filters.maxGenericApprovals !== undefined) parts.push(`generic approvals <= ${filters.maxGenericApprovals}`);
+  if (filters.regulatoryStatus) parts.push(`status ${filters.regulatoryStatus}`);
+  return parts;
+}
+
+/**
+ * One-line summary of a plan, e.g. "condition=COPD; countries=IN; molecules=all".
+ * Structured jobs use it as their queryText and reports print it as the analyzed scope.
+ */
+export function describePlan(plan: ExecutionPlan): string {
+  const parts = [
+    `condition=${planConditions(plan).join(', ') || 'all'}`,
+    `countries=${planCountries(plan).join(', ') || DEFAULT_COUNTRIES.join('+')}`,
+    `molecules=${planMolecules(plan).join(', ') || 'all'}`,
+  ];
+  if (plan.modality) parts.push(`modality=${plan.modality}`);
+  const filters = describeFilters(plan.filters);
+  if (filters.length > 0) parts.push(`filters=${filters.join(', ')}`);
+  if (plan.objectives?.length) parts.push(`objectives=${plan.objectives.join(', ')}`);
+
+  return parts.join('; ');
+}
+
+class PlanService {
+  /**
+   * Parse a typed query into an ExecutionPlan: the LLM first, then keyword
+   * extraction to verify/supplement, then rerun overrides.
+   * No job is needed, so the same parse backs both runs and previews; with a
+   * jobId the LLM call is recorded against (or replayed for) that job.
+   */
+  async parseQuery(queryText: string, options: RunOptions = {}, jobId?: string): Promise<ParsedQuery> {
+    const planPrompt = `You are a pharmaceutical BD query parser. Parse this query and extract structured parameters.
+${USER_QUERY_NOTICE}
+
+${userQueryBlock(queryText)}
+
+Extract and return a JSON object with:
+- condition: disease/indication (e.g., "COPD", "Type 2 Diabetes", "NSCLC", "respiratory", "diabetes", "cancer")
+- country: target market (e.g., "India", "USA", "Brazil", "South Africa", "EU")
+- molecule: specific molecule if mentioned (e.g., "Semaglutide", "Tiotropium")
+- conditions / countries / molecules: use these arrays INSTEAD of the single fields when the
+  query names more than one (e.g., "COPD and diabetes in India and US" ->
+  "conditions": ["COPD", "Type 2 Diabetes"], "countries": ["India", "USA"])
+- modality: only when the query restricts it ("small-molecule", "mAb", "peptide")
+- filters: numeric / temporal constraints, only when stated:
+  expiryFrom / expiryTo (year "2026" or date "2026-06-30") for patents expiring in a window,
+  minMarketSizeUSD (number), maxGenericApprovals (integer), regulatoryStatus ("Approved", "Not Filed")
+- objectives: business goals (e.g., ["generic opportunity", "licensing deal", "patent expiry"])
+- agentsToRun: analyses needed to answer the query. Use ["scope", "fto", "clinical", "market", "decision"]
+  for opportunity, strategy or general questions. Only narrow it when the query asks about a single
+  dimension: patents/FTO/expiry only -> ["scope", "fto"]; trials/approval only -> ["scope", "clinical"];
+  market size/epidemiology only -> ["scope", "market"]
+
+Return only valid JSON. Example:
+{
+  "condition": "COPD",
+  "country": "India",
+  "objectives": ["generic opportunity", "low competition"],
+  "agentsToRun": ["scope", "fto", "clinical", "market", "decision"]
+}`;
+
+    let plan: ExecutionPlan = {
+      agentsToRun: ['scope', 'fto', 'clinical', 'market', 'decision'],
+    };
+    const ambiguities: PlanAmbiguity[] = [];
+
+    let planOrigin: PlanOrigin = 'fallback';
+
+    try {
+      const { data, attempts } = await callLlmStructured(planPrompt, ExecutionPlanSchema, { purpose: 'plan', jobId });
+      plan = data;
+      planOrigin = 'llm';
+      if (attempts > 1) {
+        console.log(`Execution plan valid after ${attempts - 1} repair attempt(s)`);
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Failed to get an execution plan from the LLM (${reason}), using manual extraction`);
+      ambiguities.push({ field: 'plan', message: 'AI parsing unavailable - plan built from keywords only' });
+    }
+
+    // ALWAYS run manual extraction to verify/supplement AI parsing
+    // This ensures we catch conditions even if AI returns slightly different wording
+    const lowerQuery = queryText.toLowerCase();
+
+    // Country detection against the Country table - bare 'in' / 'us' tokens are weak
+    // signals and reported as such. Naming several markets analyzes all of them
+    const namedCountries = (await countryService.detectCountries(queryText)).map(c => c.code);
+    if (namedCountries.length > 1) {
+      setPlanValues(plan, 'country', namedCountries);
+    } else if (planCountries(plan).length === 0) {
+      const countries = [...namedCountries];
+      if (!countries.includes('US') && lowerQuery.match(/\bus\b/)) {
+        countries.push('US');
+        ambiguities.push({ field: 'country', message: "'us' matched as USA" });
+      }
+      if (countries.length === 0 && lowerQuery.match(/\bin\b/)) {
+        countries.push('IN');
+        ambiguities.push({ field: 'country', message: "'in' matched as India" });
+      }
+      setPlanValues(plan, 'country', countries);
+    }
+
+    // Condition detection - ALWAYS check and override if the ontology finds a clear match.
+    // Every condition mentioned is analyzed (comparative questions)
+    const conditions = await indicationService.detectConditions(queryText);
+    if (conditions.length > 0) {
+      setPlanValues(plan, 'condition', conditions.map(c => c.indication));
+      console.log(`🎯 Detected condition(s) from query: ${conditions.map(c => `${c.indication} ('${c.term}')`).join(', ')}`);
+
+      for (const mention of conditions.filter(c => c.broad)) {
+        ambiguities.push({
+          field: 'condition',
+          message: `'${mention.term}' mapped to ${mention.indication} (${mention.therapeuticArea})`,
+        });
+      }
+    }
+
+    // Rerun override takes precedence over whatever the query said
+    if (options.country) {
+      setPlanValues(plan, 'country', [options.country]);
+    }
+
+    // Plans carry country codes; markets outside the Country table cannot be analyzed
+    const { codes, unknown } = await countryService.resolveCodes(planCountries(plan));
+    setPlanValues(plan, 'country', codes);
+    for (const term of unknown) {
+      ambiguities.push({ field: 'country', message: `'${term}' is not a supported market - ignored` });
+    }
+
+    // Check for specific molecules (names, brands, aliases, typos) - several named
+    // in the query replace the AI's pick
+    const moleculeMatches = await moleculeService.detectMolecules(queryText);
+    const mentionedMolecules = moleculeMatches.map(m => m.molecule);
+    if (mentionedMolecules.length > 1 || (mentionedMolecules.length === 1 && planMolecules(plan).length === 0)) {
+      setPlanValues(plan, 'molecule', mentionedMolecules);
+    }
+    for (const match of moleculeMatches.filter(m => m.matchType === 'fuzzy')) {
+      ambiguities.push({
+        field: 'molecule',
+        message: `'${match.term}' matched to ${match.molecule} (${Math.round(match.confidence * 100)}% confidence)`,
+      });
+    }
+
+    // Constraints - keyword extraction fills in anything the AI missed
+    const modality = QUERY_MODALITIES.find(([pattern]) => pattern.test(lowerQuery));
+    if (!plan.modality && modality) {
+      plan.modality = modality[1];
+    }
+    const filters = { ...parseQueryFilters(lowerQuery), ...plan.filters };
+    if (Object.values(filters).some(v => v !== undefined)) {
+      plan.filters = filters;
+    }
+
+    // Log what was detected for debugging
+    console.log(`📋 Query parsed: ${describePlan(plan)}`);
+
+    return {
+      plan,
+      planOrigin,
+      // An explicit country override settles any country guess
+      ambiguities: options.country ? ambiguities.filter(a => a.field !== 'country') : ambiguities,
+      moleculeMatches,
+    };
+  }
+
+  /**
+   * Resolve a structured plan against the reference data: molecule names
+   * (brands, aliases and near-miss spellings too) become curated molecule names, conditions
+   * become indications and countries become ISO codes. Everything is stored
+   * in the list fields. Unknown molecules are reported, not dropped silently.
+   */
+  async resolvePlan(plan: ExecutionPlan): Promise<ResolvedPlan> {
+    const resolved: ExecutionPlan = { ...plan };
+    const unknownMolecules: string[] = [];
+    let unknownCountries: string[] = [];
+
+    const requested = planMolecules(plan);
+    if (requested.length > 0) {
+      const names: string[] = [];
+
+      for (const name of requested) {
+        const match = await moleculeService.resolveMolecule(name);
+        if (!match) {
+          unknownMolecules.push(name);
+        } else if (!names.includes(match.molecule)) {
+          names.push(match.molecule);
+        }
+      }
+
+      resolved.molecules = names;
+      delete resolved.molecule;
+    }
+
+    const countries = planCountries(plan);
+    if (countries.length > 0) {
+      const { codes, unknown } = await countryService.resolveCodes(countries);
+      resolved.countries = codes;
+      unknownCountries = unknown;
+      delete resolved.country;
+    }
+
+    // Conditions become ontology indications (an area expands to all of its indications);
+    // unknown terms are kept and matched as-is by the scope agent
+    const conditions = planConditions(plan);
+    if (conditions.length > 0) {
+      const indications: string[] = [];
+      for (const condition of conditions) {
+        const match = await indicationService.resolveCondition(condition);
+        indications.push(...(match ? match.indications : [condition]));
+      }
+      resolved.conditions = [...new Set(indications)];
+      delete resolved.condition;
+    }
+
+    return { plan: resolved, unknownMolecules, unknownCountries };
+  }
+}
+
+/**
+ * Keyword extraction of numeric / temporal constraints:
+ * "patents expiring 2026-2028", "market above $1B", "fewer than 5 generic approvals"
+ */
+function parseQueryFilters(lowerQuery: string): PlanFilters {
+  const filters: PlanFilters = {};
+
+  const range = lowerQuery.match(/expir\w*\s+(?:between\s+|from\s+|in\s+)?(\d{4})\s*(?:-|–|to|and)\s*(\d{4})/);
+  const before = lowerQuery.match(/expir\w*\s+(?:by|before|until)\s+(\d{4})/);
+  const after = lowerQuery.match(/expir\w*\s+(?:after|from)\s+(\d{4})/);
+  const inYear = lowerQuery.match(/expir\w*\s+in\s+(\d{4})\b/);
+  if (range) {
+    filters.expiryFrom = range[1];
+    filters.expiryTo = range[2];
+  } else if (before) {
+    filters.expiryTo = before[1];
+  } else if (after) {
+    filters.expiryFrom = after[1];
+  } else if (inYear) {
+    filters.expiryFrom = inYear[1];
+    filters.expiryTo = inYear[1];
+  }
+
+  const market = lowerQuery.match(
+    /market\s+(?:size\s+)?(?:above|over|greater than|more than|at least|>=?)\s*\$?\s*([\d.]+)\s*(billion|bn|b|million|mn|m)?\b/
+  );
+  if (market) {
+    filters.minMarketSizeUSD = parseFloat(market[1]) * (AMOUNT_UNITS[market[2] || ''] || 1);
+  }
+
+  const fewer = lowerQuery.match(/(?:fewer|less) than\s+(\d+)\s+generic/);
+  const atMost = lowerQuery.match(/(?:at most|no more than|up to|<=)\s*(\d+)\s+generic/);
+  if (fewer) {
+    filters.maxGenericApprovals = Math.max(parseInt(fewer[1], 10) - 1, 0);
+  } else if (atMost) {
+    filters.maxGenericApprovals = parseInt(atMost[1], 10);
+  } else if (/\bno generics?( approvals?)?\b/.test(lowerQuery)) {
+    filters.maxGenericApprovals = 0;
+  }
+
+  filters.regulatoryStatus = QUERY_STATUSES.find(([pattern]) => pattern.test(lowerQuery))?.[1];
+
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  ) as PlanFilters;
+}
+
+export const planService = new PlanService();
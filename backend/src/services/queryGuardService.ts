@@ -0,0 +1,85 @@
+import { PrismaClient, BlockedQuery } from '@prisma/client';
+import { indicationService } from './indicationService';
+import { moleculeService } from './moleculeService';
+import { QueryScreening } from '../types/query';
+
+const prisma = new PrismaClient();
+
+// Instructions aimed at the model rather than a question for the analysis
+const INJECTION_RULES: Array<[string, RegExp]> = [
+  ['ignore_instructions', /\b(ignore|disregard|forget|override|bypass)\b.{0,40}\b(instructions?|prompts?|rules|guidelines|context|directions)\b/i],
+  ['role_override', /\b(you are now|from now on,? you|act as (a|an|the)\b|pretend (to be|you are)|role-?play as)/i],
+  ['prompt_disclosure', /\b(system|developer) (prompt|message|instructions?)\b|\b(reveal|show|print|repeat|output) (me )?(your|the) (prompt|instructions|rules)\b/i],
+  ['fake_markup', /^\s*(system|assistant|user)\s*:|<\/?\s*(system|assistant|user_query|instructions?)\s*>|\[\/?(INST|SYS)\]/im],
+  ['result_override', /\b(mark|label|classify|rate|set|make|return|report|recommend)\b.{0,30}\b(everything|all( of them| molecules)?|every molecule|each molecule)\b.{0,30}\b(GENERIC|LICENSE|WAIT|DROP|LOW risk|HIGH score)\b/i],
+  ['jailbreak', /\b(jailbreak|DAN mode|developer mode|do anything now)\b/i],
+];
+
+// Vocabulary of pharma BD questions; a query needs one of these, a known condition or a known molecule
+const DOMAIN_TERMS = new RegExp('\\b(' + [
+  'drugs?', 'medicines?', 'medications?', 'molecules?', 'compounds?', 'pharma\\w*', 'biotech\\w*',
+  'patents?', 'generics?', 'biosimilars?', '(in-?)?licens\\w*', 'fto', 'freedom to operate', 'exclusivit\\w*',
+  'anda', 'nda', 'bla', 'formulations?', 'dosage', 'clinical', 'trials?', 'phase [1-4i]+',
+  'therap\\w*', 'treatments?', 'indications?', 'diseases?', 'disorders?', 'epidemiolog\\w*',
+  'prevalence', 'incidence', 'patients?', 'prescri\\w*', 'regulatory', 'fda', 'cdsco', 'approvals?',
+  'biologics?', 'antibod(y|ies)', 'mabs?', 'peptides?', 'small[- ]molecules?', 'vaccines?',
+  'oncology', 'cardiovascular', 'cns', 'respiratory', 'metabolic',
+].join('|') + ')\\b', 'i');
+
+/**
+ * Query Guard - screens typed queries before they reach the planner and the LLM
+ *
+ * - Injection: rule-based classifier for instructions aimed at the model
+ *   ("ignore previous instructions", role play, fake system markup, "mark everything GENERIC")
+ * - Off-topic: no condition or molecule from the reference data and no pharma BD vocabulary
+ * - Blocked queries are logged (console + BlockedQuery table) for review
+ *
+ * Prompts still embed queries in escaped blocks (llm/userInput), so anything that
+ * slips past the rules is presented to the model as data, not instructions.
+ */
+class QueryGuardService {
+  async screen(queryText: string): Promise<QueryScreening> {
+    const injection = INJECTION_RULES.filter(([, pattern]) => pattern.test(queryText)).map(([rule]) => rule);
+    if (injection.length > 0) {
+      return { verdict: 'injection', reasons: injection };
+    }
+
+    if (DOMAIN_TERMS.test(queryText)) {
+      return { verdict: 'allowed', reasons: [] };
+    }
+    const conditions = await indicationService.detectConditions(queryText);
+    const molecules = await moleculeService.detectMolecules(queryText);
+    if (conditions.length > 0 || molecules.length > 0) {
+      return { verdict: 'allowed', reasons: [] };
+    }
+
+    return { verdict: 'off_topic', reasons: ['no pharmaceutical condition, molecule or BD term found'] };
+  }
+
+  // Best-effort: a logging failure must not turn a 400 into a 500
+  async recordBlocked(queryText: string, screening: QueryScreening, endpoint: string, clientIp?: string): Promise<void> {
+    console.warn(`🚫 Blocked ${screening.verdict} query via /${endpoint} (${screening.reasons.join(', ')}): "${queryText.slice(0, 200)}"`);
+    try {
+      await prisma.blockedQuery.create({
+        data: {
+          queryText,
+          verdict: screening.verdict,
+          reasons: JSON.stringify(screening.reasons),
+          endpoint,
+          clientIp,
+        },
+      });
+    } catch (error) {
+      console.error('Failed to record blocked query:', error);
+    }
+  }
+
+  async listBlocked(limit = 100): Promise<BlockedQuery[]> {
+    return prisma.blockedQuery.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+}
+
+export const queryGuardService = new QueryGuardService();
@@ -38,8 +38,6 @@ export interface RealPatentData {
   reviewedBy?: string;
   reviewDate?: string;
   notes?: string;
-  litigationHistory?: any[];
-  litigationRisk?: 'LOW' | 'MEDIUM' | 'HIGH' | 'UNKNOWN';
 }
 
 // ============================================
@@ -58,18 +56,6 @@ function loadCuratedDevicePatents(): any[] {
   }
 }
 
-function loadCuratedLitigation(): any[] {
-  try {
-    const filePath = path.join(__dirname, '../data/curated/patent-litigation.json');
-    if (!fs.existsSync(filePath)) return [];
-    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-    return data.litigation || [];
-  } catch (error) {
-    console.warn('[Curated] Failed to load litigation data:', error);
-    return [];
-  }
-}
-
 function loadIndiaPatents(): any[] {
   try {
     const filePath = path.join(__dirname, '../data/curated/india-patents.json');
@@ -277,9 +263,7 @@ export function loadCuratedPatents(moleculeName: string): RealPatentData[] {
     ustptoVerificationUrl: p.ustptoVerificationUrl,
     reviewedBy: p.reviewedBy,
     reviewDate: p.reviewDate,
-    notes: p.notes,
-    litigationHistory: p.litigationHistory,
-    litigationRisk: p.litigationRisk
+    notes: p.notes
   }));
   
   console.log(`[Curated] Found ${patents.length} curated patents for ${moleculeName}`);
@@ -314,9 +298,7 @@ export function fetchIndiaPatents(moleculeName: string): RealPatentData[] {
     ustptoVerificationUrl: p.ipIndiaUrl,
     reviewedBy: p.verifiedBy,
     reviewDate: p.verificationDate,
-    notes: p.notes,
-    litigationHistory: [],
-    litigationRisk: 'UNKNOWN'
+    notes: p.notes
   }));
   
   console.log(`[India Patents] Found ${patents.length} Indian patents for ${moleculeName}`);
@@ -395,16 +377,3 @@ export async function fetchRealPatents(
   
   return allPatents;
 }
-
-export function getPatentLitigationRisk(patentNumber: string) {
-  const lit = loadCuratedLitigation();
-  const cases = lit.filter(l => l.patentNumber === patentNumber);
-  
-  if (cases.length === 0) return { risk: 'LOW' as const, history: [] };
-  
-  const pending = cases.some(c => c.outcome === 'Pending');
-  const settlement = cases.some(c => c.outcome === 'Settlement');
-  
-  const risk = pending ? 'HIGH' : settlement ? 'MEDIUM' : 'LOW';
-  return { risk: risk as 'LOW' | 'MEDIUM' | 'HIGH', history: cases };
-}
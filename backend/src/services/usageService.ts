@@ -0,0 +1,134 @@
+import { PrismaClient } from '@prisma/client';
+import { config } from '../config/env';
+import { LlmBudgetStatus, LlmUsageTotals } from '../types/llm';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type UsageRow = {
+  jobId: string | null;
+  model: string | null;
+  error: string | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  retries: number;
+  costUSD: number | null;
+  createdAt: Date;
+};
+
+const USAGE_FIELDS = {
+  jobId: true,
+  model: true,
+  error: true,
+  inputTokens: true,
+  outputTokens: true,
+  retries: true,
+  costUSD: true,
+  createdAt: true,
+} as const;
+
+/**
+ * LLM Usage - token and cost accounting over the recorded LLM calls
+ *
+ * - Per job (GET /api/jobs/:id) and aggregated by day, model and job (GET /api/usage)
+ * - Costs are the estimates stored with each call (see services/llm/pricing)
+ * - LLM_DAILY_BUDGET_USD caps the estimated spend per UTC day; once it is used up
+ *   new queries are rejected, while jobs already queued still run
+ */
+class UsageService {
+  async getJobUsage(jobId: string): Promise<LlmUsageTotals & { byModel: Array<LlmUsageTotals & { model: string }> }> {
+    const rows = await prisma.llmCall.findMany({ where: { jobId }, select: USAGE_FIELDS });
+    return { ...sumUsage(rows), byModel: groupUsage(rows, r => r.model || 'unknown', 'model') };
+  }
+
+  async getUsageReport(days: number) {
+    const to = new Date();
+    const from = new Date(startOfUtcDay(to).getTime() - (days - 1) * DAY_MS);
+    const rows = await prisma.llmCall.findMany({
+      where: { createdAt: { gte: from } },
+      select: USAGE_FIELDS,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const byJob = groupUsage(rows.filter(r => r.jobId), r => r.jobId!, 'jobId')
+      .sort((a, b) => b.costUSD - a.costUSD || b.inputTokens - a.inputTokens)
+      .slice(0, 10);
+    const jobs = await prisma.job.findMany({
+      where: { id: { in: byJob.map(j => j.jobId) } },
+      select: { id: true, queryText: true },
+    });
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      totals: sumUsage(rows),
+      byDay: groupUsage(rows, r => r.createdAt.toISOString().slice(0, 10), 'date'),
+      byModel: groupUsage(rows, r => r.model || 'unknown', 'model'),
+      // Highest-cost jobs; previews (/api/query/parse) have no job and are totalled separately
+      topJobs: byJob.map(j => ({ ...j, queryText: jobs.find(job => job.id === j.jobId)?.queryText ?? null })),
+      previews: sumUsage(rows.filter(r => !r.jobId)),
+      budget: await this.getBudgetStatus(),
+    };
+  }
+
+  async getBudgetStatus(): Promise<LlmBudgetStatus> {
+    const today = startOfUtcDay(new Date());
+    const spent = await prisma.llmCall.aggregate({
+      where: { createdAt: { gte: today } },
+      _sum: { costUSD: true },
+    });
+    const spentTodayUSD = spent._sum.costUSD ?? 0;
+    const budgetUSD = config.llmDailyBudgetUSD > 0 ? config.llmDailyBudgetUSD : null;
+
+    return {
+      budgetUSD,
+      spentTodayUSD: roundUSD(spentTodayUSD),
+      remainingUSD: budgetUSD !== null ? roundUSD(Math.max(0, budgetUSD - spentTodayUSD)) : null,
+      exhausted: budgetUSD !== null && spentTodayUSD >= budgetUSD,
+      resetsAt: new Date(today.getTime() + DAY_MS).toISOString(),
+    };
+  }
+}
+
+function sumUsage(rows: UsageRow[]): LlmUsageTotals {
+  const totals: LlmUsageTotals = {
+    calls: 0, failedCalls: 0, inputTokens: 0, outputTokens: 0, retries: 0, costUSD: 0, unpricedCalls: 0,
+  };
+  for (const row of rows) {
+    totals.calls++;
+    if (row.error) totals.failedCalls++;
+    totals.inputTokens += row.inputTokens || 0;
+    totals.outputTokens += row.outputTokens || 0;
+    totals.retries += row.retries;
+    totals.costUSD += row.costUSD || 0;
+    if (row.costUSD === null && !row.error) totals.unpricedCalls++;
+  }
+  totals.costUSD = roundUSD(totals.costUSD);
+  return totals;
+}
+
+// Totals per key, in first-seen order
+function groupUsage<K extends string>(
+  rows: UsageRow[],
+  keyOf: (row: UsageRow) => string,
+  keyName: K
+): Array<LlmUsageTotals & Record<K, string>> {
+  const groups = new Map<string, UsageRow[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+  return [...groups].map(([key, group]) => ({ [keyName]: key, ...sumUsage(group) }) as LlmUsageTotals & Record<K, string>);
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Costs are fractions of a cent per call - keep 6 decimals
+function roundUSD(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+export const usageService = new UsageService();
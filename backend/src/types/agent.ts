@@ -1,10 +1,22 @@
-export type AgentStatus = 'pending' | 'running' | 'completed' | 'error';
+import { CountryCode } from './country';
+import { ExclusivityType } from './exclusivity';
+import { LitigationOutcome } from './litigation';
+
+export type AgentStatus = 'pending' | 'running' | 'completed' | 'error' | 'cancelled';
 
 export interface AgentTraceEvent {
   agent: string;
   status: AgentStatus;
   timestamp: string;
   detail?: string;
+  // Stage metrics - startedAt/endedAt/durationMs are derived by JobService when omitted
+  startedAt?: string;
+  endedAt?: string;
+  durationMs?: number;
+  inputCount?: number;
+  outputCount?: number;
+  // Stored on the TraceEvent row only - not served to clients
+  errorStack?: string;
 }
 
 // ============================================
@@ -39,7 +51,32 @@ export interface DisclaimerSection {
 
 export type CommercialStrategy = 'LICENSE' | 'GENERIC' | 'WAIT' | 'DROP';
 export type CommercialRisk = 'LOW' | 'MEDIUM' | 'HIGH';
-export type FTOStatus = 'CLEAR' | 'BLOCKED' | 'EXPIRING_SOON';
+// DEVICE_BLOCKED: molecule free (no compound/formulation patent or exclusivity left), but
+// device patents keep a same-device generic out for more than 2 years
+export type FTOStatus = 'CLEAR' | 'BLOCKED' | 'EXPIRING_SOON' | 'DEVICE_BLOCKED';
+
+// ============================================
+// PARTIAL FAILURES
+// A failed molecule or stage degrades the result instead of failing the job
+// ============================================
+
+export type DecisionInput = 'fto' | 'clinical' | 'market';
+
+export interface MoleculeFailure {
+  molecule: string;
+  error: string;
+}
+
+export interface StageFailure {
+  stage: string;
+  error: string;
+}
+
+// An input a decision was made without, and why
+export interface DegradedInput {
+  input: DecisionInput;
+  reason: string;
+}
 
 // ============================================
 // MOLECULE MASTER DATA
@@ -59,22 +96,76 @@ export interface MoleculeData {
 // PATENT FTO ANALYSIS (COUNTRY-SPECIFIC)
 // ============================================
 
+// How a blocking US patent can be dealt with before it expires
+// HARD_BLOCKING: primary / compound patent - entry waits for expiry
+// DESIGN_AROUND: formulation or process claims - a different formulation or route avoids them
+// CARVE_OUT: method-of-use claims only - omit the patented use from the label (section viii)
+// PIV_CHALLENGE: other secondary claims (salts, polymorphs, ...) - challenge via Paragraph IV
+export type PatentChallengeability = 'HARD_BLOCKING' | 'DESIGN_AROUND' | 'CARVE_OUT' | 'PIV_CHALLENGE';
+
 export interface PatentInfo {
   patentNumber: string;
-  patentType: 'COMPOUND' | 'FORMULATION' | 'PROCESS' | 'SECONDARY';
+  patentType: 'COMPOUND' | 'FORMULATION' | 'PROCESS' | 'SECONDARY' | 'DEVICE';
   isPrimary: boolean;
+  devicePatent?: boolean;        // Claims the delivery device (inhaler, pen, autoinjector)
   expiryDate: string;
-  status: 'Active' | 'Expired';
+  status: 'Active' | 'Expired' | 'Invalidated';
   title?: string;
+  useCodes?: string[];           // Orange Book Patent_Use_Code values (US)
+  challengeability?: PatentChallengeability;  // Blocking US patents only
+  // Latest ruling (INVALIDATED / UPHELD), or CHALLENGED while a case is pending - absent when never litigated
+  litigationStatus?: 'INVALIDATED' | 'UPHELD' | 'CHALLENGED';
+}
+
+// Regulatory exclusivity on an application, across the products it covers
+export interface ExclusivityInfo {
+  code: string;                  // Orange Book code, e.g. ODE-337, I-922, NCE
+  type: ExclusivityType;
+  applNo: string;
+  products: string[];            // Product_No values
+  expiryDate: string;
+}
+
+// A patent case or challenge involving the molecule (PatentLitigation)
+export interface LitigationCaseInfo {
+  caseNumber: string;
+  caseName: string;
+  court: string;
+  country: CountryCode;
+  plaintiffs: string[];
+  defendants: string[];
+  patentNumbers: string[];
+  patentsInvalidated: string[];
+  patentsUpheld: string[];
+  outcome: LitigationOutcome;
+  filedDate: string;
+  decisionDate?: string;
 }
 
 export interface CountryFTOAnalysis {
-  country: 'IN' | 'US';
+  country: CountryCode;
   ftoStatus: FTOStatus;
-  earliestGenericEntry: string;  // Date when generic can enter
+  earliestGenericEntry: string;  // Date when generic can enter - the later of the two barriers below
   yearsToGenericEntry: number;
   blockingPatents: PatentInfo[];
   expiredPatents: PatentInfo[];
+  invalidatedPatents?: PatentInfo[];  // Unexpired but held invalid in litigation - not blocking
+  blockingExclusivities?: ExclusivityInfo[];  // Active regulatory exclusivities (US: FDA Orange Book)
+  lastPatentExpiry?: string;     // Last blocking patent, when any
+  lastExclusivityExpiry?: string;  // Last blocking exclusivity, when any
+  entryBlockedBy?: 'PATENT' | 'EXCLUSIVITY';  // Which barrier sets earliestGenericEntry; absent when CLEAR
+  // At-risk entry (US): only hard-blocking patents and exclusivities hold entry back; the
+  // other blocking patents are designed around, carved out or challenged. Absent elsewhere
+  atRiskEarliestEntry?: string;
+  yearsToAtRiskEntry?: number;
+  // Device patents among the blocking ones. Design-around is feasible when they claim the device
+  // alone - not the drug or a drug-device combination - so another device avoids them
+  lastDevicePatentExpiry?: string;
+  yearsToDeviceExpiry?: number;
+  deviceDesignAroundFeasible?: boolean;
+  // HIGH: a blocking patent is under pending challenge; MEDIUM: blocking patents upheld in
+  // litigation; LOW: litigation touched no blocking patent. Absent without litigation in this country
+  litigationRisk?: 'LOW' | 'MEDIUM' | 'HIGH';
   riskExplanation: string;       // Plain English explanation
 }
 
@@ -84,10 +175,13 @@ export interface MoleculeFTOResult {
   overallFTO: FTOStatus;         // Worst case across countries
   primaryPatentExpired: boolean;
   hasSecondaryBlocking: boolean;
+  litigation?: LitigationCaseInfo[];  // Cases in the analyzed countries, by filing date
 }
 
 export interface PatentFTOAgentResult {
   molecules: MoleculeFTOResult[];
+  failedMolecules?: MoleculeFailure[];  // Molecules skipped because their analysis threw
+  uncoveredCountries?: CountryCode[];   // Requested markets with no patent data at all (no FTO entry)
 }
 
 // ============================================
@@ -109,8 +203,8 @@ export interface ClinicalMaturityAssessment {
   indication: string;
   highestPhaseCompleted: string;  // "Phase III", "Phase IV", etc.
   hasPhase3Data: boolean;
-  hasLocalTrialData: Record<'IN' | 'US', boolean>;
-  regulatoryStatus: Record<'IN' | 'US', string>;
+  hasLocalTrialData: Record<CountryCode, boolean>;
+  regulatoryStatus: Record<CountryCode, string>;
   clinicalRiskFlags: string[];    // e.g., ["No local Phase III", "Terminated trial"]
   maturityScore: number;          // 0-100
   trials: ClinicalTrialInfo[];
@@ -118,6 +212,7 @@ export interface ClinicalMaturityAssessment {
 
 export interface ClinicalMaturityAgentResult {
   molecules: ClinicalMaturityAssessment[];
+  failedMolecules?: MoleculeFailure[];
 }
 
 // ============================================
@@ -126,7 +221,7 @@ export interface ClinicalMaturityAgentResult {
 
 export interface DiseaseMarketData {
   disease: string;
-  country: 'IN' | 'US';
+  country: CountryCode;
   year: number;
   prevalenceMillions: number;
   incidenceMillions: number;
@@ -141,7 +236,7 @@ export interface DiseaseMarketData {
 
 // NEW: Drug-specific pricing data
 export interface DrugPricingInfo {
-  country: 'IN' | 'US';
+  country: CountryCode;
   year: number;
   totalSpendingUSD?: number;
   totalClaims?: number;
@@ -154,7 +249,7 @@ export interface DrugPricingInfo {
 
 // NEW: Competition analysis data
 export interface CompetitionInfo {
-  country: 'IN' | 'US';
+  country: CountryCode;
   genericApprovals: number;
   biosimilarApprovals: number;
   activeManufacturers: number;
@@ -170,18 +265,36 @@ export interface MoleculeMarketAnalysis {
   molecule: string;
   indication: string;
   marketData: DiseaseMarketData[];
-  estimatedRevenueUSD: Record<'IN' | 'US', number>;  // Addressable market share
-  marketAttractiveness: Record<'IN' | 'US', 'HIGH' | 'MEDIUM' | 'LOW'>;
+  estimatedRevenueUSD: Record<CountryCode, number>;  // Addressable market share
+  marketAttractiveness: Record<CountryCode, 'HIGH' | 'MEDIUM' | 'LOW'>;
   totalAddressableMarketUSD: number;
   // NEW: Enhanced data
   pricingData?: DrugPricingInfo[];
   competitionData?: CompetitionInfo[];
-  adjustedMarketShare?: Record<'IN' | 'US', number>;  // Competition-adjusted %
-  revenueExplanation?: Record<'IN' | 'US', string>;   // How revenue was calculated
+  adjustedMarketShare?: Record<CountryCode, number>;  // Competition-adjusted %
+  revenueExplanation?: Record<CountryCode, string>;   // How revenue was calculated
 }
 
 export interface EpidemiologyMarketAgentResult {
   molecules: MoleculeMarketAnalysis[];
+  failedMolecules?: MoleculeFailure[];
+}
+
+// ============================================
+// QUERY CONSTRAINTS (ExecutionPlan.filters / modality)
+// ============================================
+
+// A molecule in scope that was excluded by a query constraint
+export interface FilteredMolecule {
+  molecule: string;
+  reasons: string[];     // One per constraint it failed, e.g. "market $0.8B in IN (minimum $1.0B)"
+}
+
+export interface ConstraintFilterResult {
+  passedMolecules: string[];
+  filteredOut: FilteredMolecule[];
+  // Constraints that could not be checked because their input stage produced no data
+  unchecked?: Array<{ constraint: string; input: DecisionInput }>;
 }
 
 // ============================================
@@ -190,7 +303,7 @@ export interface EpidemiologyMarketAgentResult {
 // ============================================
 
 export interface CountryRecommendation {
-  country: 'IN' | 'US';
+  country: CountryCode;
   strategy: CommercialStrategy;
   timeToMarketYears: number;
   estimatedRevenueUSD: number;
@@ -198,6 +311,9 @@ export interface CountryRecommendation {
   rationale: string;              // Plain English, board-ready
   goNoGo: 'GO' | 'NO-GO' | 'CONDITIONAL';
   conditions?: string[];          // What needs to happen for GO
+  alternativeDevice?: boolean;    // GENERIC via a different delivery device (molecule free, device blocked)
+  earliestEntry?: string;         // Conservative: every blocking patent and exclusivity expired
+  atRiskEntry?: string;           // Where assessed (US) - see CountryFTOAnalysis.atRiskEarliestEntry
 }
 
 export interface MoleculeDecision {
@@ -220,15 +336,22 @@ export interface MoleculeDecision {
   clinicalSummary: string;        // "Phase III completed, approved in both markets"
   marketSummary: string;          // "$8.2B market in India, 45% treated"
   
-  // Patent details for transparency
-  patentDetails?: {
-    IN: { blocking: PatentInfo[]; expired: PatentInfo[] };
-    US: { blocking: PatentInfo[]; expired: PatentInfo[] };
-  };
+  // Patent details for transparency, per analyzed country
+  patentDetails?: Record<CountryCode, {
+    blocking: PatentInfo[];
+    expired: PatentInfo[];
+    invalidated?: PatentInfo[];
+    exclusivities?: ExclusivityInfo[];
+  }>;
+  litigation?: LitigationCaseInfo[];
   
   // Key dates
-  earliestEntryIN?: string;
+  earliestEntryByCountry?: Record<CountryCode, string>;
+  earliestEntryIN?: string;       // Legacy - same as earliestEntryByCountry.IN / .US
   earliestEntryUS?: string;
+  
+  // Set when FTO, clinical or market data was missing for this molecule
+  degraded?: DegradedInput[];
 }
 
 export interface CommercialDecisionAgentResult {
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+// Country.code: ISO 3166-1 alpha-2 ('IN', 'US', 'BR', 'ZA'), or 'EU' for the European Union
+export type CountryCode = string;
+
+// Markets analyzed when a plan names none - the original India / US scope
+export const DEFAULT_COUNTRIES: CountryCode[] = ['IN', 'US'];
+
+export const CountryRequestSchema = z.object({
+  code: z.string().trim().regex(/^[A-Za-z]{2}$/, 'Expected a two-letter code').transform(c => c.toUpperCase()),
+  name: z.string().trim().min(1, 'Name is required'),
+  currency: z.string().trim().regex(/^[A-Za-z]{3}$/, 'Expected an ISO 4217 currency code').transform(c => c.toUpperCase()),
+  regulator: z.string().trim().min(1, 'Regulator is required'),
+  patentOffice: z.string().trim().min(1, 'Patent office is required'),
+  genericPathway: z.string().trim().min(1, 'Generic pathway is required'),
+  aliases: z.array(z.string().trim().min(1)).default([]),
+});
+
+export type CountryRequest = z.infer<typeof CountryRequestSchema>;
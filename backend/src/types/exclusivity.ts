@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+// Exclusivity.type - Orange Book codes grouped by what they protect
+// NCE: new chemical entity (5 years)
+// ODE: orphan drug (7 years, for the orphan indication)
+// NCI: new clinical investigation (3 years) - new indication (I-), dosing (D-), strength,
+//      dosage form, product, patient population, Rx-to-OTC and miscellaneous (M-) codes
+// PED: pediatric (6 months added to the other protection)
+// GAIN: qualified infectious disease product (5 years added)
+// GENERIC_180: 180-day exclusivity held by a generic applicant (PC patent challenge, CGT)
+export const EXCLUSIVITY_TYPES = ['NCE', 'ODE', 'NCI', 'PED', 'GAIN', 'GENERIC_180', 'OTHER'] as const;
+
+export type ExclusivityType = typeof EXCLUSIVITY_TYPES[number];
+
+// Types that keep a generic (ANDA) off the market until they expire
+export const BLOCKING_EXCLUSIVITY_TYPES: ExclusivityType[] = ['NCE', 'ODE', 'NCI', 'PED', 'GAIN'];
+
+// One row of the Orange Book exclusivity file
+export interface OrangeBookExclusivity {
+  applType: string;
+  applNo: string;
+  productNo: string;
+  code: string;
+  type: ExclusivityType;
+  expiryDate: Date;
+}
+
+export interface ExclusivityImportResult {
+  parsed: number;        // Distinct rows in the file
+  stored: number;
+  linked: number;        // Rows whose application belongs to a curated molecule
+  skipped: number;       // Malformed lines and duplicates
+  applicationsLinked: number;  // Applications linked from products.txt during this import
+}
+
+export const DrugApplicationRequestSchema = z.object({
+  applNo: z.string().trim().regex(/^\d{1,6}$/, 'Expected an FDA application number').transform(n => n.padStart(6, '0')),
+  tradeName: z.string().trim().min(1).optional(),
+});
+
+export type DrugApplicationRequest = z.infer<typeof DrugApplicationRequestSchema>;
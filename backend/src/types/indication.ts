@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+// synonym: matched at the start of a word ("diabetic" in "diabetic patients")
+// abbreviation: whole word only, so "ra" does not match "rare"
+// broad: loose term for a wider area; resolves, but the mapping is flagged to the user
+export const ALIAS_TYPES = ['synonym', 'abbreviation', 'broad'] as const;
+
+export type AliasType = typeof ALIAS_TYPES[number];
+
+export const AliasRequestSchema = z.object({
+  alias: z.string().trim().min(1, 'Alias is required'),
+  type: z.enum(ALIAS_TYPES).default('synonym'),
+});
+
+export type AliasRequest = z.infer<typeof AliasRequestSchema>;
+
+export const IndicationRequestSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  therapeuticArea: z.string().trim().min(1, 'Therapeutic area is required'),
+  icd10Code: z.string().trim().min(1).optional(),
+  meshId: z.string().trim().min(1).optional(),
+  aliases: z.array(AliasRequestSchema).default([]),
+});
+
+export type IndicationRequest = z.infer<typeof IndicationRequestSchema>;
+
+// A condition term resolved against the ontology
+export interface ResolvedCondition {
+  // Canonical indication names (Molecule.indication values) the term covers
+  indications: string[];
+  therapeuticArea: string;
+  // Matched a broad alias or a whole therapeutic area rather than a specific indication
+  broad: boolean;
+}
+
+// A condition found in free text
+export interface ConditionMention {
+  indication: string;
+  therapeuticArea: string;
+  // The alias, name or area text that matched
+  term: string;
+  broad: boolean;
+  position: number;
+}
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+// PatentLitigation.outcome
+// PENDING: undecided - the patents at issue are under challenge
+// INVALIDATED / UPHELD: every patent at issue went one way
+// SPLIT: some patents (or claims) invalidated, others upheld - see patentsInvalidated / patentsUpheld
+// SETTLED / DISMISSED: ended without a ruling on validity
+export const LITIGATION_OUTCOMES = ['PENDING', 'INVALIDATED', 'UPHELD', 'SPLIT', 'SETTLED', 'DISMISSED'] as const;
+
+export type LitigationOutcome = typeof LITIGATION_OUTCOMES[number];
+
+const RULING_OUTCOMES: LitigationOutcome[] = ['INVALIDATED', 'UPHELD', 'SPLIT'];
+
+const IsoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+// One case, as accepted by the admin endpoint and the curated import file
+export const LitigationCaseSchema = z.object({
+  molecule: z.string().trim().min(1, 'Molecule is required'),
+  country: z.string().trim().regex(/^[A-Za-z]{2}$/, 'Expected a two-letter code').transform(c => c.toUpperCase()).default('US'),
+  caseNumber: z.string().trim().min(1, 'Case number is required'),
+  caseName: z.string().trim().min(1, 'Case name is required'),
+  court: z.string().trim().min(1, 'Court is required'),
+  plaintiffs: z.array(z.string().trim().min(1)).default([]),
+  defendants: z.array(z.string().trim().min(1)).default([]),
+  patentNumbers: z.array(z.string().trim().min(1)).min(1, 'At least one patent is required'),
+  patentsInvalidated: z.array(z.string().trim().min(1)).default([]),
+  patentsUpheld: z.array(z.string().trim().min(1)).default([]),
+  outcome: z.enum(LITIGATION_OUTCOMES),
+  filedDate: IsoDateSchema,
+  decisionDate: IsoDateSchema.optional(),
+  notes: z.string().trim().min(1).optional(),
+  dataSource: z.string().trim().min(1).optional(),
+}).superRefine((c, ctx) => {
+  const ruled = [...c.patentsInvalidated, ...c.patentsUpheld];
+  if (ruled.some(p => !c.patentNumbers.includes(p))) {
+    ctx.addIssue({ code: 'custom', path: ['patentNumbers'], message: 'Invalidated and upheld patents must be listed in patentNumbers' });
+  }
+  if (c.outcome === 'PENDING' && (ruled.length > 0 || c.decisionDate)) {
+    ctx.addIssue({ code: 'custom', path: ['outcome'], message: 'A pending case has no decision' });
+  }
+  // Rulings are ordered by date; settlements and dismissals often have none on record
+  if (RULING_OUTCOMES.includes(c.outcome) && !c.decisionDate) {
+    ctx.addIssue({ code: 'custom', path: ['decisionDate'], message: 'Required once the case is decided' });
+  }
+});
+
+export type LitigationCase = z.infer<typeof LitigationCaseSchema>;
+
+export interface LitigationImportResult {
+  parsed: number;        // Cases in the file
+  created: number;
+  updated: number;       // Same court and case number as a stored case
+  invalid: Array<{ index: number; caseNumber?: string; errors: string[] }>;
+}
@@ -0,0 +1,72 @@
+// gemini: Google Gemini API (GEMINI_API_KEY)
+// openai: any OpenAI-compatible /chat/completions endpoint, e.g. a locally hosted model
+// stub: offline and deterministic - canned plans and summaries, for air-gapped runs and CI
+export const LLM_PROVIDERS = ['gemini', 'openai', 'stub'] as const;
+
+export type LlmProviderName = typeof LLM_PROVIDERS[number];
+
+// What a call is for - lets the stub pick a canned response
+export type LlmPurpose = 'plan' | 'summary' | 'recommendations' | 'synthesis' | 'other';
+
+export interface LlmCallOptions {
+  systemInstructions?: string;
+  purpose?: LlmPurpose;
+  // Record the call against this job (and answer it from the recording when the job is a replay)
+  jobId?: string;
+  // Ask for a JSON response (the provider's JSON mode, where it has one)
+  json?: boolean;
+}
+
+export interface LlmStructuredOptions extends LlmCallOptions {
+  // Follow-up calls that send the validation errors back; defaults to config.llmMaxRepairs
+  maxRepairs?: number;
+}
+
+export interface LlmStructuredResult<T> {
+  data: T;
+  attempts: number;       // 1 when the first response was valid
+}
+
+export interface LlmRequest {
+  prompt: string;
+  systemInstructions?: string;
+  purpose: LlmPurpose;
+  json?: boolean;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  model: string;          // The model that answered (Gemini may fall back to another)
+  usage?: LlmUsage;       // Token counts, when the backend reports them
+  retries: number;        // Failed attempts before this response (rate limits, errors, model fallbacks)
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string; // Primary model
+  generate(request: LlmRequest): Promise<LlmResponse>;
+}
+
+// Aggregated LLM usage over a set of calls (a job, a day, a model, ...)
+export interface LlmUsageTotals {
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  retries: number;
+  costUSD: number;
+  unpricedCalls: number;  // Answered calls with no cost estimate (model without a known price)
+}
+
+export interface LlmBudgetStatus {
+  budgetUSD: number | null;   // null when no daily budget is set
+  spentTodayUSD: number;
+  remainingUSD: number | null;
+  exhausted: boolean;
+  resetsAt: string;           // Next UTC midnight
+}
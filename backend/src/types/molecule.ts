@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+// brand: a trade name not in Molecule.brandName (e.g. regional brands)
+// synonym: another non-proprietary name or salt form ("tiotropium bromide")
+// code: a research / development code ("nn9535")
+export const MOLECULE_ALIAS_TYPES = ['brand', 'synonym', 'code'] as const;
+
+export type MoleculeAliasType = typeof MOLECULE_ALIAS_TYPES[number];
+
+export const MoleculeAliasRequestSchema = z.object({
+  alias: z.string().trim().min(1, 'Alias is required'),
+  type: z.enum(MOLECULE_ALIAS_TYPES).default('synonym'),
+});
+
+export type MoleculeAliasRequest = z.infer<typeof MoleculeAliasRequestSchema>;
+
+// How a name was matched to a curated molecule
+export type MoleculeMatchType = 'name' | 'generic' | 'brand' | MoleculeAliasType | 'fuzzy';
+
+// A molecule name (from a plan or free text) resolved against the Molecule table
+export interface MoleculeMatch {
+  molecule: string;       // Canonical Molecule.name
+  term: string;           // The text that matched, as written
+  matchedTo: string;      // The name, brand or alias it matched
+  matchType: MoleculeMatchType;
+  // 1 for exact matches; edit-distance based for fuzzy ones (e.g. "semaglutid" → 0.91)
+  confidence: number;
+}
@@ -1,18 +1,109 @@
 import { z } from 'zod';
 
-export const QueryRequestSchema = z.object({
-  queryText: z.string().min(1, 'Query text is required'),
+// Per-run overrides applied on top of the parsed query (stored on Job.options)
+export const RunOptionsSchema = z.object({
+  bypassCache: z.boolean().optional(),
+  country: z.string().min(1).optional(),
+  addMolecules: z.array(z.string().min(1)).optional(),
+  // Job whose recorded LLM responses are replayed (set by POST /api/jobs/:id/replay)
+  replayOf: z.string().min(1).optional(),
 });
 
-export type QueryRequest = z.infer<typeof QueryRequestSchema>;
+export type RunOptions = z.infer<typeof RunOptionsSchema>;
+
+export const RerunRequestSchema = RunOptionsSchema.omit({ replayOf: true }).extend({
+  priority: z.number().int().min(-10).max(10).optional(),
+});
+
+export type RerunRequest = z.infer<typeof RerunRequestSchema>;
+
+export const ReplayRequestSchema = z.object({
+  priority: z.number().int().min(-10).max(10).optional(),
+  // Also queue a fresh (live LLM) run to compare the replay against
+  compare: z.boolean().optional(),
+});
+
+export type ReplayRequest = z.infer<typeof ReplayRequestSchema>;
+
+// Year ("2026") or ISO date ("2026-06-30")
+const PlanDateSchema = z.string().regex(/^\d{4}(-\d{2}-\d{2})?$/, 'Expected YYYY or YYYY-MM-DD');
+
+// Numeric / temporal constraints, applied after the FTO and market stages.
+// A molecule passes a constraint when it holds in at least one analyzed country.
+export const PlanFiltersSchema = z.object({
+  // Some patent (blocking or expired) expires inside this window; a year means the whole year
+  expiryFrom: PlanDateSchema.optional(),
+  expiryTo: PlanDateSchema.optional(),
+  // Indication market size (DiseaseMarket.marketSizeUSD)
+  minMarketSizeUSD: z.number().nonnegative().optional(),
+  // GenericCompetition.genericApprovals
+  maxGenericApprovals: z.number().int().nonnegative().optional(),
+  // RegulatoryStatus.status, e.g. "Approved", "Not Filed"
+  regulatoryStatus: z.string().min(1).optional(),
+}).refine(
+  f => !f.expiryFrom || !f.expiryTo || f.expiryFrom.slice(0, 4) <= f.expiryTo.slice(0, 4),
+  { message: 'expiryFrom must not be after expiryTo', path: ['expiryTo'] }
+);
+
+export type PlanFilters = z.infer<typeof PlanFiltersSchema>;
 
 export const ExecutionPlanSchema = z.object({
   condition: z.string().optional(),
   country: z.string().optional(),
   molecule: z.string().optional(),
+  // Lists for multi-area / multi-market / comparative analyses - take precedence
+  // over the single-value fields (read them through planService's planConditions etc.)
+  conditions: z.array(z.string().min(1)).optional(),
+  countries: z.array(z.string().min(1)).optional(),
+  molecules: z.array(z.string().min(1)).optional(),
+  modality: z.string().optional(),
+  filters: PlanFiltersSchema.optional(),
   objectives: z.array(z.string()).optional(),
   agentsToRun: z.array(z.enum(['clinical', 'patent', 'scope', 'fto', 'market', 'decision']))
     .default(['scope', 'fto', 'clinical', 'market', 'decision']),
 });
 
 export type ExecutionPlan = z.infer<typeof ExecutionPlanSchema>;
+
+export const QueryRequestSchema = z.object({
+  queryText: z.string().min(1, 'Query text is required'),
+  priority: z.number().int().min(-10).max(10).optional(),
+  // Plan confirmed from POST /api/query/parse - run it as previewed instead of re-parsing
+  plan: ExecutionPlanSchema.optional(),
+});
+
+export type QueryRequest = z.infer<typeof QueryRequestSchema>;
+
+// POST /api/query/parse - preview how a query would be interpreted, without starting a job
+export const ParseQueryRequestSchema = QueryRequestSchema.pick({ queryText: true });
+
+// Something the parser had to guess, surfaced so the user can confirm or rephrase
+export interface PlanAmbiguity {
+  field: 'plan' | 'condition' | 'country' | 'molecule' | 'scope' | 'filters';
+  message: string;
+}
+
+// Where a job's plan came from: sent explicitly (POST /api/analyses, or a confirmed
+// /api/query/parse preview) or parsed from query text
+export type PlanSource = 'request' | 'query';
+
+// For parsed plans: whether the LLM produced a valid plan, or keyword extraction had to stand in
+export type PlanOrigin = 'llm' | 'fallback';
+
+// Query screening before a job is created: pharma BD questions pass; instructions aimed
+// at the model (prompt injection) and unrelated questions are rejected
+export type QueryVerdict = 'allowed' | 'injection' | 'off_topic';
+
+export interface QueryScreening {
+  verdict: QueryVerdict;
+  reasons: string[];
+}
+
+// POST /api/analyses - run the pipeline on an explicit plan, no query parsing
+export const AnalysisRequestSchema = z.object({
+  plan: ExecutionPlanSchema.strict(),
+  priority: z.number().int().min(-10).max(10).optional(),
+  bypassCache: z.boolean().optional(),
+});
+
+export type AnalysisRequest = z.infer<typeof AnalysisRequestSchema>;
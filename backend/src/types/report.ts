@@ -7,8 +7,12 @@ import {
   PatentCliffData,
   MoleculeDecision,
   CommercialStrategy,
-  CommercialRisk
+  CommercialRisk,
+  FTOStatus,
+  FilteredMolecule
 } from './agent';
+import { ExecutionPlan } from './query';
+import { CountryCode } from './country';
 
 // ============================================
 // BOARD-READY REPORT PAYLOAD (NEW)
@@ -22,11 +26,16 @@ export interface ReportPayload {
   // PRIMARY OUTPUT: Commercial decisions
   decisions: MoleculeDecision[];
   
+  // Molecules this run analyzed (in scope and past the query constraints), whichever stages ran
+  moleculeNames?: string[];
+  
   // Market overview
   marketOverview: {
     totalAddressableMarketUSD: number;
     byIndication: Array<{
       indication: string;
+      // Every analyzed market; reports from before multi-market support only have IN / US
+      marketSizeByCountry?: Record<CountryCode, number>;
       marketSizeIN: number;
       marketSizeUS: number;
     }>;
@@ -47,7 +56,7 @@ export interface ReportPayload {
   // Key dates
   upcomingPatentExpiries: Array<{
     molecule: string;
-    country: 'IN' | 'US';
+    country: CountryCode;
     expiryDate: string;
     yearsToExpiry: number;
   }>;
@@ -55,6 +64,30 @@ export interface ReportPayload {
   // NEW: Patient-level epidemiology data
   epidemiologyOverview?: EpidemiologyOverview;
   
+  // Per-molecule FTO status (available even when the decision stage was skipped)
+  ftoOverview?: FTOOverviewEntry[];
+  
+  // Pipeline stages not run for this query - their sections are empty
+  skippedStages?: string[];
+  
+  // Sections built from incomplete inputs (failed stage or molecule)
+  degradedSections?: DegradedSection[];
+  
+  // The resolved plan this report was built from (exactly what was analyzed)
+  plan?: ExecutionPlan;
+  
+  // Markets analyzed, in plan order (absent on IN / US reports from before multi-market support)
+  countries?: ReportCountry[];
+  
+  // Molecules in scope that failed a query constraint, with the reasons
+  filteredMolecules?: FilteredMolecule[];
+  
+  // One section per therapeutic area when the analysis spans several (comparative queries)
+  areaSections?: AreaSection[];
+  
+  // Fact check of an LLM-written summary against this payload
+  summaryVerification?: SummaryVerification;
+  
   // PDF path
   pdfPath?: string;
   
@@ -69,13 +102,81 @@ export interface ReportPayload {
   suggestedQueries?: string[];
 }
 
+export interface ReportCountry {
+  code: CountryCode;
+  name: string;
+  regulator?: string;
+  genericPathway?: string;
+}
+
+export interface DegradedSection {
+  section: string;       // Report section affected, e.g. "Market Overview"
+  missingInput: string;  // Stage whose output is missing or partial, e.g. "market"
+  detail: string;
+}
+
+export type SummaryClaimType = 'market_size' | 'patient_count' | 'percentage' | 'count' | 'molecule' | 'strategy';
+
+export interface SummaryMismatch {
+  type: SummaryClaimType;
+  claim: string;         // The text as written in the summary
+  detail: string;        // What the report data says instead
+  severity: 'minor' | 'major';
+}
+
+export interface SummaryVerification {
+  checkedClaims: number;
+  mismatches: SummaryMismatch[];
+  severe: boolean;
+  // The LLM summary was discarded for the data-driven fallback summary
+  replaced: boolean;
+}
+
+export interface AreaSection {
+  indication: string;
+  molecules: string[];
+  strategySummary: {
+    license: string[];
+    generic: string[];
+    wait: string[];
+    drop: string[];
+  };
+  marketSizeByCountry?: Record<CountryCode, number>;
+  marketSizeIN: number;
+  marketSizeUS: number;
+  ftoClear: string[];    // Molecules with CLEAR overall FTO
+  topOpportunity?: {
+    molecule: string;
+    strategy: CommercialStrategy;
+    rationale: string;
+  };
+  summary: string;       // One-line comparison text for the area
+}
+
+export interface FTOOverviewEntry {
+  molecule: string;
+  overallFTO: FTOStatus;
+  byCountry: Array<{
+    country: CountryCode;
+    ftoStatus: FTOStatus;
+    earliestGenericEntry: string;
+    blockingPatentCount: number;
+    blockingExclusivityCount?: number;
+    entryBlockedBy?: 'PATENT' | 'EXCLUSIVITY';
+    atRiskEarliestEntry?: string;  // US - hard-blocking patents and exclusivities only
+    litigationRisk?: 'LOW' | 'MEDIUM' | 'HIGH';
+    lastDevicePatentExpiry?: string;
+    deviceDesignAroundFeasible?: boolean;
+  }>;
+}
+
 // ============================================
 // NEW: Epidemiology Data Types
 // ============================================
 
 export interface DiseaseEpidemiologyData {
   disease: string;
-  country: 'US' | 'IN' | 'GLOBAL';
+  country: CountryCode | 'GLOBAL';
   year: number;
   prevalenceTotal: number;
   incidenceAnnual: number;
@@ -100,7 +201,7 @@ export interface DiseaseEpidemiologyData {
 
 export interface DrugUtilizationData {
   molecule: string;
-  country: 'US' | 'IN';
+  country: CountryCode;
   year: number;
   totalPatientsOnDrug: number;
   newPatientsAnnual?: number;
@@ -141,6 +242,8 @@ export interface ReportResponse {
     totalAddressableMarketUSD: number;
     byIndication: Array<{
       indication: string;
+      // Every analyzed market; reports from before multi-market support only have IN / US
+      marketSizeByCountry?: Record<CountryCode, number>;
       marketSizeIN: number;
       marketSizeUS: number;
     }>;
@@ -159,9 +262,7 @@ export interface ReportResponse {
   
   upcomingPatentExpiries: Array<{
     molecule: string;
-  upcomingPatentExpiries: Array<{
-    molecule: string;
-    country: 'IN' | 'US';
+    country: CountryCode;
     expiryDate: string;
     yearsToExpiry: number;
   }>;
@@ -182,3 +283,43 @@ export interface ReportResponse {
   patentCliff?: PatentCliffData;
   suggestedQueries?: string[];
 }
+
+// Side-by-side comparison of two jobs' reports, e.g. a replay and a fresh run
+export interface JobComparison {
+  jobs: {
+    a: ComparedJob;
+    b: ComparedJob;
+  };
+  identical: boolean;      // Same plan, summary, recommendations and strategies
+  plan: { identical: boolean; a: ExecutionPlan | null; b: ExecutionPlan | null };
+  summary: { identical: boolean; a: string; b: string };
+  recommendations: { identical: boolean; onlyInA: string[]; onlyInB: string[] };
+  // Molecules whose overall strategy differs (null when not decided on in that job)
+  strategyChanges: Array<{ molecule: string; a: CommercialStrategy | null; b: CommercialStrategy | null }>;
+  // LLM calls paired by purpose and order
+  llmCalls: Array<{
+    purpose: string;
+    identical: boolean;    // Same response text
+    promptChanged: boolean;
+    a?: ComparedLlmCall;
+    b?: ComparedLlmCall;
+  }>;
+}
+
+export interface ComparedJob {
+  id: string;
+  status: string;
+  queryText: string;
+  reportId: string;
+  replayOf?: string;
+  createdAt: Date;
+}
+
+export interface ComparedLlmCall {
+  id: number;
+  provider: string;
+  model: string | null;
+  latencyMs: number;
+  responseText: string | null;
+  error: string | null;
+}
@@ -1,63 +1,86 @@
-import { useState, useEffect } from 'react';
+import { useState, useCallback } from 'react';
 import { ChatInput } from './components/ChatInput';
 import { AgentTimeline } from './components/AgentTimeline';
 import { Dashboard } from './components/Dashboard';
-import { api } from './api/client';
-import type { AgentTraceEvent, ReportResponse } from './api/client';
+import { api, isBudgetExhausted, queryRejectionMessage } from './api/client';
+import type { ExecutionPlan, JobStatusEvent, ReportResponse } from './api/client';
 
 function App() {
   const [jobId, setJobId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [jobStatus, setJobStatus] = useState<string>('');
-  const [trace, setTrace] = useState<AgentTraceEvent[]>([]);
   const [report, setReport] = useState<ReportResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [canResume, setCanResume] = useState(false);
+  // Bumped on resume so the timeline reopens its (closed) event stream
+  const [streamKey, setStreamKey] = useState(0);
 
-  // Poll for job status and trace
-  useEffect(() => {
-    if (!jobId || jobStatus === 'completed' || jobStatus === 'error') {
-      return;
-    }
-
-    const pollInterval = setInterval(async () => {
-      try {
-        const [status, traceData] = await Promise.all([
-          api.getJobStatus(jobId),
-          api.getTrace(jobId),
-        ]);
+  // Job status arrives over the AgentTimeline event stream
+  const handleStatusChange = useCallback(async (event: JobStatusEvent) => {
+    setJobStatus(event.status);
 
-        setJobStatus(status.status);
-        setTrace(traceData);
+    if (!jobId) return;
 
-        if (status.status === 'completed') {
-          const reportData = await api.getReport(jobId);
-          setReport(reportData);
-          setIsLoading(false);
-        } else if (status.status === 'error') {
-          setError('Analysis failed. Please try again.');
-          setIsLoading(false);
-        }
+    if (event.status === 'completed') {
+      try {
+        const reportData = await api.getReport(jobId);
+        setReport(reportData);
       } catch (err) {
-        console.error('Polling error:', err);
+        console.error('Report fetch error:', err);
+        setError('Analysis finished but the report could not be loaded.');
       }
-    }, 2000);
+      setIsLoading(false);
+    } else if (event.status === 'error') {
+      setError('Analysis failed. Please try again.');
+      setCanResume(true);
+      setIsLoading(false);
+    } else if (event.status === 'cancelled') {
+      setError('Analysis cancelled.');
+      setCanResume(true);
+      setIsLoading(false);
+    }
+  }, [jobId]);
 
-    return () => clearInterval(pollInterval);
-  }, [jobId, jobStatus]);
+  const handleCancel = async () => {
+    if (!jobId) return;
+    try {
+      await api.cancelJob(jobId);
+    } catch (err) {
+      console.error('Cancel error:', err);
+    }
+  };
+
+  const handleResume = async () => {
+    if (!jobId) return;
+    try {
+      await api.resumeJob(jobId);
+      setError(null);
+      setCanResume(false);
+      setIsLoading(true);
+      setJobStatus('queued');
+      setStreamKey(key => key + 1);
+    } catch (err) {
+      console.error('Resume error:', err);
+      setError('Failed to resume analysis.');
+    }
+  };
 
-  const handleSubmit = async (query: string) => {
+  const handleSubmit = async (query: string, plan?: ExecutionPlan) => {
     setIsLoading(true);
     setError(null);
+    setCanResume(false);
     setReport(null);
-    setTrace([]);
+    setJobId(null);
     setJobStatus('');
 
     try {
-      const result = await api.createQuery(query);
+      const result = await api.createQuery(query, plan);
       setJobId(result.jobId);
       setJobStatus(result.status);
     } catch (err) {
-      setError('Failed to submit query. Make sure the backend is running.');
+      setError(isBudgetExhausted(err)
+        ? 'Daily AI budget reached - new analyses can be started after midnight UTC.'
+        : queryRejectionMessage(err) || 'Failed to submit query. Make sure the backend is running.');
       setIsLoading(false);
     }
   };
@@ -84,9 +107,9 @@ function App() {
             <ChatInput onSubmit={handleSubmit} isLoading={isLoading} />
             
             {/* Agent Timeline */}
-            {trace.length > 0 && (
+            {jobId && (
               <div className="mt-6">
-                <AgentTimeline events={trace} />
+                <AgentTimeline key={`${jobId}-${streamKey}`} jobId={jobId} onStatusChange={handleStatusChange} />
               </div>
             )}
           </div>
@@ -96,6 +119,15 @@ function App() {
             {error && (
               <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">
                 {error}
+                {canResume && jobId && (
+                  <button
+                    type="button"
+                    onClick={handleResume}
+                    className="ml-4 px-3 py-1 text-sm text-red-700 border border-red-300 rounded-lg hover:bg-red-100 transition-colors"
+                  >
+                    Resume from last completed stage
+                  </button>
+                )}
               </div>
             )}
 
@@ -104,8 +136,18 @@ function App() {
                 <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-blue-600 mx-auto mb-4"></div>
                 <div className="text-xl font-semibold text-gray-700">Analyzing...</div>
                 <div className="text-gray-500 mt-2">
-                  {jobStatus === 'running' ? 'Running analysis pipeline' : 'Initializing...'}
+                  {jobStatus === 'running' ? 'Running analysis pipeline' :
+                   jobStatus === 'queued' ? 'Queued - waiting for an available worker' : 'Initializing...'}
                 </div>
+                {jobId && (
+                  <button
+                    type="button"
+                    onClick={handleCancel}
+                    className="mt-6 px-4 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+                  >
+                    Cancel analysis
+                  </button>
+                )}
               </div>
             )}
 
@@ -14,6 +14,11 @@ export interface AgentTraceEvent {
   status: string;
   timestamp: string;
   detail?: string;
+  startedAt?: string;
+  endedAt?: string;
+  durationMs?: number;
+  inputCount?: number;
+  outputCount?: number;
 }
 
 // ============================================
@@ -23,9 +28,21 @@ export interface AgentTraceEvent {
 export type CommercialStrategy = 'LICENSE' | 'GENERIC' | 'WAIT' | 'DROP';
 export type CommercialRisk = 'LOW' | 'MEDIUM' | 'HIGH';
 export type GoNoGo = 'GO' | 'NO-GO' | 'CONDITIONAL';
+// DEVICE_BLOCKED: molecule free, only device patents block a same-device generic
+export type FTOStatus = 'CLEAR' | 'BLOCKED' | 'EXPIRING_SOON' | 'DEVICE_BLOCKED';
+
+// Country.code from the backend reference table, e.g. IN, US, BR, ZA, EU
+export type CountryCode = string;
+
+export interface ReportCountry {
+  code: CountryCode;
+  name: string;
+  regulator?: string;
+  genericPathway?: string;
+}
 
 export interface CountryRecommendation {
-  country: 'IN' | 'US';
+  country: CountryCode;
   strategy: CommercialStrategy;
   timeToMarketYears: number;
   estimatedRevenueUSD: number;
@@ -33,15 +50,47 @@ export interface CountryRecommendation {
   rationale: string;
   goNoGo: GoNoGo;
   conditions?: string[];
+  alternativeDevice?: boolean;  // GENERIC via a different delivery device
+  earliestEntry?: string;   // Conservative - every blocking patent and exclusivity expired
+  atRiskEntry?: string;     // US - only compound patents and exclusivities held to
 }
 
 export interface PatentInfo {
   patentNumber: string;
-  patentType: 'COMPOUND' | 'FORMULATION' | 'PROCESS' | 'SECONDARY';
+  patentType: 'COMPOUND' | 'FORMULATION' | 'PROCESS' | 'SECONDARY' | 'DEVICE';
   isPrimary: boolean;
+  devicePatent?: boolean;
   expiryDate: string;
-  status: 'Active' | 'Expired';
+  status: 'Active' | 'Expired' | 'Invalidated';
   title?: string;
+  useCodes?: string[];
+  challengeability?: 'HARD_BLOCKING' | 'DESIGN_AROUND' | 'CARVE_OUT' | 'PIV_CHALLENGE';
+  litigationStatus?: 'INVALIDATED' | 'UPHELD' | 'CHALLENGED';
+}
+
+// Patent case or challenge involving a molecule
+export interface LitigationCaseInfo {
+  caseNumber: string;
+  caseName: string;
+  court: string;
+  country: CountryCode;
+  plaintiffs: string[];
+  defendants: string[];
+  patentNumbers: string[];
+  patentsInvalidated: string[];
+  patentsUpheld: string[];
+  outcome: 'PENDING' | 'INVALIDATED' | 'UPHELD' | 'SPLIT' | 'SETTLED' | 'DISMISSED';
+  filedDate: string;
+  decisionDate?: string;
+}
+
+// Regulatory exclusivity blocking generic approval (US: FDA Orange Book)
+export interface ExclusivityInfo {
+  code: string;
+  type: 'NCE' | 'ODE' | 'NCI' | 'PED' | 'GAIN' | 'GENERIC_180' | 'OTHER';
+  applNo: string;
+  products: string[];
+  expiryDate: string;
 }
 
 export interface MoleculeDecision {
@@ -57,18 +106,26 @@ export interface MoleculeDecision {
   ftoSummary: string;
   clinicalSummary: string;
   marketSummary: string;
-  patentDetails?: {
-    IN: { blocking: PatentInfo[]; expired: PatentInfo[] };
-    US: { blocking: PatentInfo[]; expired: PatentInfo[] };
-  };
+  patentDetails?: Record<CountryCode, {
+    blocking: PatentInfo[];
+    expired: PatentInfo[];
+    invalidated?: PatentInfo[];
+    exclusivities?: ExclusivityInfo[];
+  }>;
+  litigation?: LitigationCaseInfo[];
+  earliestEntryByCountry?: Record<CountryCode, string>;
+  // Legacy - reports from before multi-market support
   earliestEntryIN?: string;
   earliestEntryUS?: string;
+  // Inputs this decision was made without (failed stage or molecule)
+  degraded?: Array<{ input: 'fto' | 'clinical' | 'market'; reason: string }>;
 }
 
 export interface MarketOverview {
   totalAddressableMarketUSD: number;
   byIndication: Array<{
     indication: string;
+    marketSizeByCountry?: Record<CountryCode, number>;
     marketSizeIN: number;
     marketSizeUS: number;
   }>;
@@ -84,18 +141,76 @@ export interface StrategySummary {
 
 export interface PatentExpiry {
   molecule: string;
-  country: 'IN' | 'US';
+  country: CountryCode;
   expiryDate: string;
   yearsToExpiry: number;
 }
 
+export interface DegradedSection {
+  section: string;
+  missingInput: string;
+  detail: string;
+}
+
+export interface SummaryMismatch {
+  type: 'market_size' | 'patient_count' | 'percentage' | 'count' | 'molecule' | 'strategy';
+  claim: string;
+  detail: string;
+  severity: 'minor' | 'major';
+}
+
+export interface SummaryVerification {
+  checkedClaims: number;
+  mismatches: SummaryMismatch[];
+  severe: boolean;
+  replaced: boolean;
+}
+
+export interface FilteredMolecule {
+  molecule: string;
+  reasons: string[];
+}
+
+export interface AreaSection {
+  indication: string;
+  molecules: string[];
+  strategySummary: StrategySummary;
+  marketSizeByCountry?: Record<CountryCode, number>;
+  marketSizeIN: number;
+  marketSizeUS: number;
+  ftoClear: string[];
+  topOpportunity?: {
+    molecule: string;
+    strategy: CommercialStrategy;
+    rationale: string;
+  };
+  summary: string;
+}
+
+export interface FTOOverviewEntry {
+  molecule: string;
+  overallFTO: FTOStatus;
+  byCountry: Array<{
+    country: CountryCode;
+    ftoStatus: FTOStatus;
+    earliestGenericEntry: string;
+    blockingPatentCount: number;
+    blockingExclusivityCount?: number;
+    entryBlockedBy?: 'PATENT' | 'EXCLUSIVITY';
+    atRiskEarliestEntry?: string;
+    litigationRisk?: 'LOW' | 'MEDIUM' | 'HIGH';
+    lastDevicePatentExpiry?: string;
+    deviceDesignAroundFeasible?: boolean;
+  }>;
+}
+
 // ============================================
 // NEW: Patient-Level Epidemiology Types
 // ============================================
 
 export interface DiseaseEpidemiology {
   disease: string;
-  country: 'US' | 'IN' | 'GLOBAL';
+  country: CountryCode | 'GLOBAL';
   year: number;
   
   // Patient counts
@@ -131,7 +246,7 @@ export interface DiseaseEpidemiology {
 
 export interface DrugUtilization {
   molecule: string;
-  country: 'US' | 'IN';
+  country: CountryCode;
   year: number;
   totalPatientsOnDrug: number;
   newPatientsAnnual?: number;
@@ -266,13 +381,89 @@ export interface MarketInsights {
   strongLicensingCandidates?: number;
 }
 
+export interface JobStatusEvent {
+  status: string;
+  resultId: string | null;
+}
+
+export interface JobEventHandlers {
+  onSnapshot: (trace: AgentTraceEvent[]) => void;
+  onTrace: (event: AgentTraceEvent) => void;
+  onStatus: (event: JobStatusEvent) => void;
+  onError?: () => void;
+}
+
+export interface PlanFilters {
+  expiryFrom?: string;
+  expiryTo?: string;
+  minMarketSizeUSD?: number;
+  maxGenericApprovals?: number;
+  regulatoryStatus?: string;
+}
+
+export interface ExecutionPlan {
+  condition?: string;
+  country?: string;
+  molecule?: string;
+  conditions?: string[];
+  countries?: string[];
+  molecules?: string[];
+  modality?: string;
+  filters?: PlanFilters;
+  objectives?: string[];
+  agentsToRun: string[];
+}
+
+export interface PlanAmbiguity {
+  field: 'plan' | 'condition' | 'country' | 'molecule' | 'scope' | 'filters';
+  message: string;
+}
+
+// How a query would be interpreted (POST /query/parse) - shown for confirmation before running
+export interface MoleculeMatch {
+  molecule: string;
+  term: string;
+  matchedTo: string;
+  matchType: 'name' | 'generic' | 'brand' | 'synonym' | 'code' | 'fuzzy';
+  confidence: number;
+}
+
+export interface QueryPreview {
+  plan: ExecutionPlan;
+  // 'fallback' when the AI gave no valid plan and keywords alone built it
+  planOrigin: 'llm' | 'fallback';
+  selectedMolecules: string[];
+  filterCriteria: {
+    indication?: string;
+    country?: string;
+    modality?: string;
+  };
+  totalAvailable: number;
+  ambiguities: PlanAmbiguity[];
+  moleculeMatches: MoleculeMatch[];
+}
+
+export interface RerunOptions {
+  bypassCache?: boolean;
+  country?: string;
+  addMolecules?: string[];
+}
+
 export interface JobStatus {
   id: string;
   status: string;
   queryText: string;
   resultId: string | null;
+  priority: number;
+  attempts: number;
+  failureReason: string | null;
+  rerunOfId: string | null;
+  options: RerunOptions;
+  cancelRequested: boolean;
   createdAt: string;
   updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
 }
 
 // ============================================
@@ -284,6 +475,9 @@ export interface ReportResponse {
   queryText: string;
   summary: string;
   
+  // Markets analyzed; empty for reports from before multi-market support (IN + US)
+  countries?: ReportCountry[];
+  
   // PRIMARY OUTPUT: Commercial Decisions
   decisions: MoleculeDecision[];
   marketOverview: MarketOverview;
@@ -293,6 +487,20 @@ export interface ReportResponse {
   // NEW: Patient-level epidemiology data
   epidemiologyOverview?: EpidemiologyOverview;
   
+  // Focused runs (ExecutionPlan.agentsToRun) - FTO status without decisions
+  ftoOverview?: FTOOverviewEntry[];
+  skippedStages?: string[];
+  degradedSections?: DegradedSection[];
+  
+  // Molecules in scope excluded by query constraints, with the reasons
+  filteredMolecules?: FilteredMolecule[];
+  
+  // Comparative (multi-area) analyses - one entry per therapeutic area
+  areaSections?: AreaSection[];
+  
+  // Fact-check of the AI-written summary against the report data
+  summaryVerification?: SummaryVerification | null;
+  
   recommendations: string[];
   pdfUrl: string;
   createdAt: string;
@@ -336,8 +544,14 @@ export const QUERY_TEMPLATES = [
 ];
 
 export const api = {
-  createQuery: async (queryText: string) => {
-    const response = await apiClient.post('/query', { queryText });
+  // Pass the plan from parseQuery to run exactly what the user confirmed
+  createQuery: async (queryText: string, plan?: ExecutionPlan) => {
+    const response = await apiClient.post('/query', { queryText, plan });
+    return response.data;
+  },
+
+  parseQuery: async (queryText: string): Promise<QueryPreview> => {
+    const response = await apiClient.post('/query/parse', { queryText });
     return response.data;
   },
 
@@ -346,11 +560,52 @@ export const api = {
     return response.data;
   },
 
+  cancelJob: async (jobId: string) => {
+    const response = await apiClient.post(`/jobs/${jobId}/cancel`);
+    return response.data;
+  },
+
+  rerunJob: async (jobId: string, options: RerunOptions & { priority?: number } = {}) => {
+    const response = await apiClient.post(`/jobs/${jobId}/rerun`, options);
+    return response.data;
+  },
+
+  // Failed/cancelled jobs pick up from their last completed stage
+  resumeJob: async (jobId: string) => {
+    const response = await apiClient.post(`/jobs/${jobId}/resume`);
+    return response.data;
+  },
+
   getTrace: async (jobId: string): Promise<AgentTraceEvent[]> => {
     const response = await apiClient.get(`/jobs/${jobId}/trace`);
     return response.data;
   },
 
+  // Live trace/status stream (Server-Sent Events). Returns a function that closes the stream.
+  subscribeToJob: (jobId: string, handlers: JobEventHandlers) => {
+    const source = new EventSource(`${API_BASE_URL}/jobs/${jobId}/events`);
+
+    source.addEventListener('snapshot', (e) => {
+      handlers.onSnapshot(JSON.parse((e as MessageEvent).data));
+    });
+    source.addEventListener('trace', (e) => {
+      handlers.onTrace(JSON.parse((e as MessageEvent).data));
+    });
+    source.addEventListener('status', (e) => {
+      const event: JobStatusEvent = JSON.parse((e as MessageEvent).data);
+      handlers.onStatus(event);
+      // Server ends the stream on a terminal status; stop EventSource from reconnecting
+      if (event.status === 'completed' || event.status === 'error' || event.status === 'cancelled') {
+        source.close();
+      }
+    });
+    source.onerror = () => {
+      handlers.onError?.();
+    };
+
+    return () => source.close();
+  },
+
   getReport: async (jobId: string): Promise<ReportResponse> => {
     const response = await apiClient.get(`/jobs/${jobId}/report`);
     return response.data;
@@ -360,3 +615,14 @@ export const api = {
     return `${API_BASE_URL}/reports/${reportId}/pdf`;
   },
 };
+
+// The backend returns 429 once the daily LLM budget is spent
+export function isBudgetExhausted(err: unknown): boolean {
+  return axios.isAxiosError(err) && err.response?.status === 429;
+}
+
+// The backend rejects prompt-injection attempts and off-topic queries with 400 and a reason
+export function queryRejectionMessage(err: unknown): string | null {
+  if (!axios.isAxiosError(err) || err.response?.status !== 400 || !err.response.data?.verdict) return null;
+  return err.response.data.error;
+}
@@ -1,8 +1,10 @@
-import React from 'react';
-import type { AgentTraceEvent } from '../api/client';
+import React, { useEffect, useState } from 'react';
+import { api } from '../api/client';
+import type { AgentTraceEvent, JobStatusEvent } from '../api/client';
 
 interface AgentTimelineProps {
-  events: AgentTraceEvent[];
+  jobId: string;
+  onStatusChange?: (event: JobStatusEvent) => void;
 }
 
 const getStatusColor = (status: string) => {
@@ -13,6 +15,8 @@ const getStatusColor = (status: string) => {
       return 'bg-blue-500 animate-pulse';
     case 'error':
       return 'bg-red-500';
+    case 'cancelled':
+      return 'bg-yellow-500';
     default:
       return 'bg-gray-400';
   }
@@ -26,12 +30,25 @@ const getStatusIcon = (status: string) => {
       return '⋯';
     case 'error':
       return '✗';
+    case 'cancelled':
+      return '■';
     default:
       return '○';
   }
 };
 
-export const AgentTimeline: React.FC<AgentTimelineProps> = ({ events }) => {
+export const AgentTimeline: React.FC<AgentTimelineProps> = ({ jobId, onStatusChange }) => {
+  const [events, setEvents] = useState<AgentTraceEvent[]>([]);
+
+  // Live trace via Server-Sent Events (replaces 2s polling)
+  useEffect(() => {
+    return api.subscribeToJob(jobId, {
+      onSnapshot: (trace) => setEvents(trace),
+      onTrace: (event) => setEvents((prev) => [...prev, event]),
+      onStatus: (event) => onStatusChange?.(event),
+    });
+  }, [jobId, onStatusChange]);
+
   // Group events by agent
   const agentGroups = events.reduce((acc, event) => {
     if (!acc[event.agent]) {
@@ -41,7 +58,8 @@ export const AgentTimeline: React.FC<AgentTimelineProps> = ({ events }) => {
     return acc;
   }, {} as Record<string, AgentTraceEvent[]>);
 
-  const agents = ['MasterAgent', 'Cache', 'ClinicalTrialsAgent', 'PatentAgent', 'SynthesisEngine', 'ReportGenerator'];
+  // Show agents in the order they first reported
+  const agents = Object.keys(agentGroups);
 
   return (
     <div className="bg-white rounded-lg shadow-lg p-6">
@@ -73,6 +91,7 @@ export const AgentTimeline: React.FC<AgentTimelineProps> = ({ events }) => {
                   )}
                   <div className="text-xs text-gray-400 mt-1">
                     {new Date(latestEvent.timestamp).toLocaleTimeString()}
+                    {latestEvent.durationMs !== undefined && ` · ${(latestEvent.durationMs / 1000).toFixed(1)}s`}
                   </div>
                 </div>
               </div>
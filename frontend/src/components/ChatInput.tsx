@@ -1,4 +1,6 @@
 import React, { useState } from 'react';
+import { api, isBudgetExhausted, queryRejectionMessage } from '../api/client';
+import type { ExecutionPlan, QueryPreview } from '../api/client';
 
 interface QueryTemplate {
   id: string;
@@ -54,23 +56,49 @@ const CATEGORY_COLORS: Record<string, string> = {
 };
 
 interface ChatInputProps {
-  onSubmit: (query: string) => void;
+  onSubmit: (query: string, plan?: ExecutionPlan) => void;
   isLoading: boolean;
 }
 
 export const ChatInput: React.FC<ChatInputProps> = ({ onSubmit, isLoading }) => {
   const [query, setQuery] = useState('');
   const [showTemplates, setShowTemplates] = useState(false);
+  const [preview, setPreview] = useState<QueryPreview | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // First step: show how the query will be interpreted before starting a full run
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (query.trim() && !isLoading) {
-      onSubmit(query);
+    if (!query.trim() || isLoading || isParsing) return;
+
+    setIsParsing(true);
+    setParseError(null);
+    try {
+      setPreview(await api.parseQuery(query));
+    } catch (err) {
+      console.error('Parse preview error:', err);
+      setParseError(isBudgetExhausted(err)
+        ? 'Daily AI budget reached - try again after midnight UTC.'
+        : queryRejectionMessage(err) || 'Could not preview how this query will be interpreted.');
+    } finally {
+      setIsParsing(false);
     }
   };
 
+  const handleConfirm = () => {
+    onSubmit(query, preview?.plan);
+    setPreview(null);
+  };
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setPreview(null);
+    setParseError(null);
+  };
+
   const handleTemplateClick = (template: QueryTemplate) => {
-    setQuery(template.query);
+    handleQueryChange(template.query);
     setShowTemplates(false);
   };
 
@@ -113,7 +141,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSubmit, isLoading }) =>
       <form onSubmit={handleSubmit}>
         <textarea
           value={query}
-          onChange={(e) => setQuery(e.target.value)}
+          onChange={(e) => handleQueryChange(e.target.value)}
           placeholder="Enter your query... (e.g., 'Find molecules with low competition but high patient burden in respiratory disease in India')"
           className="w-full h-32 p-4 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none resize-none text-gray-700"
           disabled={isLoading}
@@ -126,7 +154,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSubmit, isLoading }) =>
             {query.trim() && (
               <button
                 type="button"
-                onClick={() => setQuery('')}
+                onClick={() => handleQueryChange('')}
                 className="px-4 py-3 text-gray-600 rounded-lg font-medium hover:bg-gray-100 transition-colors"
               >
                 Clear
@@ -134,14 +162,85 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSubmit, isLoading }) =>
             )}
             <button
               type="submit"
-              disabled={isLoading || !query.trim()}
+              disabled={isLoading || isParsing || !!preview || !query.trim()}
               className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
             >
-              {isLoading ? 'Analyzing...' : 'Run Analysis'}
+              {isLoading ? 'Analyzing...' : isParsing ? 'Checking...' : 'Run Analysis'}
             </button>
           </div>
         </div>
       </form>
+
+      {/* Preview failed - the query can still run, parsed server-side as usual */}
+      {parseError && (
+        <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex justify-between items-center">
+          <p className="text-sm text-red-700">{parseError}</p>
+          <button
+            type="button"
+            onClick={() => { setParseError(null); onSubmit(query); }}
+            disabled={isLoading}
+            className="text-sm px-3 py-1.5 bg-white border border-red-300 text-red-700 rounded-lg hover:bg-red-100 transition-colors"
+          >
+            Run anyway
+          </button>
+        </div>
+      )}
+
+      {/* Confirm / clarify step */}
+      {preview && (
+        <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+          <h3 className="font-semibold text-gray-800 mb-2">This query will analyze:</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm text-gray-700 mb-3">
+            <div><span className="text-gray-500">Condition:</span> {preview.plan.conditions?.join(', ') || preview.plan.condition || 'All indications'}</div>
+            <div><span className="text-gray-500">Country:</span> {preview.plan.countries?.join(', ') || preview.plan.country || 'India + US'}</div>
+            <div><span className="text-gray-500">Molecule:</span> {preview.plan.molecules?.join(', ') || preview.plan.molecule || 'All in scope'}</div>
+          </div>
+          <p className="text-sm text-gray-700 mb-3">
+            <span className="text-gray-500">
+              {preview.selectedMolecules.length} of {preview.totalAvailable} molecules:
+            </span>{' '}
+            {preview.selectedMolecules.join(', ') || 'none'}
+          </p>
+          {preview.moleculeMatches.some(m => m.term.toLowerCase() !== m.molecule.toLowerCase()) && (
+            <p className="text-xs text-gray-500 mb-3">
+              Recognised:{' '}
+              {preview.moleculeMatches
+                .filter(m => m.term.toLowerCase() !== m.molecule.toLowerCase())
+                .map(m => `${m.term} → ${m.molecule} (${m.matchType}${m.confidence < 1 ? `, ${Math.round(m.confidence * 100)}%` : ''})`)
+                .join(', ')}
+            </p>
+          )}
+
+          {preview.ambiguities.length > 0 && (
+            <div className="mb-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <p className="text-sm font-medium text-yellow-800 mb-1">Please check these assumptions:</p>
+              <ul className="list-disc list-inside text-sm text-yellow-800">
+                {preview.ambiguities.map((a, i) => (
+                  <li key={i}>{a.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setPreview(null)}
+              className="px-4 py-2 text-gray-600 rounded-lg font-medium hover:bg-gray-100 transition-colors"
+            >
+              Edit Query
+            </button>
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={isLoading || preview.selectedMolecules.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              Confirm &amp; Run
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
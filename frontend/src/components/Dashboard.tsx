@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import type { ReportResponse, MoleculeDecision, CountryRecommendation, CommercialStrategy, DiseaseEpidemiology, DrugUtilization } from '../api/client';
+import type { ReportResponse, ReportCountry, MoleculeDecision, CountryRecommendation, PatentInfo, CommercialStrategy, DiseaseEpidemiology, DrugUtilization } from '../api/client';
 
 interface DashboardProps {
   report: ReportResponse;
@@ -89,13 +89,34 @@ const formatCurrency = (value: number): string => {
   return `$${value.toFixed(0)}`;
 };
 
+// Reports from before multi-market support analyzed India and the US
+const LEGACY_COUNTRIES: ReportCountry[] = [
+  { code: 'IN', name: 'India' },
+  { code: 'US', name: 'United States' },
+];
+
+// Flag emoji from a two-letter country code (regional indicator symbols)
+const countryFlag = (code: string): string =>
+  String.fromCodePoint(...[...code.toUpperCase()].map(c => 0x1f1e6 + c.charCodeAt(0) - 65));
+
+const countryName = (countries: ReportCountry[], code: string): string =>
+  countries.find(c => c.code === code)?.name ?? code;
+
+// How a blocking US patent could be cleared before expiry
+const CHALLENGE_LABELS: Record<NonNullable<PatentInfo['challengeability']>, string> = {
+  HARD_BLOCKING: 'hard-blocking',
+  DESIGN_AROUND: 'design-around',
+  CARVE_OUT: 'section viii carve-out',
+  PIV_CHALLENGE: 'PIV challenge',
+};
+
 // Country Recommendation Card
-const CountryCard: React.FC<{ rec: CountryRecommendation }> = ({ rec }) => (
+const CountryCard: React.FC<{ rec: CountryRecommendation; name: string }> = ({ rec, name }) => (
   <div className="border rounded-lg p-4 bg-gray-50">
     <div className="flex items-center justify-between mb-3">
       <div className="flex items-center gap-2">
-        <span className="text-2xl">{rec.country === 'IN' ? '🇮🇳' : '🇺🇸'}</span>
-        <span className="font-semibold text-gray-800">{rec.country === 'IN' ? 'India' : 'United States'}</span>
+        <span className="text-2xl">{countryFlag(rec.country)}</span>
+        <span className="font-semibold text-gray-800">{name}</span>
       </div>
       <span className={`px-3 py-1 rounded-full text-xs font-bold ${getGoNoGoColor(rec.goNoGo)}`}>
         {rec.goNoGo}
@@ -103,7 +124,7 @@ const CountryCard: React.FC<{ rec: CountryRecommendation }> = ({ rec }) => (
     </div>
     
     <div className={`inline-block px-3 py-1 rounded-full text-sm font-semibold border mb-3 ${getStrategyColor(rec.strategy)}`}>
-      {rec.strategy}
+      {rec.strategy}{rec.alternativeDevice && ' · alternative device'}
     </div>
     
     <div className="grid grid-cols-2 gap-3 text-sm mb-3">
@@ -119,6 +140,20 @@ const CountryCard: React.FC<{ rec: CountryRecommendation }> = ({ rec }) => (
         <div className="text-gray-500">Risk</div>
         <div className={`font-semibold ${getRiskColor(rec.commercialRisk)}`}>{rec.commercialRisk}</div>
       </div>
+      {rec.earliestEntry && (
+        <div>
+          <div className="text-gray-500">Conservative Entry</div>
+          <div className="font-semibold">{new Date(rec.earliestEntry).toLocaleDateString()}</div>
+        </div>
+      )}
+      {rec.atRiskEntry && (
+        <div>
+          <div className="text-gray-500">At-Risk Entry</div>
+          <div className={`font-semibold ${rec.earliestEntry && rec.atRiskEntry < rec.earliestEntry ? 'text-orange-600' : ''}`}>
+            {new Date(rec.atRiskEntry).toLocaleDateString()}
+          </div>
+        </div>
+      )}
     </div>
     
     <p className="text-sm text-gray-600">{rec.rationale}</p>
@@ -137,8 +172,11 @@ const CountryCard: React.FC<{ rec: CountryRecommendation }> = ({ rec }) => (
 );
 
 // Molecule Decision Card
-const MoleculeDecisionCard: React.FC<{ decision: MoleculeDecision }> = ({ decision }) => {
+const MoleculeDecisionCard: React.FC<{ decision: MoleculeDecision; countries: ReportCountry[] }> = ({ decision, countries }) => {
   const [expanded, setExpanded] = useState(false);
+  const earliestEntries = Object.entries(
+    decision.earliestEntryByCountry ?? { IN: decision.earliestEntryIN, US: decision.earliestEntryUS }
+  ).filter((entry): entry is [string, string] => !!entry[1]);
 
   return (
     <div className="bg-white rounded-lg shadow-lg overflow-hidden">
@@ -154,6 +192,14 @@ const MoleculeDecisionCard: React.FC<{ decision: MoleculeDecision }> = ({ decisi
               <span className={`px-3 py-1 rounded-full text-sm font-bold border ${getStrategyColor(decision.overallStrategy)}`}>
                 {decision.overallStrategy}
               </span>
+              {decision.degraded && (
+                <span
+                  className="px-2 py-0.5 rounded text-xs font-semibold bg-yellow-100 text-yellow-800"
+                  title={decision.degraded.map(d => `${d.input}: ${d.reason}`).join('\n')}
+                >
+                  Degraded - no {decision.degraded.map(d => d.input).join(', ')} data
+                </span>
+              )}
             </div>
             {decision.brandName && (
               <p className="text-sm text-gray-500 mb-1">Brand: {decision.brandName}</p>
@@ -191,81 +237,87 @@ const MoleculeDecisionCard: React.FC<{ decision: MoleculeDecision }> = ({ decisi
         {/* Patent Details */}
         {decision.patentDetails && (
           <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* India Patents */}
-            <div className="bg-orange-50 rounded-lg p-3">
-              <div className="text-xs text-orange-600 font-semibold mb-2 flex items-center gap-1">
-                🇮🇳 India Patents
-              </div>
-              {decision.patentDetails.IN.blocking.length > 0 && (
-                <div className="mb-2">
-                  <div className="text-xs font-medium text-red-700 mb-1">🔒 Blocking ({decision.patentDetails.IN.blocking.length})</div>
-                  {decision.patentDetails.IN.blocking.slice(0, 3).map((p, i) => (
-                    <div key={i} className="text-xs text-gray-700 ml-2">
-                      • <span className="font-mono">{p.patentNumber}</span> expires {new Date(p.expiryDate).toLocaleDateString()} 
-                      <span className="text-gray-500"> ({p.patentType})</span>
-                    </div>
-                  ))}
-                  {decision.patentDetails.IN.blocking.length > 3 && (
-                    <div className="text-xs text-gray-500 ml-2">+ {decision.patentDetails.IN.blocking.length - 3} more</div>
-                  )}
+            {Object.entries(decision.patentDetails).map(([code, patents], idx) => (
+              <div key={code} className={`${idx % 2 === 0 ? 'bg-orange-50' : 'bg-blue-50'} rounded-lg p-3`}>
+                <div className={`text-xs ${idx % 2 === 0 ? 'text-orange-600' : 'text-blue-600'} font-semibold mb-2 flex items-center gap-1`}>
+                  {countryFlag(code)} {countryName(countries, code)} Patents
                 </div>
-              )}
-              {decision.patentDetails.IN.expired.length > 0 && (
-                <div>
-                  <div className="text-xs font-medium text-green-700 mb-1">✅ Expired ({decision.patentDetails.IN.expired.length})</div>
-                  {decision.patentDetails.IN.expired.slice(0, 2).map((p, i) => (
-                    <div key={i} className="text-xs text-gray-600 ml-2">
-                      • <span className="font-mono">{p.patentNumber}</span> expired {new Date(p.expiryDate).toLocaleDateString()}
-                    </div>
-                  ))}
-                  {decision.patentDetails.IN.expired.length > 2 && (
-                    <div className="text-xs text-gray-500 ml-2">+ {decision.patentDetails.IN.expired.length - 2} more</div>
-                  )}
-                </div>
-              )}
-              {decision.patentDetails.IN.blocking.length === 0 && decision.patentDetails.IN.expired.length === 0 && (
-                <div className="text-xs text-gray-500">No patents found</div>
-              )}
-            </div>
-
-            {/* US Patents */}
-            <div className="bg-blue-50 rounded-lg p-3">
-              <div className="text-xs text-blue-600 font-semibold mb-2 flex items-center gap-1">
-                🇺🇸 United States Patents
+                {patents.blocking.length > 0 && (
+                  <div className="mb-2">
+                    <div className="text-xs font-medium text-red-700 mb-1">🔒 Blocking ({patents.blocking.length})</div>
+                    {patents.blocking.slice(0, 3).map((p, i) => (
+                      <div key={i} className="text-xs text-gray-700 ml-2">
+                        • <span className="font-mono">{p.patentNumber}</span> expires {new Date(p.expiryDate).toLocaleDateString()} 
+                        <span className="text-gray-500"> ({p.patentType}{p.challengeability ? ` · ${CHALLENGE_LABELS[p.challengeability]}` : ''})</span>
+                        {p.devicePatent && <span className="text-gray-500"> · device</span>}
+                        {p.litigationStatus === 'CHALLENGED' && <span className="text-orange-600"> · under challenge</span>}
+                      </div>
+                    ))}
+                    {patents.blocking.length > 3 && (
+                      <div className="text-xs text-gray-500 ml-2">+ {patents.blocking.length - 3} more</div>
+                    )}
+                  </div>
+                )}
+                {patents.expired.length > 0 && (
+                  <div>
+                    <div className="text-xs font-medium text-green-700 mb-1">✅ Expired ({patents.expired.length})</div>
+                    {patents.expired.slice(0, 2).map((p, i) => (
+                      <div key={i} className="text-xs text-gray-600 ml-2">
+                        • <span className="font-mono">{p.patentNumber}</span> expired {new Date(p.expiryDate).toLocaleDateString()}
+                      </div>
+                    ))}
+                    {patents.expired.length > 2 && (
+                      <div className="text-xs text-gray-500 ml-2">+ {patents.expired.length - 2} more</div>
+                    )}
+                  </div>
+                )}
+                {patents.invalidated && patents.invalidated.length > 0 && (
+                  <div className="mt-2">
+                    <div className="text-xs font-medium text-gray-700 mb-1">⚖️ Invalidated ({patents.invalidated.length})</div>
+                    {patents.invalidated.map((p, i) => (
+                      <div key={i} className="text-xs text-gray-600 ml-2">
+                        • <span className="font-mono line-through">{p.patentNumber}</span> held invalid (nominal expiry {new Date(p.expiryDate).toLocaleDateString()})
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {patents.exclusivities && patents.exclusivities.length > 0 && (
+                  <div className="mt-2">
+                    <div className="text-xs font-medium text-purple-700 mb-1">🛡️ Regulatory Exclusivity ({patents.exclusivities.length})</div>
+                    {patents.exclusivities.map((e, i) => (
+                      <div key={i} className="text-xs text-gray-700 ml-2">
+                        • <span className="font-mono">{e.code}</span> expires {new Date(e.expiryDate).toLocaleDateString()}
+                        <span className="text-gray-500"> ({e.type}, NDA {e.applNo})</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {patents.blocking.length === 0 && patents.expired.length === 0 && !patents.invalidated?.length && !patents.exclusivities?.length && (
+                  <div className="text-xs text-gray-500">No patents found</div>
+                )}
               </div>
-              {decision.patentDetails.US.blocking.length > 0 && (
-                <div className="mb-2">
-                  <div className="text-xs font-medium text-red-700 mb-1">🔒 Blocking ({decision.patentDetails.US.blocking.length})</div>
-                  {decision.patentDetails.US.blocking.slice(0, 3).map((p, i) => (
-                    <div key={i} className="text-xs text-gray-700 ml-2">
-                      • <span className="font-mono">{p.patentNumber}</span> expires {new Date(p.expiryDate).toLocaleDateString()} 
-                      <span className="text-gray-500"> ({p.patentType})</span>
-                    </div>
-                  ))}
-                  {decision.patentDetails.US.blocking.length > 3 && (
-                    <div className="text-xs text-gray-500 ml-2">+ {decision.patentDetails.US.blocking.length - 3} more</div>
-                  )}
-                </div>
-              )}
-              {decision.patentDetails.US.expired.length > 0 && (
-                <div>
-                  <div className="text-xs font-medium text-green-700 mb-1">✅ Expired ({decision.patentDetails.US.expired.length})</div>
-                  {decision.patentDetails.US.expired.slice(0, 2).map((p, i) => (
-                    <div key={i} className="text-xs text-gray-600 ml-2">
-                      • <span className="font-mono">{p.patentNumber}</span> expired {new Date(p.expiryDate).toLocaleDateString()}
-                    </div>
-                  ))}
-                  {decision.patentDetails.US.expired.length > 2 && (
-                    <div className="text-xs text-gray-500 ml-2">+ {decision.patentDetails.US.expired.length - 2} more</div>
-                  )}
-                </div>
-              )}
-              {decision.patentDetails.US.blocking.length === 0 && decision.patentDetails.US.expired.length === 0 && (
-                <div className="text-xs text-gray-500">No patents found</div>
-              )}
-            </div>
+            ))}
           </div>
-        )}      </div>
+        )}
+        {/* Patent Litigation */}
+        {decision.litigation && decision.litigation.length > 0 && (
+          <div className="mt-4 bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-700 font-semibold mb-2">⚖️ Patent Litigation ({decision.litigation.length})</div>
+            {decision.litigation.map((c, i) => (
+              <div key={i} className="text-xs text-gray-700 ml-2">
+                • {countryFlag(c.country)} <span className="font-medium">{c.caseName}</span> ({c.court}, {c.caseNumber}) -{' '}
+                <span className={c.outcome === 'PENDING' ? 'text-orange-600 font-semibold' : 'font-semibold'}>{c.outcome}</span>
+                {c.decisionDate ? ` ${new Date(c.decisionDate).toLocaleDateString()}` : `, filed ${new Date(c.filedDate).toLocaleDateString()}`}
+                <span className="text-gray-500">
+                  {c.patentsInvalidated.length > 0 && ` · invalidated ${c.patentsInvalidated.join(', ')}`}
+                  {c.patentsUpheld.length > 0 && ` · upheld ${c.patentsUpheld.join(', ')}`}
+                  {c.outcome === 'PENDING' && ` · challenges ${c.patentNumbers.join(', ')}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
       
       {/* Expanded: Country Recommendations */}
       {expanded && (
@@ -273,25 +325,19 @@ const MoleculeDecisionCard: React.FC<{ decision: MoleculeDecision }> = ({ decisi
           <h4 className="text-lg font-semibold text-gray-800 mt-4 mb-4">Country Recommendations</h4>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {decision.recommendations.map((rec) => (
-              <CountryCard key={rec.country} rec={rec} />
+              <CountryCard key={rec.country} rec={rec} name={countryName(countries, rec.country)} />
             ))}
           </div>
           
           {/* Entry timelines */}
-          {(decision.earliestEntryIN || decision.earliestEntryUS) && (
-            <div className="mt-4 pt-4 border-t flex gap-6 text-sm">
-              {decision.earliestEntryIN && (
-                <div>
-                  <span className="text-gray-500">🇮🇳 Earliest Entry: </span>
-                  <span className="font-semibold">{decision.earliestEntryIN}</span>
+          {earliestEntries.length > 0 && (
+            <div className="mt-4 pt-4 border-t flex flex-wrap gap-6 text-sm">
+              {earliestEntries.map(([code, date]) => (
+                <div key={code}>
+                  <span className="text-gray-500">{countryFlag(code)} Earliest Entry: </span>
+                  <span className="font-semibold">{date}</span>
                 </div>
-              )}
-              {decision.earliestEntryUS && (
-                <div>
-                  <span className="text-gray-500">🇺🇸 Earliest Entry: </span>
-                  <span className="font-semibold">{decision.earliestEntryUS}</span>
-                </div>
-              )}
+              ))}
             </div>
           )}
         </div>
@@ -302,6 +348,7 @@ const MoleculeDecisionCard: React.FC<{ decision: MoleculeDecision }> = ({ decisi
 
 export const Dashboard: React.FC<DashboardProps> = ({ report, onSuggestedQuery }) => {
   const hasDecisions = report.decisions && report.decisions.length > 0;
+  const countries = report.countries && report.countries.length > 0 ? report.countries : LEGACY_COUNTRIES;
   
   return (
     <div className="space-y-6">
@@ -345,6 +392,59 @@ export const Dashboard: React.FC<DashboardProps> = ({ report, onSuggestedQuery }
         )}
       </div>
 
+      {/* Focused analysis notice */}
+      {report.skippedStages && report.skippedStages.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+          Focused analysis - not included in this report: {report.skippedStages.join(', ')}
+        </div>
+      )}
+
+      {/* Data gaps from failed stages or molecules */}
+      {report.degradedSections && report.degradedSections.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+          <div className="font-semibold mb-1">⚠️ Some sections were built from incomplete data</div>
+          <ul className="list-disc list-inside space-y-0.5">
+            {report.degradedSections.map((gap, idx) => (
+              <li key={idx}>
+                <span className="font-medium">{gap.section}</span> (missing {gap.missingInput}): {gap.detail}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Summary claims the report data does not support */}
+      {report.summaryVerification && report.summaryVerification.mismatches.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+          <div className="font-semibold mb-1">
+            {report.summaryVerification.replaced
+              ? '⚠️ The AI summary contradicted the analysis data and was replaced with the data-driven summary'
+              : '⚠️ Some summary statements could not be matched to the analysis data'}
+          </div>
+          <ul className="list-disc list-inside space-y-0.5">
+            {report.summaryVerification.mismatches.map((m, idx) => (
+              <li key={idx}>
+                <span className="font-medium">"{m.claim}"</span>: {m.detail}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Molecules excluded by query constraints */}
+      {report.filteredMolecules && report.filteredMolecules.length > 0 && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-700">
+          <div className="font-semibold mb-1">Excluded by query constraints</div>
+          <ul className="list-disc list-inside space-y-0.5">
+            {report.filteredMolecules.map(f => (
+              <li key={f.molecule}>
+                <span className="font-medium">{f.molecule}</span>: {f.reasons.join('; ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Executive Summary */}
       <div className="bg-white rounded-lg shadow-lg p-6">
         <h3 className="text-lg font-bold text-gray-800 mb-4">Executive Summary</h3>
@@ -353,6 +453,49 @@ export const Dashboard: React.FC<DashboardProps> = ({ report, onSuggestedQuery }
         </div>
       </div>
 
+      {/* Therapeutic area comparison (multi-area queries) */}
+      {report.areaSections && report.areaSections.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h3 className="text-lg font-bold text-gray-800 mb-4">⚖️ Therapeutic Area Comparison</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4">Area</th>
+                  <th className="py-2 pr-4">Molecules</th>
+                  {countries.map(c => (
+                    <th key={c.code} className="py-2 pr-4">Market {c.code}</th>
+                  ))}
+                  <th className="py-2 pr-4">Generic / License / Wait / Drop</th>
+                  <th className="py-2 pr-4">FTO Clear</th>
+                  <th className="py-2">Lead Opportunity</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.areaSections.map(area => (
+                  <tr key={area.indication} className="border-b last:border-0 text-gray-700">
+                    <td className="py-2 pr-4 font-semibold">{area.indication}</td>
+                    <td className="py-2 pr-4">{area.molecules.length}</td>
+                    {countries.map(c => (
+                      <td key={c.code} className="py-2 pr-4">
+                        {formatCurrency((area.marketSizeByCountry ?? { IN: area.marketSizeIN, US: area.marketSizeUS })[c.code] || 0)}
+                      </td>
+                    ))}
+                    <td className="py-2 pr-4">
+                      {area.strategySummary.generic.length} / {area.strategySummary.license.length} / {area.strategySummary.wait.length} / {area.strategySummary.drop.length}
+                    </td>
+                    <td className="py-2 pr-4">{area.ftoClear.length > 0 ? area.ftoClear.join(', ') : '—'}</td>
+                    <td className="py-2">
+                      {area.topOpportunity ? `${area.topOpportunity.molecule} (${area.topOpportunity.strategy})` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* NEW: Patient Epidemiology Section */}
       {report.epidemiologyOverview && report.epidemiologyOverview.diseases && report.epidemiologyOverview.diseases.length > 0 && (
         <div className="bg-white rounded-lg shadow-lg p-6">
@@ -366,7 +509,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ report, onSuggestedQuery }
                   <div>
                     <h4 className="font-bold text-gray-800">{epi.disease}</h4>
                     <span className="text-sm text-gray-500">
-                      {epi.country === 'IN' ? '🇮🇳 India' : epi.country === 'US' ? '🇺🇸 United States' : '🌍 Global'} • {epi.year}
+                      {epi.country === 'GLOBAL' ? '🌍 Global' : `${countryFlag(epi.country)} ${countryName(countries, epi.country)}`} • {epi.year}
                     </span>
                   </div>
                   <span className={`px-2 py-1 rounded text-xs font-semibold ${
@@ -468,7 +611,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ report, onSuggestedQuery }
                   <tr key={idx} className="hover:bg-gray-50">
                     <td className="px-4 py-3 font-semibold text-gray-900">{util.molecule}</td>
                     <td className="px-4 py-3">
-                      <span className="text-lg">{util.country === 'IN' ? '🇮🇳' : '🇺🇸'}</span>
+                      <span className="text-lg" title={countryName(countries, util.country)}>{countryFlag(util.country)}</span>
                     </td>
                     <td className="px-4 py-3 text-right font-semibold text-blue-600">
                       {formatPatientCount(util.totalPatientsOnDrug)}
@@ -517,7 +660,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ report, onSuggestedQuery }
                   <tr key={idx} className="hover:bg-gray-50">
                     <td className="px-4 py-3 font-semibold text-gray-900">{exp.molecule}</td>
                     <td className="px-4 py-3">
-                      <span className="text-lg">{exp.country === 'IN' ? '🇮🇳' : '🇺🇸'}</span>
+                      <span className="text-lg">{countryFlag(exp.country)}</span>
                       <span className="ml-2">{exp.country}</span>
                     </td>
                     <td className="px-4 py-3 text-gray-700">{exp.expiryDate}</td>
@@ -534,13 +677,53 @@ export const Dashboard: React.FC<DashboardProps> = ({ report, onSuggestedQuery }
         </div>
       )}
 
+      {/* FTO Position (focused patent runs without decisions) */}
+      {!hasDecisions && report.ftoOverview && report.ftoOverview.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h3 className="text-lg font-bold text-gray-800 mb-4">⚖️ Freedom-to-Operate Position</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Molecule</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Overall</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">By Country</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {report.ftoOverview.map((fto) => (
+                  <tr key={fto.molecule} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 font-semibold text-gray-900">{fto.molecule}</td>
+                    <td className={`px-4 py-3 font-semibold ${fto.overallFTO === 'CLEAR' ? 'text-green-600' : fto.overallFTO === 'EXPIRING_SOON' ? 'text-yellow-600' : fto.overallFTO === 'DEVICE_BLOCKED' ? 'text-orange-600' : 'text-red-600'}`}>
+                      {fto.overallFTO}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {fto.byCountry.map(c => (
+                        <div key={c.country}>
+                          {c.country}: {c.ftoStatus} · entry {c.earliestGenericEntry} · {c.blockingPatentCount} blocking
+                          {c.blockingExclusivityCount ? ` · ${c.blockingExclusivityCount} exclusivities` : ''}
+                          {c.entryBlockedBy === 'EXCLUSIVITY' && ' (entry set by exclusivity)'}
+                          {c.atRiskEarliestEntry && c.atRiskEarliestEntry < c.earliestGenericEntry && ` · at-risk ${c.atRiskEarliestEntry}`}
+                          {c.litigationRisk && ` · litigation risk ${c.litigationRisk}`}
+                          {c.lastDevicePatentExpiry && ` · device patents until ${c.lastDevicePatentExpiry}${c.deviceDesignAroundFeasible ? ' (design-around feasible)' : ''}`}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Molecule Decisions */}
       {hasDecisions && (
         <div className="space-y-4">
           <h3 className="text-xl font-bold text-gray-800">🎯 Molecule Decisions</h3>
           <p className="text-sm text-gray-500">Click any card to see detailed country recommendations</p>
           {report.decisions.map((decision) => (
-            <MoleculeDecisionCard key={decision.molecule} decision={decision} />
+            <MoleculeDecisionCard key={decision.molecule} decision={decision} countries={countries} />
           ))}
         </div>
       )}